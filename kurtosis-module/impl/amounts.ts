@@ -0,0 +1,51 @@
+import { Result, ok, err } from "neverthrow";
+
+// NEAR balances are denominated in yoctoNEAR (10^-24 NEAR), which overflows Javascript numbers, so amounts
+//  are always passed around as base-10 strings and manipulated with these helpers
+const DECIMAL_STRING_REGEX: RegExp = /^(0|[1-9][0-9]*)$/;
+
+export function isDecimalString(str: string): boolean {
+    return DECIMAL_STRING_REGEX.test(str);
+}
+
+// Both arguments must be valid decimal strings
+export function addDecimalStrings(a: string, b: string): string {
+    let result: string = "";
+    let carry: number = 0;
+    for (let i: number = 1; i <= Math.max(a.length, b.length); i++) {
+        const aDigit: number = i <= a.length ? Number(a[a.length - i]) : 0;
+        const bDigit: number = i <= b.length ? Number(b[b.length - i]) : 0;
+        const sum: number = aDigit + bDigit + carry;
+        result = (sum % 10).toString() + result;
+        carry = Math.floor(sum / 10);
+    }
+    if (carry > 0) {
+        result = carry.toString() + result;
+    }
+    return result.replace(/^0+(?=[0-9])/, "");
+}
+
+// Encodes a valid decimal string as a fixed-width little-endian unsigned integer (e.g. 16 bytes for a u128)
+export function decimalStringToLittleEndianBytes(str: string, numBytes: number): Result<Buffer, Error> {
+    const result: Buffer = Buffer.alloc(numBytes);
+    let digits: number[] = str.split("").map(Number);
+    for (let byteIdx: number = 0; byteIdx < numBytes; byteIdx++) {
+        // Long division of the remaining digits by 256, with the remainder being the next byte
+        const quotientDigits: number[] = [];
+        let remainder: number = 0;
+        for (const digit of digits) {
+            const dividend: number = remainder * 10 + digit;
+            const quotientDigit: number = Math.floor(dividend / 256);
+            if (quotientDigits.length > 0 || quotientDigit > 0) {
+                quotientDigits.push(quotientDigit);
+            }
+            remainder = dividend % 256;
+        }
+        result[byteIdx] = remainder;
+        digits = quotientDigits;
+    }
+    if (digits.length > 0) {
+        return err(new Error(`Amount '${str}' doesn't fit in ${numBytes} bytes`));
+    }
+    return ok(result);
+}
@@ -0,0 +1,67 @@
+import { Result, ok, err } from "neverthrow";
+
+// NEAR encodes keys, signatures, and hashes using the Bitcoin base58 alphabet
+const BASE58_ALPHABET: string = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BASE: number = BASE58_ALPHABET.length;
+const BITS_PER_BYTE: number = 8;
+
+export function encodeBase58(bytes: Uint8Array): string {
+    // Each leading zero byte is encoded as a leading '1' character
+    let numLeadingZeroes: number = 0;
+    while (numLeadingZeroes < bytes.length && bytes[numLeadingZeroes] === 0) {
+        numLeadingZeroes++;
+    }
+
+    // Base58 digits, least significant first
+    const digits: number[] = [];
+    for (let i: number = numLeadingZeroes; i < bytes.length; i++) {
+        let carry: number = bytes[i];
+        for (let j: number = 0; j < digits.length; j++) {
+            carry += digits[j] << BITS_PER_BYTE;
+            digits[j] = carry % BASE;
+            carry = Math.floor(carry / BASE);
+        }
+        while (carry > 0) {
+            digits.push(carry % BASE);
+            carry = Math.floor(carry / BASE);
+        }
+    }
+
+    let result: string = BASE58_ALPHABET[0].repeat(numLeadingZeroes);
+    for (let i: number = digits.length - 1; i >= 0; i--) {
+        result += BASE58_ALPHABET[digits[i]];
+    }
+    return result;
+}
+
+export function decodeBase58(str: string): Result<Buffer, Error> {
+    let numLeadingZeroes: number = 0;
+    while (numLeadingZeroes < str.length && str[numLeadingZeroes] === BASE58_ALPHABET[0]) {
+        numLeadingZeroes++;
+    }
+
+    // Bytes, least significant first
+    const bytes: number[] = [];
+    for (let i: number = numLeadingZeroes; i < str.length; i++) {
+        const digit: number = BASE58_ALPHABET.indexOf(str[i]);
+        if (digit === -1) {
+            return err(new Error(`Character '${str[i]}' at index ${i} of string '${str}' isn't a valid base58 character`));
+        }
+        let carry: number = digit;
+        for (let j: number = 0; j < bytes.length; j++) {
+            carry += bytes[j] * BASE;
+            bytes[j] = carry & 0xff;
+            carry >>= BITS_PER_BYTE;
+        }
+        while (carry > 0) {
+            bytes.push(carry & 0xff);
+            carry >>= BITS_PER_BYTE;
+        }
+    }
+
+    const result: Buffer = Buffer.alloc(numLeadingZeroes + bytes.length);
+    for (let i: number = 0; i < bytes.length; i++) {
+        result[result.length - 1 - i] = bytes[i];
+    }
+    return ok(result);
+}
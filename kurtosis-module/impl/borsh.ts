@@ -0,0 +1,65 @@
+import { Result, ok, err } from "neverthrow";
+import { decimalStringToLittleEndianBytes } from "./amounts";
+
+const U32_NUM_BYTES: number = 4;
+const U64_NUM_BYTES: number = 8;
+const U128_NUM_BYTES: number = 16;
+const U32_MAX_VALUE_PLUS_ONE: number = 2 ** 32;
+
+// Builds up a Borsh (https://borsh.io) serialization, which is the binary format that NEAR transactions are signed & sent in
+export class BorshWriter {
+    private readonly chunks: Buffer[] = [];
+
+    public writeU8(value: number): void {
+        const chunk: Buffer = Buffer.alloc(1);
+        chunk.writeUInt8(value);
+        this.chunks.push(chunk);
+    }
+
+    public writeU32(value: number): void {
+        const chunk: Buffer = Buffer.alloc(U32_NUM_BYTES);
+        chunk.writeUInt32LE(value);
+        this.chunks.push(chunk);
+    }
+
+    // Only values up to Number.MAX_SAFE_INTEGER can be written, which covers every nonce that NEAR hands out
+    public writeU64(value: number): Result<null, Error> {
+        if (!Number.isSafeInteger(value) || value < 0) {
+            return err(new Error(`Value '${value}' can't be serialized as a u64`));
+        }
+        const chunk: Buffer = Buffer.alloc(U64_NUM_BYTES);
+        chunk.writeUInt32LE(value % U32_MAX_VALUE_PLUS_ONE, 0);
+        chunk.writeUInt32LE(Math.floor(value / U32_MAX_VALUE_PLUS_ONE), U32_NUM_BYTES);
+        this.chunks.push(chunk);
+        return ok(null);
+    }
+
+    // Takes a base-10 string, as u128s (e.g. yoctoNEAR amounts) overflow Javascript numbers
+    public writeU128(value: string): Result<null, Error> {
+        const encodeResult: Result<Buffer, Error> = decimalStringToLittleEndianBytes(value, U128_NUM_BYTES);
+        if (encodeResult.isErr()) {
+            return err(encodeResult.error);
+        }
+        this.chunks.push(encodeResult.value);
+        return ok(null);
+    }
+
+    public writeString(value: string): void {
+        this.writeBytes(Buffer.from(value, "utf8"));
+    }
+
+    // Writes a length-prefixed byte array, i.e. a Vec<u8>
+    public writeBytes(value: Buffer): void {
+        this.writeU32(value.length);
+        this.chunks.push(value);
+    }
+
+    // Writes a fixed-size byte array (e.g. a [u8; 32]), which has no length prefix
+    public writeFixedBytes(value: Buffer): void {
+        this.chunks.push(value);
+    }
+
+    public toBuffer(): Buffer {
+        return Buffer.concat(this.chunks);
+    }
+}
@@ -0,0 +1,196 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Result, ok, err } from "neverthrow";
+import { NetworkIdentity } from "./network_identity";
+import { ValidatorKey } from "./validator_key";
+
+const GENERATED_CLIENT_CONFIGS_DIRNAME_PREFIX: string = "near-client-configs-";
+// An uploaded directory keeps its name inside the files artifact, so the configs are written to a directory with a
+//  fixed name (inside a unique one) to keep the files artifact's layout predictable
+export const CLIENT_CONFIGS_DIRNAME: string = "near-client-configs";
+const NEAR_CLI_ENV_FILENAME: string = "near-cli.env";
+const NEAR_API_JS_CONFIG_FILENAME: string = "near-api-js.json";
+const DOTENV_FILENAME: string = "near.env";
+const CONFIG_FILES_PRETTY_PRINT_NUM_SPACES: number = 2;
+
+// Where the NEAR CLI & near-api-js's UnencryptedFileSystemKeyStore look for keys, relative to the home directory
+const CREDENTIALS_DIRPATH_IN_HOME: string = ".near-credentials";
+const CREDENTIALS_FILE_EXTENSION: string = ".json";
+
+// Magic variables that the NEAR CLI will use if set (see https://github.com/near/near-cli/pull/885/files )
+const NEAR_CLI_NEAR_ENV_ENVVAR: string = "NEAR_ENV";
+const NEAR_CLI_NETWORK_ID_ENVVAR: string = "NEAR_CLI_LOCALNET_NETWORK_ID";
+const NEAR_CLI_NODE_URL_ENVVAR: string = "NEAR_NODE_URL";
+const NEAR_CLI_KEY_FILEPATH_ENVVAR: string = "NEAR_CLI_LOCALNET_KEY_PATH";
+const NEAR_CLI_WALLET_URL_ENVVAR: string = "NEAR_WALLET_URL";
+const NEAR_CLI_CONTRACT_HELPER_URL_ENVVAR: string = "NEAR_HELPER_URL";
+const NEAR_CLI_CONTRACT_HELPER_ACCOUNT_ENVVAR: string = "NEAR_HELPER_ACCOUNT";
+const NEAR_CLI_EXPLORER_URL_ENVVAR: string = "NEAR_EXPLORER_URL";
+// Tells the CLI that it should use the 'localnet' config from its config.json
+const LOCALNET_NEAR_ENV: string = "local";
+
+// General-purpose variables for apps that read their settings from a dotenv file
+const DOTENV_NETWORK_ID_ENVVAR: string = "NEAR_NETWORK_ID";
+const DOTENV_NODE_URL_ENVVAR: string = "NEAR_NODE_URL";
+const DOTENV_WALLET_URL_ENVVAR: string = "NEAR_WALLET_URL";
+const DOTENV_CONTRACT_HELPER_URL_ENVVAR: string = "NEAR_HELPER_URL";
+const DOTENV_EXPLORER_URL_ENVVAR: string = "NEAR_EXPLORER_URL";
+const DOTENV_ACCOUNT_ID_ENVVAR: string = "NEAR_ACCOUNT_ID";
+const DOTENV_PUBLIC_KEY_ENVVAR: string = "NEAR_PUBLIC_KEY";
+const DOTENV_PRIVATE_KEY_ENVVAR: string = "NEAR_PRIVATE_KEY";
+
+// Matches the format of the key files that the NEAR CLI & near-api-js write to ~/.near-credentials
+export interface CredentialsFile {
+    account_id: string;
+    public_key: string;
+    private_key: string;
+}
+
+// Matches the fields of near-api-js's ConnectConfig, so it can be passed straight to connect() (along with a keyStore)
+export interface NearApiJsConnectionConfig {
+    networkId: string;
+    nodeUrl: string;
+    walletUrl?: string;
+    helperUrl?: string;
+    explorerUrl?: string;
+    masterAccount: string;
+}
+
+// Everything that a client needs to connect to the network as the root account
+export class ClientConfigs {
+    constructor(
+        // A shell snippet of 'export' lines that point the NEAR CLI at the network
+        public readonly nearCliEnv: string,
+        public readonly nearApiJsConfig: NearApiJsConnectionConfig,
+        // The contents of a dotenv file with the network's URLs & the root account's keys
+        public readonly dotenv: string,
+        // Where the credentials file goes, relative to the home directory (e.g. ".near-credentials/localnet/test.near.json")
+        public readonly credentialsFilepath: string,
+        public readonly credentials: CredentialsFile,
+    ) {}
+}
+
+// The URLs are the public ones that clients outside the enclave connect to; those of services that aren't started are
+//  undefined, and get left out of the configs
+export function generateClientConfigs(
+    networkIdentity: NetworkIdentity,
+    rootValidatorKey: ValidatorKey,
+    nodeRpcUrl: string,
+    walletUrl: string | undefined,
+    contractHelperUrl: string | undefined,
+    explorerUrl: string | undefined,
+): Result<ClientConfigs, Error> {
+    // The network ID & account ID each become a path component of the credentials file, as the NEAR CLI expects
+    for (const pathComponent of [networkIdentity.networkId, rootValidatorKey.account_id]) {
+        if (pathComponent.includes(path.sep) || pathComponent === "." || pathComponent === "..") {
+            return err(new Error(
+                `Cannot generate the credentials file path because '${pathComponent}' isn't usable as a file or directory name`
+            ));
+        }
+    }
+    const credentialsFilepath: string = path.join(
+        CREDENTIALS_DIRPATH_IN_HOME,
+        networkIdentity.networkId,
+        `${rootValidatorKey.account_id}${CREDENTIALS_FILE_EXTENSION}`,
+    );
+    const credentials: CredentialsFile = {
+        account_id: rootValidatorKey.account_id,
+        public_key: rootValidatorKey.public_key,
+        private_key: rootValidatorKey.secret_key,
+    };
+
+    const nearCliEnvLines: string[] = [
+        getShellExportLine(NEAR_CLI_NEAR_ENV_ENVVAR, quoteForShell(LOCALNET_NEAR_ENV)),
+        getShellExportLine(NEAR_CLI_NETWORK_ID_ENVVAR, quoteForShell(networkIdentity.networkId)),
+        getShellExportLine(NEAR_CLI_NODE_URL_ENVVAR, quoteForShell(nodeRpcUrl)),
+        // The home directory is left for the shell to expand, as it's only known on the client's machine
+        getShellExportLine(NEAR_CLI_KEY_FILEPATH_ENVVAR, `"\${HOME}"${quoteForShell(`/${credentialsFilepath}`)}`),
+        getShellExportLine(NEAR_CLI_CONTRACT_HELPER_ACCOUNT_ENVVAR, quoteForShell(rootValidatorKey.account_id)),
+    ];
+    const dotenvVars: Map<string, string> = new Map([
+        [DOTENV_NETWORK_ID_ENVVAR, networkIdentity.networkId],
+        [DOTENV_NODE_URL_ENVVAR, nodeRpcUrl],
+        [DOTENV_ACCOUNT_ID_ENVVAR, rootValidatorKey.account_id],
+        [DOTENV_PUBLIC_KEY_ENVVAR, rootValidatorKey.public_key],
+        [DOTENV_PRIVATE_KEY_ENVVAR, rootValidatorKey.secret_key],
+    ]);
+    const nearApiJsConfig: NearApiJsConnectionConfig = {
+        networkId: networkIdentity.networkId,
+        nodeUrl: nodeRpcUrl,
+        masterAccount: rootValidatorKey.account_id,
+    };
+    if (walletUrl !== undefined) {
+        nearCliEnvLines.push(getShellExportLine(NEAR_CLI_WALLET_URL_ENVVAR, quoteForShell(walletUrl)));
+        dotenvVars.set(DOTENV_WALLET_URL_ENVVAR, walletUrl);
+        nearApiJsConfig.walletUrl = walletUrl;
+    }
+    if (contractHelperUrl !== undefined) {
+        nearCliEnvLines.push(getShellExportLine(NEAR_CLI_CONTRACT_HELPER_URL_ENVVAR, quoteForShell(contractHelperUrl)));
+        dotenvVars.set(DOTENV_CONTRACT_HELPER_URL_ENVVAR, contractHelperUrl);
+        nearApiJsConfig.helperUrl = contractHelperUrl;
+    }
+    if (explorerUrl !== undefined) {
+        nearCliEnvLines.push(getShellExportLine(NEAR_CLI_EXPLORER_URL_ENVVAR, quoteForShell(explorerUrl)));
+        dotenvVars.set(DOTENV_EXPLORER_URL_ENVVAR, explorerUrl);
+        nearApiJsConfig.explorerUrl = explorerUrl;
+    }
+
+    const dotenvLines: string[] = [];
+    for (const [envvar, value] of dotenvVars.entries()) {
+        // Dotenv parsers unescape double-quoted values the same way as JSON strings
+        dotenvLines.push(`${envvar}=${JSON.stringify(value)}`);
+    }
+
+    const result: ClientConfigs = new ClientConfigs(
+        nearCliEnvLines.join("\n") + "\n",
+        nearApiJsConfig,
+        dotenvLines.join("\n") + "\n",
+        credentialsFilepath,
+        credentials,
+    );
+    return ok(result);
+}
+
+// Writes the configs into a new directory named CLIENT_CONFIGS_DIRNAME, laid out as: near-cli.env, near-api-js.json,
+//  near.env, and the credentials file under .near-credentials (so that the directory can be copied over the home
+//  directory), returning its dirpath
+export function writeClientConfigs(clientConfigs: ClientConfigs): Result<string, Error> {
+    try {
+        const dirpath: string = path.join(
+            fs.mkdtempSync(path.join(os.tmpdir(), GENERATED_CLIENT_CONFIGS_DIRNAME_PREFIX)),
+            CLIENT_CONFIGS_DIRNAME,
+        );
+        fs.mkdirSync(dirpath);
+        fs.writeFileSync(path.join(dirpath, NEAR_CLI_ENV_FILENAME), clientConfigs.nearCliEnv);
+        fs.writeFileSync(
+            path.join(dirpath, NEAR_API_JS_CONFIG_FILENAME),
+            JSON.stringify(clientConfigs.nearApiJsConfig, null, CONFIG_FILES_PRETTY_PRINT_NUM_SPACES),
+        );
+        fs.writeFileSync(path.join(dirpath, DOTENV_FILENAME), clientConfigs.dotenv);
+        const credentialsFilepath: string = path.join(dirpath, clientConfigs.credentialsFilepath);
+        fs.mkdirSync(path.dirname(credentialsFilepath), { recursive: true });
+        fs.writeFileSync(
+            credentialsFilepath,
+            JSON.stringify(clientConfigs.credentials, null, CONFIG_FILES_PRETTY_PRINT_NUM_SPACES),
+        );
+        return ok(dirpath);
+    } catch (e: any) {
+        // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
+        // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
+        if (e && e.stack && e.message) {
+            return err(e as Error);
+        }
+        return err(new Error("Writing the client config files threw an exception, but " +
+            "it's not an Error so we can't report any more information than this"));
+    }
+}
+
+function getShellExportLine(envvar: string, quotedValue: string): string {
+    return `export ${envvar}=${quotedValue}`;
+}
+
+// Single quotes make the shell take everything literally, except for single quotes themselves
+function quoteForShell(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
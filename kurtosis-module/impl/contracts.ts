@@ -0,0 +1,199 @@
+import * as crypto from "crypto";
+import * as log from "loglevel";
+import { Result, ok, err } from "neverthrow";
+import { isDecimalString } from "./amounts";
+import { encodeBase58 } from "./base58";
+import { isDirectSubaccount, isValidAccountId } from "./genesis";
+import { AccountParams, ContractParams } from "./module_io/params";
+import { AccountView, NearRpcClient } from "./near_rpc";
+import {
+    Action,
+    AddFullAccessKeyAction,
+    CreateAccountAction,
+    createSignedTransaction,
+    DeleteKeyAction,
+    DeployContractAction,
+    FunctionCallAction,
+    TransferAction,
+} from "./transactions";
+import { ValidatorKey } from "./validator_key";
+
+// 10 NEAR, which covers the storage staking of contracts up to ~1MB
+export const DEFAULT_CONTRACT_ACCOUNT_BALANCE: string = "10000000000000000000000000";
+// The maximum gas that a single function call can be given (300 TGas)
+const INIT_METHOD_GAS: number = 300_000_000_000_000;
+const INIT_METHOD_DEPOSIT: string = "0";
+const CODE_HASH_ALGORITHM: string = "sha256";
+
+export class ContractInfo {
+    constructor(
+        public readonly accountId: string,
+        // Base58-encoded SHA-256 hash of the deployed code, as reported by the NEAR node
+        public readonly codeHash: string,
+        // The transaction that created the contract's account & deployed the code to it
+        public readonly deployTransactionHash: string,
+        // Undefined if the contract has no init method
+        public readonly initTransactionHash: string | undefined,
+    ) {}
+}
+
+// Checks the contract params against each other & the other accounts, so that mistakes get reported before any
+//  services are started
+// Each contract gets a new account created by the root account, so it must be a direct subaccount that nothing else uses
+export function validateContractParams(
+    contracts: ContractParams[],
+    creatorAccountId: string,
+    testAccounts: AccountParams[],
+): Result<null, Error> {
+    const problems: string[] = [];
+    const testAccountIds: Set<string> = new Set(testAccounts.map(account => account.accountId));
+    const contractAccountIds: Set<string> = new Set();
+    for (const contract of contracts) {
+        if (!isValidAccountId(contract.accountId)) {
+            problems.push(`Contract account ID '${contract.accountId}' isn't a valid NEAR account ID`);
+        } else if (!isDirectSubaccount(contract.accountId, creatorAccountId)) {
+            problems.push(`Contract account '${contract.accountId}' isn't a direct subaccount of the '${creatorAccountId}' account that creates it (e.g. 'my-contract.${creatorAccountId}')`);
+        }
+        if (contractAccountIds.has(contract.accountId)) {
+            problems.push(`Contract account '${contract.accountId}' is listed more than once`);
+        }
+        if (testAccountIds.has(contract.accountId)) {
+            problems.push(`Contract account '${contract.accountId}' is also listed as a test account`);
+        }
+        contractAccountIds.add(contract.accountId);
+        if (contract.balance !== undefined && !isDecimalString(contract.balance)) {
+            problems.push(`Contract account '${contract.accountId}' has balance '${contract.balance}', which isn't a non-negative base-10 integer string`);
+        }
+        if (contract.initArgs !== undefined && contract.initMethod === undefined) {
+            problems.push(`Contract account '${contract.accountId}' has init args but no init method to pass them to`);
+        }
+    }
+    if (problems.length > 0) {
+        return err(new Error(`The contracts are invalid:\n * ${problems.join("\n * ")}`));
+    }
+    return ok(null);
+}
+
+// Deploys each contract's code (given in the same order as the contracts) to a new account & calls its init method,
+//  waiting for each deployment to become final
+export async function deployContracts(
+    rpcClient: NearRpcClient,
+    creatorKey: ValidatorKey,
+    contracts: ContractParams[],
+    contractCodes: Buffer[],
+): Promise<Result<ContractInfo[], Error>> {
+    if (contracts.length === 0) {
+        return ok([]);
+    }
+
+    const getNonceResult: Result<number, Error> = await rpcClient.getAccessKeyNonce(creatorKey.account_id, creatorKey.public_key);
+    if (getNonceResult.isErr()) {
+        return err(getNonceResult.error);
+    }
+    let creatorNonce: number = getNonceResult.value;
+
+    const result: ContractInfo[] = [];
+    for (let i: number = 0; i < contracts.length; i++) {
+        const contract: ContractParams = contracts[i];
+        const code: Buffer = contractCodes[i];
+        log.info(`Deploying contract to account '${contract.accountId}'...`);
+
+        // If there's an init method, the creator's key is added to the contract account so that the init method can be
+        //  called by the contract account itself (as init methods are often restricted to that), and then deleted by
+        //  the init transaction; either way, the contract account ends up with no access keys
+        const deployActions: Action[] = [
+            new CreateAccountAction(),
+            new TransferAction(contract.balance !== undefined ? contract.balance : DEFAULT_CONTRACT_ACCOUNT_BALANCE),
+        ];
+        if (contract.initMethod !== undefined) {
+            deployActions.push(new AddFullAccessKeyAction(creatorKey.public_key));
+        }
+        deployActions.push(new DeployContractAction(code));
+        const getDeployBlockHashResult: Result<string, Error> = await rpcClient.getFinalBlockHash();
+        if (getDeployBlockHashResult.isErr()) {
+            return err(getDeployBlockHashResult.error);
+        }
+        creatorNonce++;
+        const createDeployTransactionResult: Result<string, Error> = createSignedTransaction(
+            creatorKey.account_id,
+            creatorKey.public_key,
+            creatorKey.secret_key,
+            creatorNonce,
+            contract.accountId,
+            getDeployBlockHashResult.value,
+            deployActions,
+        );
+        if (createDeployTransactionResult.isErr()) {
+            return err(createDeployTransactionResult.error);
+        }
+        const deployResult: Result<string, Error> = await rpcClient.broadcastTxCommit(createDeployTransactionResult.value);
+        if (deployResult.isErr()) {
+            return err(new Error(`Deploying contract to account '${contract.accountId}' failed: ${deployResult.error.message}`));
+        }
+        const deployTransactionHash: string = deployResult.value;
+
+        const waitForFinalityResult: Result<AccountView, Error> = await rpcClient.waitForFinalAccount(contract.accountId);
+        if (waitForFinalityResult.isErr()) {
+            return err(waitForFinalityResult.error);
+        }
+        const codeHash: string = waitForFinalityResult.value.code_hash;
+        const expectedCodeHash: string = encodeBase58(crypto.createHash(CODE_HASH_ALGORITHM).update(code).digest());
+        if (codeHash !== expectedCodeHash) {
+            return err(new Error(
+                `Contract account '${contract.accountId}' has code hash '${codeHash}' after deployment, but the deployed code has hash '${expectedCodeHash}'`
+            ));
+        }
+
+        let initTransactionHash: string | undefined = undefined;
+        if (contract.initMethod !== undefined) {
+            const callInitMethodResult: Result<string, Error> = await callInitMethod(rpcClient, creatorKey, contract, contract.initMethod);
+            if (callInitMethodResult.isErr()) {
+                return err(callInitMethodResult.error);
+            }
+            initTransactionHash = callInitMethodResult.value;
+        }
+
+        result.push(new ContractInfo(contract.accountId, codeHash, deployTransactionHash, initTransactionHash));
+        log.info(`Deployed contract to account '${contract.accountId}'`);
+    }
+    return ok(result);
+}
+
+// Returns the hash of the init transaction, which also deletes the creator's key from the contract account
+async function callInitMethod(
+    rpcClient: NearRpcClient,
+    creatorKey: ValidatorKey,
+    contract: ContractParams,
+    initMethod: string,
+): Promise<Result<string, Error>> {
+    // Access keys added by transactions start with a nonce derived from the block height, so it has to be looked up
+    const getNonceResult: Result<number, Error> = await rpcClient.getAccessKeyNonce(contract.accountId, creatorKey.public_key);
+    if (getNonceResult.isErr()) {
+        return err(getNonceResult.error);
+    }
+    const getBlockHashResult: Result<string, Error> = await rpcClient.getFinalBlockHash();
+    if (getBlockHashResult.isErr()) {
+        return err(getBlockHashResult.error);
+    }
+    const initArgs: any = contract.initArgs !== undefined ? contract.initArgs : {};
+    const createInitTransactionResult: Result<string, Error> = createSignedTransaction(
+        contract.accountId,
+        creatorKey.public_key,
+        creatorKey.secret_key,
+        getNonceResult.value + 1,
+        contract.accountId,
+        getBlockHashResult.value,
+        [
+            new FunctionCallAction(initMethod, Buffer.from(JSON.stringify(initArgs), "utf8"), INIT_METHOD_GAS, INIT_METHOD_DEPOSIT),
+            new DeleteKeyAction(creatorKey.public_key),
+        ],
+    );
+    if (createInitTransactionResult.isErr()) {
+        return err(createInitTransactionResult.error);
+    }
+    const initResult: Result<string, Error> = await rpcClient.broadcastTxCommit(createInitTransactionResult.value);
+    if (initResult.isErr()) {
+        return err(new Error(`Calling init method '${initMethod}' of contract '${contract.accountId}' failed: ${initResult.error.message}`));
+    }
+    return ok(initResult.value);
+}
@@ -0,0 +1,271 @@
+import { Result, ok, err } from "neverthrow";
+import { addDecimalStrings, isDecimalString } from "./amounts";
+import { GenesisAccountParams, GenesisParams } from "./module_io/params";
+import { validatePublicKey } from "./near_keys";
+
+// The hash of empty contract code, which is what accounts without a contract have
+const EMPTY_CODE_HASH: string = "11111111111111111111111111111111";
+const ACCOUNT_VERSION: string = "V1";
+const FULL_ACCESS_PERMISSION: string = "FullAccess";
+
+// From https://nomicon.io/DataStructures/Account#account-id-rules
+const ACCOUNT_ID_REGEX: RegExp = /^(([a-z\d]+[\-_])*[a-z\d]+\.)*([a-z\d]+[\-_])*[a-z\d]+$/;
+const MIN_ACCOUNT_ID_LENGTH: number = 2;
+const MAX_ACCOUNT_ID_LENGTH: number = 64;
+
+const TOTAL_SUPPLY_FIELD: string = "total_supply";
+// These fields are managed by the module (via the accounts & validator params), so can't be overridden wholesale
+const NON_OVERRIDABLE_FIELDS: Set<string> = new Set([
+    "records",
+    "validators",
+]);
+
+// Only the genesis fields that the module manipulates are typed; everything else is passed through as-is
+export interface Genesis {
+    chain_id: string;
+    validators: GenesisValidator[];
+    total_supply: string;
+    records: GenesisRecord[];
+    [field: string]: any;
+}
+
+export interface GenesisValidator {
+    account_id: string;
+    public_key: string;
+    amount: string;
+}
+
+export interface GenesisAccount {
+    amount: string;
+    locked: string;
+    code_hash: string;
+    storage_usage: number;
+    version: string;
+}
+
+export interface GenesisAccessKey {
+    nonce: number;
+    permission: any;
+}
+
+export interface GenesisRecord {
+    Account?: {
+        account_id: string;
+        account: GenesisAccount;
+    };
+    AccessKey?: {
+        account_id: string;
+        public_key: string;
+        access_key: GenesisAccessKey;
+    };
+    [recordType: string]: any;
+}
+
+export function parseGenesis(genesisStr: string): Result<Genesis, Error> {
+    let genesis: Genesis;
+    try {
+        genesis = JSON.parse(genesisStr);
+    } catch (e: any) {
+        // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
+        // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
+        if (e && e.stack && e.message) {
+            return err(e as Error);
+        }
+        return err(new Error("JSON-parsing the genesis file threw an exception, but " +
+            "it's not an Error so we can't report any more information than this"));
+    }
+    return ok(genesis);
+}
+
+// Adds an account with a full-access key to the genesis records
+// NOTE: this doesn't update the total supply; use recomputeTotalSupply after all modifications are done
+export function addGenesisAccount(
+    genesis: Genesis,
+    accountId: string,
+    publicKey: string,
+    amount: string,
+    locked: string,
+): Result<null, Error> {
+    for (const record of genesis.records) {
+        if (record.Account !== undefined && record.Account.account_id === accountId) {
+            return err(new Error(`Cannot add account '${accountId}' to the genesis because an account with that ID already exists`));
+        }
+    }
+    genesis.records.push({
+        Account: {
+            account_id: accountId,
+            account: {
+                amount: amount,
+                locked: locked,
+                code_hash: EMPTY_CODE_HASH,
+                storage_usage: 0,
+                version: ACCOUNT_VERSION,
+            },
+        },
+    });
+    genesis.records.push({
+        AccessKey: {
+            account_id: accountId,
+            public_key: publicKey,
+            access_key: {
+                nonce: 0,
+                permission: FULL_ACCESS_PERMISSION,
+            },
+        },
+    });
+    return ok(null);
+}
+
+// Adds a validator to the genesis validator set, backed by a new account whose locked balance is the stake
+export function addGenesisValidator(
+    genesis: Genesis,
+    accountId: string,
+    publicKey: string,
+    balance: string,
+    stake: string,
+): Result<null, Error> {
+    const addAccountResult: Result<null, Error> = addGenesisAccount(genesis, accountId, publicKey, balance, stake);
+    if (addAccountResult.isErr()) {
+        return err(addAccountResult.error);
+    }
+    genesis.validators.push({
+        account_id: accountId,
+        public_key: publicKey,
+        amount: stake,
+    });
+    return ok(null);
+}
+
+// The total supply must equal the sum of every account's liquid & locked balances, else the node will refuse to start
+export function computeTotalSupply(genesis: Genesis): string {
+    let totalSupply: string = "0";
+    for (const record of genesis.records) {
+        if (record.Account === undefined) {
+            continue;
+        }
+        totalSupply = addDecimalStrings(totalSupply, record.Account.account.amount);
+        totalSupply = addDecimalStrings(totalSupply, record.Account.account.locked);
+    }
+    return totalSupply;
+}
+
+export function recomputeTotalSupply(genesis: Genesis): void {
+    genesis.total_supply = computeTotalSupply(genesis);
+}
+
+// Applies the user's genesis patches, returning true if the user pinned the total supply (in which case it
+//  shouldn't be recomputed, so that validation can catch a mismatch)
+export function applyGenesisParams(genesis: Genesis, params: GenesisParams): Result<boolean, Error> {
+    if (params.chainId !== undefined) {
+        genesis.chain_id = params.chainId;
+    }
+    if (params.epochLength !== undefined) {
+        genesis.epoch_length = params.epochLength;
+    }
+    if (params.gasLimit !== undefined) {
+        genesis.gas_limit = params.gasLimit;
+    }
+    if (params.minGasPrice !== undefined) {
+        genesis.min_gas_price = params.minGasPrice;
+    }
+    if (params.maxGasPrice !== undefined) {
+        genesis.max_gas_price = params.maxGasPrice;
+    }
+    if (params.protocolVersion !== undefined) {
+        genesis.protocol_version = params.protocolVersion;
+    }
+
+    const accounts: GenesisAccountParams[] = params.accounts || [];
+    for (const account of accounts) {
+        const addAccountResult: Result<null, Error> = addGenesisAccount(
+            genesis,
+            account.accountId,
+            account.publicKey,
+            account.balance,
+            "0",
+        );
+        if (addAccountResult.isErr()) {
+            return err(addAccountResult.error);
+        }
+    }
+
+    const fieldOverrides: { [field: string]: any } = params.fieldOverrides || {};
+    for (const [field, value] of Object.entries(fieldOverrides)) {
+        if (NON_OVERRIDABLE_FIELDS.has(field)) {
+            return err(new Error(`Genesis field '${field}' cannot be overridden directly; use the dedicated genesis params instead`));
+        }
+        if (!(field in genesis)) {
+            return err(new Error(`Cannot override genesis field '${field}' because the genesis has no such field`));
+        }
+        genesis[field] = value;
+    }
+
+    return ok(TOTAL_SUPPLY_FIELD in fieldOverrides);
+}
+
+// Checks the invariants that the NEAR node would otherwise only complain about (cryptically) at startup, reporting
+//  every violation at once
+export function validateGenesis(genesis: Genesis): Result<null, Error> {
+    const problems: string[] = [];
+
+    const accountIds: Set<string> = new Set();
+    let allAmountsValid: boolean = true;
+    for (const record of genesis.records) {
+        if (record.Account !== undefined) {
+            const accountId: string = record.Account.account_id;
+            if (!isValidAccountId(accountId)) {
+                problems.push(`Account ID '${accountId}' isn't a valid NEAR account ID`);
+            }
+            if (accountIds.has(accountId)) {
+                problems.push(`Account '${accountId}' is defined more than once`);
+            }
+            accountIds.add(accountId);
+            for (const [name, amount] of [["amount", record.Account.account.amount], ["locked", record.Account.account.locked]]) {
+                if (!isDecimalString(amount)) {
+                    problems.push(`Account '${accountId}' has ${name} '${amount}', which isn't a non-negative base-10 integer string`);
+                    allAmountsValid = false;
+                }
+            }
+        }
+        if (record.AccessKey !== undefined) {
+            const validatePublicKeyResult: Result<null, Error> = validatePublicKey(record.AccessKey.public_key);
+            if (validatePublicKeyResult.isErr()) {
+                problems.push(`Access key for account '${record.AccessKey.account_id}' is invalid: ${validatePublicKeyResult.error.message}`);
+            }
+        }
+    }
+
+    for (const validator of genesis.validators) {
+        const validatePublicKeyResult: Result<null, Error> = validatePublicKey(validator.public_key);
+        if (validatePublicKeyResult.isErr()) {
+            problems.push(`Validator '${validator.account_id}' has an invalid key: ${validatePublicKeyResult.error.message}`);
+        }
+        if (!accountIds.has(validator.account_id)) {
+            problems.push(`Validator '${validator.account_id}' has no corresponding account record`);
+        }
+    }
+
+    if (allAmountsValid) {
+        const computedTotalSupply: string = computeTotalSupply(genesis);
+        if (genesis.total_supply !== computedTotalSupply) {
+            problems.push(`Total supply is '${genesis.total_supply}', but the account balances add up to '${computedTotalSupply}'`);
+        }
+    }
+
+    if (problems.length > 0) {
+        return err(new Error(`The genesis is invalid:\n * ${problems.join("\n * ")}`));
+    }
+    return ok(null);
+}
+
+export function isValidAccountId(accountId: string): boolean {
+    return accountId.length >= MIN_ACCOUNT_ID_LENGTH &&
+        accountId.length <= MAX_ACCOUNT_ID_LENGTH &&
+        ACCOUNT_ID_REGEX.test(accountId);
+}
+
+// NEAR only lets accounts create their direct subaccounts (e.g. 'test.near' can create 'alice.test.near', but not 'a.alice.test.near')
+export function isDirectSubaccount(accountId: string, parentAccountId: string): boolean {
+    const suffix: string = `.${parentAccountId}`;
+    return accountId.endsWith(suffix) && !accountId.slice(0, -suffix.length).includes(".");
+}
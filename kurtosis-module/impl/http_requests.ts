@@ -0,0 +1,76 @@
+import * as http from "http";
+import { Result, ok, err } from "neverthrow";
+
+const JSON_CONTENT_TYPE: string = "application/json";
+
+export class HttpResponse {
+    constructor(
+        public readonly statusCode: number,
+        public readonly body: string,
+    ) {}
+}
+
+export async function httpGet(url: string, timeoutMillis: number): Promise<Result<HttpResponse, Error>> {
+    return doHttpRequest(url, "GET", undefined, timeoutMillis);
+}
+
+export async function httpPostJson(url: string, body: Object, timeoutMillis: number): Promise<Result<HttpResponse, Error>> {
+    let serializedBody: string;
+    try {
+        serializedBody = JSON.stringify(body);
+    } catch (e: any) {
+        // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
+        // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
+        if (e && e.stack && e.message) {
+            return err(e as Error);
+        }
+        return err(new Error("Serializing the HTTP request body threw an exception, but " +
+            "it's not an Error so we can't report any more information than this"));
+    }
+    return doHttpRequest(url, "POST", serializedBody, timeoutMillis);
+}
+
+function doHttpRequest(
+    url: string,
+    method: string,
+    // May be undefined for requests without a body
+    body: string | undefined,
+    timeoutMillis: number,
+): Promise<Result<HttpResponse, Error>> {
+    return new Promise(resolve => {
+        const headers: http.OutgoingHttpHeaders = {};
+        if (body !== undefined) {
+            headers["Content-Type"] = JSON_CONTENT_TYPE;
+            headers["Content-Length"] = Buffer.byteLength(body);
+        }
+
+        let request: http.ClientRequest;
+        try {
+            request = http.request(url, { method: method, headers: headers, timeout: timeoutMillis }, response => {
+                const chunks: Buffer[] = [];
+                response.on("data", (chunk: Buffer) => chunks.push(chunk));
+                response.on("end", () => {
+                    const statusCode: number = response.statusCode !== undefined ? response.statusCode : 0;
+                    resolve(ok(new HttpResponse(statusCode, Buffer.concat(chunks).toString("utf8"))));
+                });
+                response.on("error", (responseErr: Error) => resolve(err(responseErr)));
+            });
+        } catch (e: any) {
+            if (e && e.stack && e.message) {
+                resolve(err(e as Error));
+                return;
+            }
+            resolve(err(new Error(`Creating ${method} request to '${url}' threw an exception, but ` +
+                "it's not an Error so we can't report any more information than this")));
+            return;
+        }
+        request.on("timeout", () => {
+            request.destroy(new Error(`${method} request to '${url}' timed out after ${timeoutMillis}ms`));
+        });
+        request.on("error", (requestErr: Error) => resolve(err(requestErr)));
+        if (body !== undefined) {
+            request.write(body);
+        }
+        request.end();
+    });
+}
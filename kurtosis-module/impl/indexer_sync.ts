@@ -0,0 +1,74 @@
+import { Result, ok, err } from "neverthrow";
+import { IndexerSyncParams } from "./module_io/params";
+
+// The indexer's sync modes, named as its 'run' subcommands
+export const SYNC_FROM_LATEST_MODE: string = "sync-from-latest";
+export const SYNC_FROM_BLOCK_MODE: string = "sync-from-block";
+// Resumes from the last block that the indexer processed before it was stopped, as recorded in the node's data
+//  directory, or from the latest block if there's no such record
+export const SYNC_FROM_INTERRUPTION_MODE: string = "sync-from-interruption";
+
+export const SYNC_MODE_NAMES: string[] = [
+    SYNC_FROM_LATEST_MODE,
+    SYNC_FROM_BLOCK_MODE,
+    SYNC_FROM_INTERRUPTION_MODE,
+];
+
+// What the indexer always did before the sync mode could be set
+const DEFAULT_SYNC_MODE: string = SYNC_FROM_LATEST_MODE;
+const DEFAULT_STORE_GENESIS: boolean = true;
+const DEFAULT_RUN_MIGRATIONS: boolean = true;
+
+const RUN_SUBCOMMAND: string = "run";
+const STORE_GENESIS_FLAG: string = "--store-genesis";
+const BLOCK_HEIGHT_FLAG: string = "--height";
+
+// The indexer sync params, with every default filled in
+export class IndexerSyncConfig {
+    constructor(
+        public readonly mode: string,
+        // Only set for the "sync-from-block" mode
+        public readonly blockHeight: number | undefined,
+        public readonly storeGenesis: boolean,
+        public readonly runMigrations: boolean,
+    ) {}
+}
+
+export function resolveIndexerSyncConfig(params: IndexerSyncParams): Result<IndexerSyncConfig, Error> {
+    const mode: string = params.mode !== undefined ? params.mode : DEFAULT_SYNC_MODE;
+    if (!SYNC_MODE_NAMES.includes(mode)) {
+        return err(new Error(`Unrecognized indexer sync mode '${mode}'; valid modes are: ${SYNC_MODE_NAMES.join(", ")}`));
+    }
+    if (mode === SYNC_FROM_BLOCK_MODE && params.blockHeight === undefined) {
+        return err(new Error(`The indexer sync mode '${SYNC_FROM_BLOCK_MODE}' needs the block height to sync from`));
+    }
+    if (mode !== SYNC_FROM_BLOCK_MODE && params.blockHeight !== undefined) {
+        return err(new Error(
+            `An indexer sync block height can only be given with sync mode '${SYNC_FROM_BLOCK_MODE}', but the sync mode is '${mode}'`
+        ));
+    }
+    if (params.blockHeight !== undefined && (!Number.isInteger(params.blockHeight) || params.blockHeight < 0)) {
+        return err(new Error(`The indexer sync block height must be a non-negative integer, but was '${params.blockHeight}'`));
+    }
+
+    const result: IndexerSyncConfig = new IndexerSyncConfig(
+        mode,
+        params.blockHeight,
+        params.storeGenesis !== undefined ? params.storeGenesis : DEFAULT_STORE_GENESIS,
+        params.runMigrations !== undefined ? params.runMigrations : DEFAULT_RUN_MIGRATIONS,
+    );
+    return ok(result);
+}
+
+// The indexer binary's args after its global flags, e.g. "run --store-genesis sync-from-block --height 100"
+export function getIndexerRunArgs(config: IndexerSyncConfig): string[] {
+    const result: string[] = [RUN_SUBCOMMAND];
+    if (config.storeGenesis) {
+        result.push(STORE_GENESIS_FLAG);
+    }
+    result.push(config.mode);
+    if (config.blockHeight !== undefined) {
+        result.push(BLOCK_HEIGHT_FLAG, config.blockHeight.toString());
+    }
+    return result;
+}
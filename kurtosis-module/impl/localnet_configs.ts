@@ -0,0 +1,218 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Result, ok, err } from "neverthrow";
+import { Genesis, addGenesisValidator, applyGenesisParams, parseGenesis, recomputeTotalSupply, validateGenesis } from "./genesis";
+import { GenesisParams } from "./module_io/params";
+import { NearKeyPair, generateEd25519KeyPair } from "./near_keys";
+import { NetworkIdentity } from "./network_identity";
+import { applyNodeConfigOverrides } from "./node_config";
+import { ValidatorKey, validateValidatorKey } from "./validator_key";
+
+const LOCALNET_CONFIG_DIRPATH_ON_MODULE: string = "/static-files/near-configs/localnet";
+// The NEAR nodes expect their config directory to have this name, so every generated config directory uses it too
+export const LOCALNET_CONFIG_DIRNAME: string = path.basename(LOCALNET_CONFIG_DIRPATH_ON_MODULE);
+
+const GENESIS_FILENAME: string = "genesis.json";
+const CONFIG_FILENAME: string = "config.json";
+const NODE_KEY_FILENAME: string = "node_key.json";
+const VALIDATOR_KEY_FILENAME: string = "validator_key.json";
+
+const GENERATED_CONFIGS_DIRNAME_PREFIX: string = "near-configs-";
+const NODE_CONFIG_DIRNAME_PREFIX: string = "node-";
+const CONFIG_FILES_PRETTY_PRINT_NUM_SPACES: number = 2;
+
+// Extra validators get accounts that are subaccounts of the root validator's account, e.g. 'node1.test.near'
+const EXTRA_VALIDATOR_ACCOUNT_ID_PREFIX: string = "node";
+const EXTRA_VALIDATOR_BALANCE: string = "1000000000000000000000000000000000";
+// Same stake as the root validator gets in the static genesis, so no single validator dominates the others
+const EXTRA_VALIDATOR_STAKE: string = "50000000000000000000000000000000";
+const NODE_KEY_ACCOUNT_ID: string = "node";
+
+// Matches the format of the node_key.json file that NEAR nodes read
+export interface KeyFile {
+    account_id: string;
+    public_key: string;
+    secret_key: string;
+}
+
+export class LocalnetNodeConfig {
+    constructor(
+        // Dirpath on the module container of this node's config directory, ready to be uploaded to the enclave
+        public readonly configDirpath: string,
+        public readonly validatorKey: ValidatorKey,
+        // Public key that other nodes use to identify this node when connecting to it over gossip
+        public readonly nodePublicKey: string,
+    ) {}
+}
+
+// Generates one config directory per validator node, all sharing a single genesis whose validator set contains
+//  every node; node 0 is the root validator from the static config files
+// Every node gets the same config.json, which is the static one with the overrides deep-merged into it
+// Returns a tuple of (networkIdentity, nodeConfig, nodeConfigs), where the network identity is that of the final
+//  genesis & the node config is the parsed config.json
+export function generateLocalnetConfigs(
+    numValidatorNodes: number,
+    genesisParams: GenesisParams,
+    nodeConfigOverrides: { [field: string]: any },
+): Result<[NetworkIdentity, { [field: string]: any }, LocalnetNodeConfig[]], Error> {
+    const readStaticFilesResult = readStaticFiles();
+    if (readStaticFilesResult.isErr()) {
+        return err(readStaticFilesResult.error);
+    }
+    const [genesisStr, configStr, rootNodeKey, rootValidatorKeyObj] = readStaticFilesResult.value;
+
+    const validateRootValidatorKeyResult: Result<ValidatorKey, Error> = validateValidatorKey(rootValidatorKeyObj);
+    if (validateRootValidatorKeyResult.isErr()) {
+        return err(validateRootValidatorKeyResult.error);
+    }
+    const rootValidatorKey: ValidatorKey = validateRootValidatorKeyResult.value;
+
+    const parseGenesisResult: Result<Genesis, Error> = parseGenesis(genesisStr);
+    if (parseGenesisResult.isErr()) {
+        return err(parseGenesisResult.error);
+    }
+    const genesis: Genesis = parseGenesisResult.value;
+
+    const applyGenesisParamsResult: Result<boolean, Error> = applyGenesisParams(genesis, genesisParams);
+    if (applyGenesisParamsResult.isErr()) {
+        return err(applyGenesisParamsResult.error);
+    }
+    const isTotalSupplyPinned: boolean = applyGenesisParamsResult.value;
+
+    const parseNodeConfigResult: Result<{ [field: string]: any }, Error> = parseNodeConfig(configStr);
+    if (parseNodeConfigResult.isErr()) {
+        return err(parseNodeConfigResult.error);
+    }
+    const nodeConfig: { [field: string]: any } = parseNodeConfigResult.value;
+    const applyNodeConfigOverridesResult: Result<null, Error> = applyNodeConfigOverrides(nodeConfig, nodeConfigOverrides);
+    if (applyNodeConfigOverridesResult.isErr()) {
+        return err(applyNodeConfigOverridesResult.error);
+    }
+
+    const nodeKeys: KeyFile[] = [ rootNodeKey ];
+    const validatorKeys: ValidatorKey[] = [ rootValidatorKey ];
+    for (let i: number = 1; i < numValidatorNodes; i++) {
+        const generateValidatorKeyResult: Result<NearKeyPair, Error> = generateEd25519KeyPair();
+        if (generateValidatorKeyResult.isErr()) {
+            return err(generateValidatorKeyResult.error);
+        }
+        const validatorKeyPair: NearKeyPair = generateValidatorKeyResult.value;
+        const validatorKey: ValidatorKey = {
+            account_id: `${EXTRA_VALIDATOR_ACCOUNT_ID_PREFIX}${i}.${rootValidatorKey.account_id}`,
+            public_key: validatorKeyPair.publicKey,
+            secret_key: validatorKeyPair.secretKey,
+        };
+
+        const generateNodeKeyResult: Result<NearKeyPair, Error> = generateEd25519KeyPair();
+        if (generateNodeKeyResult.isErr()) {
+            return err(generateNodeKeyResult.error);
+        }
+        const nodeKeyPair: NearKeyPair = generateNodeKeyResult.value;
+        const nodeKey: KeyFile = {
+            account_id: NODE_KEY_ACCOUNT_ID,
+            public_key: nodeKeyPair.publicKey,
+            secret_key: nodeKeyPair.secretKey,
+        };
+
+        const addValidatorResult: Result<null, Error> = addGenesisValidator(
+            genesis,
+            validatorKey.account_id,
+            validatorKey.public_key,
+            EXTRA_VALIDATOR_BALANCE,
+            EXTRA_VALIDATOR_STAKE,
+        );
+        if (addValidatorResult.isErr()) {
+            return err(addValidatorResult.error);
+        }
+
+        validatorKeys.push(validatorKey);
+        nodeKeys.push(nodeKey);
+    }
+    if (!isTotalSupplyPinned) {
+        recomputeTotalSupply(genesis);
+    }
+    const validateGenesisResult: Result<null, Error> = validateGenesis(genesis);
+    if (validateGenesisResult.isErr()) {
+        return err(validateGenesisResult.error);
+    }
+
+    const result: LocalnetNodeConfig[] = [];
+    try {
+        const generatedConfigsDirpath: string = fs.mkdtempSync(path.join(os.tmpdir(), GENERATED_CONFIGS_DIRNAME_PREFIX));
+        const serializedGenesis: string = JSON.stringify(genesis, null, CONFIG_FILES_PRETTY_PRINT_NUM_SPACES);
+        const serializedNodeConfig: string = JSON.stringify(nodeConfig, null, CONFIG_FILES_PRETTY_PRINT_NUM_SPACES);
+        for (let i: number = 0; i < numValidatorNodes; i++) {
+            const nodeConfigDirpath: string = path.join(
+                generatedConfigsDirpath,
+                `${NODE_CONFIG_DIRNAME_PREFIX}${i}`,
+                LOCALNET_CONFIG_DIRNAME,
+            );
+            fs.mkdirSync(nodeConfigDirpath, { recursive: true });
+            fs.writeFileSync(path.join(nodeConfigDirpath, GENESIS_FILENAME), serializedGenesis);
+            fs.writeFileSync(path.join(nodeConfigDirpath, CONFIG_FILENAME), serializedNodeConfig);
+            fs.writeFileSync(
+                path.join(nodeConfigDirpath, NODE_KEY_FILENAME),
+                JSON.stringify(nodeKeys[i], null, CONFIG_FILES_PRETTY_PRINT_NUM_SPACES),
+            );
+            fs.writeFileSync(
+                path.join(nodeConfigDirpath, VALIDATOR_KEY_FILENAME),
+                JSON.stringify(validatorKeys[i], null, CONFIG_FILES_PRETTY_PRINT_NUM_SPACES),
+            );
+            result.push(new LocalnetNodeConfig(nodeConfigDirpath, validatorKeys[i], nodeKeys[i].public_key));
+        }
+    } catch (e: any) {
+        // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
+        // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
+        if (e && e.stack && e.message) {
+            return err(e as Error);
+        }
+        return err(new Error("Writing the generated localnet config files threw an exception, but " +
+            "it's not an Error so we can't report any more information than this"));
+    }
+
+    const networkIdentity: NetworkIdentity = new NetworkIdentity(genesis.chain_id, rootValidatorKey.account_id);
+    return ok([networkIdentity, nodeConfig, result]);
+}
+
+function parseNodeConfig(configStr: string): Result<{ [field: string]: any }, Error> {
+    let result: any;
+    try {
+        result = JSON.parse(configStr);
+    } catch (e: any) {
+        // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
+        // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
+        if (e && e.stack && e.message) {
+            return err(e as Error);
+        }
+        return err(new Error("Parsing the static node config threw an exception, but " +
+            "it's not an Error so we can't report any more information than this"));
+    }
+    if (typeof result !== "object" || result === null || Array.isArray(result)) {
+        return err(new Error("The static node config isn't a JSON object"));
+    }
+    return ok(result);
+}
+
+// Returns a tuple of (genesisStr, configStr, rootNodeKey, rootValidatorKeyObj), where the validator key is unvalidated
+function readStaticFiles(): Result<[string, string, KeyFile, any], Error> {
+    try {
+        const genesisStr: string = fs.readFileSync(path.join(LOCALNET_CONFIG_DIRPATH_ON_MODULE, GENESIS_FILENAME), "utf8");
+        const configStr: string = fs.readFileSync(path.join(LOCALNET_CONFIG_DIRPATH_ON_MODULE, CONFIG_FILENAME), "utf8");
+        const rootNodeKey: KeyFile = JSON.parse(
+            fs.readFileSync(path.join(LOCALNET_CONFIG_DIRPATH_ON_MODULE, NODE_KEY_FILENAME), "utf8"),
+        );
+        const rootValidatorKeyObj: any = JSON.parse(
+            fs.readFileSync(path.join(LOCALNET_CONFIG_DIRPATH_ON_MODULE, VALIDATOR_KEY_FILENAME), "utf8"),
+        );
+        return ok([genesisStr, configStr, rootNodeKey, rootValidatorKeyObj]);
+    } catch (e: any) {
+        // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
+        // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
+        if (e && e.stack && e.message) {
+            return err(e as Error);
+        }
+        return err(new Error(`Reading the static localnet config files from '${LOCALNET_CONFIG_DIRPATH_ON_MODULE}' threw an exception, but ` +
+            "it's not an Error so we can't report any more information than this"));
+    }
+}
@@ -0,0 +1,13 @@
+// What the execute command does with the enclave
+// Starts the network & its services in an empty enclave
+export const START_ACTION: string = "start";
+// Dumps the contract-helper-db service's DBs (in an enclave that the module already started) into a files artifact
+export const EXPORT_DB_SNAPSHOT_ACTION: string = "export-db-snapshot";
+// Probes the services of an enclave that the module already started, reporting their health & URLs
+export const STATUS_ACTION: string = "status";
+
+export const ACTION_NAMES: string[] = [
+    START_ACTION,
+    EXPORT_DB_SNAPSHOT_ACTION,
+    STATUS_ACTION,
+];
@@ -1,7 +1,36 @@
-import { ExecuteParams } from "./params"
+import { ExecuteParams, GenesisParams, IndexerSyncParams } from "./params"
+import { FULL_PROFILE } from "../service_profiles";
+import { START_ACTION } from "../module_actions";
 
 const DEFAULT_BACKEND_IP_ADDRESS: string = "127.0.0.1"
+const DEFAULT_NUM_VALIDATOR_NODES: number = 1;
+const DEFAULT_AUTO_ALLOCATE_PUBLIC_PORTS: boolean = false;
+const DEFAULT_DRY_RUN: boolean = false;
+const DEFAULT_KEEP_ON_FAILURE: boolean = false;
+const DEFAULT_LOG_TIMELINE_AS_JSON_LINES: boolean = false;
 
 export function getDefaultExecuteParams(): ExecuteParams {
-    return new ExecuteParams(DEFAULT_BACKEND_IP_ADDRESS);
+    return new ExecuteParams(
+        START_ACTION,
+        DEFAULT_BACKEND_IP_ADDRESS,
+        DEFAULT_NUM_VALIDATOR_NODES,
+        new GenesisParams(),
+        FULL_PROFILE,
+        {},
+        {},
+        {},
+        [],
+        [],
+        DEFAULT_AUTO_ALLOCATE_PUBLIC_PORTS,
+        {},
+        undefined,
+        undefined,
+        new IndexerSyncParams(),
+        {},
+        DEFAULT_DRY_RUN,
+        DEFAULT_KEEP_ON_FAILURE,
+        {},
+        undefined,
+        DEFAULT_LOG_TIMELINE_AS_JSON_LINES,
+    );
 }
\ No newline at end of file
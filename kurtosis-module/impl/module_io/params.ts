@@ -1,7 +1,180 @@
+// A pre-funded account that will be added to the genesis records
+export class GenesisAccountParams {
+    constructor(
+        // E.g. "alice.test.near"
+        public readonly accountId: string,
+        // Liquid balance, in yoctoNEAR, as a base-10 string
+        public readonly balance: string,
+        // E.g. "ed25519:3Kuyi2DUXdoHgoaNEvCxa1m6G8xqc6Xs7WGajaqLhNmW"; gets a full-access key on the account
+        public readonly publicKey: string,
+    ) {}
+}
+
+// Patches applied to the static genesis file before it's uploaded to the enclave; unset fields keep their static values
+export class GenesisParams {
+    constructor(
+        public readonly chainId?: string,
+        public readonly epochLength?: number,
+        public readonly gasLimit?: number,
+        // In yoctoNEAR, as a base-10 string
+        public readonly minGasPrice?: string,
+        // In yoctoNEAR, as a base-10 string
+        public readonly maxGasPrice?: string,
+        public readonly protocolVersion?: number,
+        public readonly accounts?: GenesisAccountParams[],
+        // Raw genesis fields (as named in genesis.json, e.g. "transaction_validity_period") to overwrite, for any
+        //  field that doesn't have a dedicated param above; if "total_supply" is set it's checked rather than computed
+        public readonly fieldOverrides?: { [field: string]: any },
+    ) {}
+}
+
+// A test account that the root account creates (with a transaction) once the network is up
+export class AccountParams {
+    constructor(
+        // Must be a direct subaccount of the root account, e.g. "alice.test.near"
+        public readonly accountId: string,
+        // In yoctoNEAR, as a base-10 string
+        public readonly balance: string,
+        // E.g. "ed25519:3Kuyi2DUXdoHgoaNEvCxa1m6G8xqc6Xs7WGajaqLhNmW"; gets a full-access key on the account
+        // If unset, a keypair is generated and returned in the result
+        public readonly publicKey?: string,
+    ) {}
+}
+
+// A WASM contract that gets deployed to a new account (created by the root account) once the network is up
+export class ContractParams {
+    constructor(
+        // Must be a direct subaccount of the root account, e.g. "my-contract.test.near"
+        public readonly accountId: string,
+        // The files artifact containing the contract, as returned when uploading files to the enclave
+        public readonly filesArtifactUuid: string,
+        // Path of the WASM file within the files artifact, e.g. "out/main.wasm"
+        public readonly wasmFilepath: string,
+        // The contract account's balance, in yoctoNEAR, as a base-10 string; defaults to 10 NEAR
+        public readonly balance?: string,
+        // Method to call once the contract is deployed; it's called by the contract account itself
+        public readonly initMethod?: string,
+        // JSON args to pass to the init method; defaults to {}
+        public readonly initArgs?: any,
+    ) {}
+}
+
+// An existing Postgres server to use instead of starting the contract-helper-db service
+export class ExternalPostgresParams {
+    constructor(
+        // Must be reachable from inside the enclave, so not e.g. "localhost"
+        public readonly host: string,
+        public readonly username: string,
+        public readonly password: string,
+        // Defaults to 5432
+        public readonly port?: number,
+        // The names of the DBs that the services use, which get created if they don't exist; default to "indexer",
+        //  "analytics", and "telemetry"
+        public readonly indexerDb?: string,
+        public readonly analyticsDb?: string,
+        public readonly telemetryDb?: string,
+    ) {}
+}
+
+// SQL dumps (as made by pg_dump, e.g. with the export-db-snapshot action) to restore into the contract-helper-db
+//  service's DBs before any other service starts
+export class DbSnapshotParams {
+    constructor(
+        // The files artifact containing the dumps
+        public readonly filesArtifactUuid: string,
+        // Paths of the dumps within the files artifact, keyed by DB ("indexer", "analytics", or "telemetry"), where only
+        //  the DBs listed get restored; if unset, every DB is restored from where the export-db-snapshot action puts
+        //  its dump (e.g. "db-snapshot/indexer.sql")
+        public readonly filepaths?: { [db: string]: string },
+    ) {}
+}
+
+// How the indexer syncs the chain into its DB; unset fields keep the indexer's original behaviour
+export class IndexerSyncParams {
+    constructor(
+        // "sync-from-latest", "sync-from-block", or "sync-from-interruption"; defaults to "sync-from-latest"
+        public readonly mode?: string,
+        // The block to start syncing from, which must be given with (and only with) the "sync-from-block" mode
+        public readonly blockHeight?: number,
+        // Whether the genesis accounts & keys get stored in the DB; defaults to true
+        public readonly storeGenesis?: boolean,
+        // Whether the indexer's diesel migrations get run before it starts; defaults to true, and can only be false if
+        //  the indexer DB is already fully migrated (i.e. restored from a snapshot, or on an external Postgres)
+        public readonly runMigrations?: boolean,
+    ) {}
+}
+
+// How a wait loop retries; unset fields keep their defaults
+export class RetryPolicyParams {
+    constructor(
+        // How long to keep retrying for; can't be set for a service whose readiness timeout is set
+        public readonly timeoutMillis?: number,
+        // How long to wait after the first failed attempt; defaults to 500
+        public readonly initialBackoffMillis?: number,
+        // What the wait between attempts gets multiplied by after each failed attempt; defaults to 1.5
+        public readonly backoffMultiplier?: number,
+        // The longest wait between attempts; defaults to 2000
+        public readonly maxBackoffMillis?: number,
+    ) {}
+}
+
 export class ExecuteParams {
     constructor(
+        // What to do with the enclave: "start" starts the network, "export-db-snapshot" dumps the DBs of a network that
+        //  was started earlier, and "status" reports the health of a network that was started earlier (in both of which
+        //  cases every other param is ignored)
+        public readonly action: string,
         // The IP address of the machine running Kurtosis, which will be slotted into the Wallet & Explorer
         //  frontends so they can pull information
         public readonly backendIpAddress: string,
+        // The number of validator nodes in the network; the first validator is the indexer node (or a plain NEAR node
+        //  if the indexer is disabled), and every additional validator is a plain NEAR node that connects to it over gossip
+        public readonly numValidatorNodes: number,
+        public readonly genesis: GenesisParams,
+        // Which set of services to start: "node-only", "node-with-indexer", or "full"
+        public readonly profile: string,
+        // Per-service overrides on top of the profile, keyed by service ID (e.g. { "wallet": false })
+        // Dependencies of enabled services get started automatically
+        public readonly enabledServices: { [serviceId: string]: boolean },
+        // Image overrides keyed by service ID, or "validator-node" for the plain NEAR nodes (e.g. { "wallet": "my-org/near-wallet:dev" })
+        public readonly images: { [serviceKey: string]: string },
+        // Readiness timeout overrides in milliseconds, keyed the same way as the image overrides (e.g. { "wallet": 300000 })
+        // A service that isn't ready within its timeout fails the module execution
+        public readonly readinessTimeoutsMillis: { [serviceKey: string]: number },
+        // Test accounts to create once the network is up; unlike genesis accounts, these are created with real transactions
+        public readonly accounts: AccountParams[],
+        // Contracts to deploy once the network is up (after the test accounts are created)
+        public readonly contracts: ContractParams[],
+        // If true, every public port that isn't set in publicPorts gets a free port allocated automatically, so that
+        //  several networks can run on the same machine; if false, such ports keep their fixed defaults (8330-8334)
+        public readonly autoAllocatePublicPorts: boolean,
+        // Public port overrides keyed by "<service ID>.<port ID>" (e.g. { "wallet.http": 9334 }), where 0 means
+        //  "allocate automatically"
+        public readonly publicPorts: { [portKey: string]: number },
+        // If set, the services that need Postgres use this server (as the given user) instead of the contract-helper-db
+        //  service, which then isn't started
+        public readonly externalPostgres: ExternalPostgresParams | undefined,
+        // If set, the contract-helper-db service's DBs are restored from these dumps, and the indexer DB's diesel
+        //  migrations are checked against the indexer image's; can't be used with an external Postgres
+        public readonly dbSnapshot: DbSnapshotParams | undefined,
+        public readonly indexerSync: IndexerSyncParams,
+        // Fields to deep-merge into every NEAR node's config.json (e.g. { "consensus": { "min_block_production_delay":
+        //  { "secs": 1, "nanos": 0 } } }), where objects are merged field by field & any other value replaces the
+        //  existing one; only fields that config.json already has can be set, with a value of the same type
+        public readonly nodeConfigOverrides: { [field: string]: any },
+        // If true, nothing gets started: the result is instead the plan of every service that would be, with its image,
+        //  command, environment variables, ports & files artifact mounts (and any secrets in them masked)
+        public readonly dryRun: boolean,
+        // If true, the services that a failed start already launched are left in the enclave for debugging, rather than
+        //  removed (in the reverse of the order they were launched in)
+        public readonly keepOnFailure: boolean,
+        // Retry policy overrides keyed by what's waited for: a service's readiness (keyed the same way as the readiness
+        //  timeouts), "indexer-validator-key", or "account-finality" (e.g. { "wallet": { "maxBackoffMillis": 5000 } })
+        public readonly retryPolicies: { [waitKey: string]: RetryPolicyParams },
+        // If set, every wait fails once this long has passed since the start began, however long its own timeout is
+        public readonly startupTimeoutMillis: number | undefined,
+        // If true, each phase of the start (e.g. a service being added, or becoming ready) is also logged as a line of
+        //  JSON as soon as it ends, rather than only being returned in the result's timeline
+        public readonly logTimelineAsJsonLines: boolean,
     ) {}
 }
\ No newline at end of file
@@ -1,7 +1,11 @@
 import { getDefaultExecuteParams } from "./default_params";
 import { ExecuteParams } from "./params";
+import { getExecuteParamsProblems } from "./params_schema";
 import { Result, ok, err } from "neverthrow";
 
+// Stands in for the external Postgres password wherever the params get logged
+const MASKED_PASSWORD: string = "***";
+
 export function deserializeAndValidateParams(paramsStr: string): Result<ExecuteParams, Error> {
     let deserializedObj: any;
     try {
@@ -13,12 +17,36 @@ export function deserializeAndValidateParams(paramsStr: string): Result<ExecuteP
         return err(new Error(`JSON-parsing string '${paramsStr}' threw something that wasn't an error:${e}`))
     }
 
+    const problems: string[] = getExecuteParamsProblems(deserializedObj);
+    if (problems.length > 0) {
+        return err(new Error(`The execute params are invalid:\n * ${problems.join("\n * ")}`));
+    }
+
     const defaultParams = getDefaultExecuteParams()
     const result: ExecuteParams = Object.assign(defaultParams, deserializedObj)
 
-    if (result.backendIpAddress.trim() === "") {
-        return err(new Error("Backend IP address cannot be empty"));
+    return ok(result);
+}
+
+// Returns the params string re-serialized with the external Postgres password masked, for logging; a string that isn't
+//  valid JSON isn't returned at all, as there's no telling where a password in it might be
+export function maskParamsStrForLogging(paramsStr: string): string {
+    let deserializedObj: any;
+    try {
+        deserializedObj = JSON.parse(paramsStr)
+    } catch (e: any) {
+        return "<not valid JSON, so not logged in case it contains a password>";
     }
+    return maskParamsForLogging(deserializedObj);
+}
 
-    return ok(result);
-}
\ No newline at end of file
+// Returns the params serialized as JSON with the external Postgres password masked, for logging
+export function maskParamsForLogging(params: any): string {
+    const externalPostgres: any = params !== null && typeof params === "object" ? params.externalPostgres : undefined;
+    return JSON.stringify(params, function (this: any, key: string, value: any): any {
+        if (externalPostgres !== undefined && this === externalPostgres && key === "password" && typeof value === "string") {
+            return MASKED_PASSWORD;
+        }
+        return value;
+    });
+}
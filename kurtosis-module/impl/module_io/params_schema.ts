@@ -0,0 +1,266 @@
+import { getDefaultExecuteParams } from "./default_params";
+import {
+    AnySchema,
+    ArraySchema,
+    BooleanSchema,
+    DecimalStringSchema,
+    IntegerSchema,
+    MapSchema,
+    NumberSchema,
+    ObjectProperty,
+    ObjectSchema,
+    Schema,
+    StringSchema,
+    toJsonSchemaDocument,
+} from "./schema";
+import { OPTIONAL_SERVICE_IDS, PROFILE_NAMES } from "../service_profiles";
+import { IMAGE_SERVICE_KEYS } from "../service_images";
+import { READINESS_TIMEOUT_SERVICE_KEYS, RETRY_POLICY_WAIT_KEYS } from "../retry_policies";
+import { PUBLIC_PORT_KEYS } from "../public_ports";
+import { ACTION_NAMES } from "../module_actions";
+import { DB_NAMES } from "../services/contract_helper_db";
+import { SYNC_MODE_NAMES } from "../indexer_sync";
+
+const EXECUTE_PARAMS_SCHEMA_TITLE: string = "NEAR module execute params";
+
+// Mirrors GenesisAccountParams
+const GENESIS_ACCOUNT_PARAMS_SCHEMA: Schema = new ObjectSchema(
+    "A pre-funded account that will be added to the genesis records",
+    new Map([
+        ["accountId", new ObjectProperty(new StringSchema("E.g. 'alice.test.near'", undefined, false), true)],
+        ["balance", new ObjectProperty(new DecimalStringSchema("Liquid balance, in yoctoNEAR"), true)],
+        ["publicKey", new ObjectProperty(
+            new StringSchema("E.g. 'ed25519:3Kuyi2DUXdoHgoaNEvCxa1m6G8xqc6Xs7WGajaqLhNmW'; gets a full-access key on the account", undefined, false),
+            true,
+        )],
+    ]),
+);
+
+// Mirrors AccountParams
+const ACCOUNT_PARAMS_SCHEMA: Schema = new ObjectSchema(
+    "A test account that the root account creates (with a transaction) once the network is up",
+    new Map([
+        ["accountId", new ObjectProperty(new StringSchema("Must be a direct subaccount of the root account, e.g. 'alice.test.near'", undefined, false), true)],
+        ["balance", new ObjectProperty(new DecimalStringSchema("In yoctoNEAR"), true)],
+        ["publicKey", new ObjectProperty(
+            new StringSchema("Gets a full-access key on the account; if unset, a keypair is generated and returned in the result", undefined, false),
+            false,
+        )],
+    ]),
+);
+
+// Mirrors ContractParams
+const CONTRACT_PARAMS_SCHEMA: Schema = new ObjectSchema(
+    "A WASM contract that gets deployed to a new account (created by the root account) once the network is up",
+    new Map([
+        ["accountId", new ObjectProperty(new StringSchema("Must be a direct subaccount of the root account, e.g. 'my-contract.test.near'", undefined, false), true)],
+        ["filesArtifactUuid", new ObjectProperty(
+            new StringSchema("The files artifact containing the contract, as returned when uploading files to the enclave", undefined, false),
+            true,
+        )],
+        ["wasmFilepath", new ObjectProperty(new StringSchema("Path of the WASM file within the files artifact, e.g. 'out/main.wasm'", undefined, false), true)],
+        ["balance", new ObjectProperty(new DecimalStringSchema("The contract account's balance, in yoctoNEAR; defaults to 10 NEAR"), false)],
+        ["initMethod", new ObjectProperty(
+            new StringSchema("Method to call once the contract is deployed; it's called by the contract account itself", undefined, false),
+            false,
+        )],
+        ["initArgs", new ObjectProperty(new AnySchema("JSON args to pass to the init method; defaults to {}"), false)],
+    ]),
+);
+
+// Mirrors ExternalPostgresParams
+const EXTERNAL_POSTGRES_PARAMS_SCHEMA: Schema = new ObjectSchema(
+    "An existing Postgres server to use instead of starting the contract-helper-db service",
+    new Map([
+        ["host", new ObjectProperty(new StringSchema("Must be reachable from inside the enclave, so not e.g. 'localhost'", undefined, false), true)],
+        ["username", new ObjectProperty(new StringSchema("The user that every service connects as", undefined, false), true)],
+        ["password", new ObjectProperty(new StringSchema("The user's password"), true)],
+        ["port", new ObjectProperty(new IntegerSchema("Defaults to 5432", 1), false)],
+        ["indexerDb", new ObjectProperty(new StringSchema("Created if it doesn't exist; defaults to 'indexer'", undefined, false), false)],
+        ["analyticsDb", new ObjectProperty(new StringSchema("Created if it doesn't exist; defaults to 'analytics'", undefined, false), false)],
+        ["telemetryDb", new ObjectProperty(new StringSchema("Created if it doesn't exist; defaults to 'telemetry'", undefined, false), false)],
+    ]),
+);
+
+// Mirrors DbSnapshotParams
+const DB_SNAPSHOT_PARAMS_SCHEMA: Schema = new ObjectSchema(
+    "SQL dumps (as made by pg_dump, e.g. with the export-db-snapshot action) to restore into the contract-helper-db service's DBs",
+    new Map([
+        ["filesArtifactUuid", new ObjectProperty(
+            new StringSchema("The files artifact containing the dumps", undefined, false),
+            true,
+        )],
+        ["filepaths", new ObjectProperty(
+            new MapSchema(
+                "Paths of the dumps within the files artifact, keyed by DB; if unset, every DB is restored from where the export-db-snapshot action puts its dump",
+                new StringSchema("Path of the DB's dump within the files artifact, e.g. 'db-snapshot/indexer.sql'", undefined, false),
+                DB_NAMES,
+            ),
+            false,
+        )],
+    ]),
+);
+
+// Mirrors IndexerSyncParams
+const INDEXER_SYNC_PARAMS_SCHEMA: Schema = new ObjectSchema(
+    "How the indexer syncs the chain into its DB; unset fields keep the indexer's original behaviour",
+    new Map([
+        ["mode", new ObjectProperty(new StringSchema("Defaults to 'sync-from-latest'", SYNC_MODE_NAMES), false)],
+        ["blockHeight", new ObjectProperty(
+            new IntegerSchema("The block to start syncing from, which must be given with (and only with) the 'sync-from-block' mode", 0),
+            false,
+        )],
+        ["storeGenesis", new ObjectProperty(new BooleanSchema("Whether the genesis accounts & keys get stored in the DB; defaults to true"), false)],
+        ["runMigrations", new ObjectProperty(
+            new BooleanSchema("Whether the indexer's diesel migrations get run before it starts; defaults to true, and can only be false if the indexer DB is already fully migrated"),
+            false,
+        )],
+    ]),
+);
+
+// Mirrors RetryPolicyParams
+const RETRY_POLICY_PARAMS_SCHEMA: Schema = new ObjectSchema(
+    "How a wait loop retries; unset fields keep their defaults",
+    new Map([
+        ["timeoutMillis", new ObjectProperty(
+            new IntegerSchema("How long to keep retrying for; can't be set for a service whose readiness timeout is set", 1),
+            false,
+        )],
+        ["initialBackoffMillis", new ObjectProperty(new IntegerSchema("How long to wait after the first failed attempt; defaults to 500", 1), false)],
+        ["backoffMultiplier", new ObjectProperty(
+            new NumberSchema("What the wait between attempts gets multiplied by after each failed attempt; defaults to 1.5", 1),
+            false,
+        )],
+        ["maxBackoffMillis", new ObjectProperty(new IntegerSchema("The longest wait between attempts; defaults to 2000", 1), false)],
+    ]),
+);
+
+// Mirrors GenesisParams
+const GENESIS_PARAMS_SCHEMA: Schema = new ObjectSchema(
+    "Patches applied to the static genesis file before it's uploaded to the enclave; unset fields keep their static values",
+    new Map([
+        ["chainId", new ObjectProperty(new StringSchema("The genesis chain ID", undefined, false), false)],
+        ["epochLength", new ObjectProperty(new IntegerSchema("The number of blocks per epoch", 1), false)],
+        ["gasLimit", new ObjectProperty(new IntegerSchema("The gas limit of the genesis block", 1), false)],
+        ["minGasPrice", new ObjectProperty(new DecimalStringSchema("In yoctoNEAR"), false)],
+        ["maxGasPrice", new ObjectProperty(new DecimalStringSchema("In yoctoNEAR"), false)],
+        ["protocolVersion", new ObjectProperty(new IntegerSchema("The genesis protocol version", 1), false)],
+        ["accounts", new ObjectProperty(new ArraySchema("Extra pre-funded accounts", GENESIS_ACCOUNT_PARAMS_SCHEMA), false)],
+        ["fieldOverrides", new ObjectProperty(
+            new MapSchema(
+                "Raw genesis fields (as named in genesis.json) to overwrite; if 'total_supply' is set it's checked rather than computed",
+                new AnySchema("The value to set the genesis field to"),
+            ),
+            false,
+        )],
+    ]),
+);
+
+// Mirrors ExecuteParams; every field is optional, with missing fields taking their default values
+const EXECUTE_PARAMS_SCHEMA: Schema = new ObjectSchema(
+    "Params for the NEAR module's execute command",
+    new Map([
+        ["action", new ObjectProperty(new StringSchema("What to do with the enclave", ACTION_NAMES), false)],
+        ["backendIpAddress", new ObjectProperty(
+            new StringSchema(
+                "The IP address of the machine running Kurtosis, which will be slotted into the Wallet & Explorer frontends",
+                undefined,
+                false,
+            ),
+            false,
+        )],
+        ["numValidatorNodes", new ObjectProperty(new IntegerSchema("The number of validator nodes in the network", 1), false)],
+        ["genesis", new ObjectProperty(GENESIS_PARAMS_SCHEMA, false)],
+        ["profile", new ObjectProperty(new StringSchema("Which set of services to start", PROFILE_NAMES), false)],
+        ["enabledServices", new ObjectProperty(
+            new MapSchema(
+                "Per-service overrides on top of the profile; dependencies of enabled services get started automatically",
+                new BooleanSchema("Whether the service is started"),
+                OPTIONAL_SERVICE_IDS,
+            ),
+            false,
+        )],
+        ["images", new ObjectProperty(
+            new MapSchema(
+                "Image overrides keyed by service ID, or 'validator-node' for the plain NEAR nodes",
+                new StringSchema("The image to run the service with", undefined, false),
+                IMAGE_SERVICE_KEYS,
+            ),
+            false,
+        )],
+        ["readinessTimeoutsMillis", new ObjectProperty(
+            new MapSchema(
+                "Readiness timeout overrides in milliseconds, keyed the same way as the image overrides",
+                new IntegerSchema("How long to wait for the service to become ready", 1),
+                READINESS_TIMEOUT_SERVICE_KEYS,
+            ),
+            false,
+        )],
+        ["accounts", new ObjectProperty(new ArraySchema("Test accounts to create once the network is up", ACCOUNT_PARAMS_SCHEMA), false)],
+        ["contracts", new ObjectProperty(new ArraySchema("Contracts to deploy once the network is up", CONTRACT_PARAMS_SCHEMA), false)],
+        ["autoAllocatePublicPorts", new ObjectProperty(
+            new BooleanSchema("Whether public ports that aren't set in 'publicPorts' get allocated automatically, rather than keeping their fixed defaults"),
+            false,
+        )],
+        ["publicPorts", new ObjectProperty(
+            new MapSchema(
+                "Public port overrides keyed by '<service ID>.<port ID>'",
+                new IntegerSchema("The public port number, or 0 to allocate it automatically", 0),
+                PUBLIC_PORT_KEYS,
+            ),
+            false,
+        )],
+        ["externalPostgres", new ObjectProperty(EXTERNAL_POSTGRES_PARAMS_SCHEMA, false)],
+        ["dbSnapshot", new ObjectProperty(DB_SNAPSHOT_PARAMS_SCHEMA, false)],
+        ["indexerSync", new ObjectProperty(INDEXER_SYNC_PARAMS_SCHEMA, false)],
+        ["nodeConfigOverrides", new ObjectProperty(
+            new MapSchema(
+                "Fields to deep-merge into every NEAR node's config.json, where objects are merged field by field & any other value replaces the existing one",
+                new AnySchema("The value to set the config field to, or an object of its subfields to set"),
+            ),
+            false,
+        )],
+        ["dryRun", new ObjectProperty(
+            new BooleanSchema("Whether to only return the plan of the services that would be started (with secrets masked), rather than starting them"),
+            false,
+        )],
+        ["keepOnFailure", new ObjectProperty(
+            new BooleanSchema("Whether to keep the services that were started when starting the network fails, for debugging, rather than removing them"),
+            false,
+        )],
+        ["retryPolicies", new ObjectProperty(
+            new MapSchema(
+                "Retry policy overrides keyed by what's waited for: a service's readiness, 'indexer-validator-key', or 'account-finality'",
+                RETRY_POLICY_PARAMS_SCHEMA,
+                RETRY_POLICY_WAIT_KEYS,
+            ),
+            false,
+        )],
+        ["startupTimeoutMillis", new ObjectProperty(
+            new IntegerSchema("If set, every wait fails once this long has passed since the start began, however long its own timeout is", 1),
+            false,
+        )],
+        ["logTimelineAsJsonLines", new ObjectProperty(
+            new BooleanSchema("Whether each phase of the start is also logged as a line of JSON as soon as it ends"),
+            false,
+        )],
+    ]),
+);
+
+// Returns one problem, prefixed with its JSON path, for every way the deserialized params don't match the schema
+export function getExecuteParamsProblems(deserializedParams: any): string[] {
+    const problems: string[] = [];
+    EXECUTE_PARAMS_SCHEMA.validate(deserializedParams, "$", problems);
+    return problems;
+}
+
+// The execute params schema in JSON Schema form, with each top-level field's default value filled in
+export function getExecuteParamsJsonSchema(): { [keyword: string]: any } {
+    const result: { [keyword: string]: any } = toJsonSchemaDocument(EXECUTE_PARAMS_SCHEMA, EXECUTE_PARAMS_SCHEMA_TITLE);
+    // Round-tripping through JSON drops the unset (i.e. undefined) fields, the same as when the params get serialized
+    const defaultParams: { [field: string]: any } = JSON.parse(JSON.stringify(getDefaultExecuteParams()));
+    for (const [field, defaultValue] of Object.entries(defaultParams)) {
+        result.properties[field].default = defaultValue;
+    }
+    return result;
+}
@@ -1,11 +1,215 @@
+import { CredentialsFile, NearApiJsConnectionConfig } from "../client_configs";
+import { ValidatorKey } from "../validator_key";
+
+export class ValidatorNodeResult {
+    constructor(
+        public readonly serviceId: string,
+        public readonly rpcUrl: string,
+        public readonly validatorKey: ValidatorKey,
+    ) {}
+}
+
+export class TestAccountResult {
+    constructor(
+        public readonly accountId: string,
+        public readonly publicKey: string,
+        // Only present if the module generated the account's keypair
+        public readonly secretKey: string | undefined,
+        // The account's balance once its creation became final, in yoctoNEAR
+        public readonly balance: string,
+    ) {}
+}
+
+export class ContractResult {
+    constructor(
+        public readonly accountId: string,
+        // Base58-encoded SHA-256 hash of the deployed code
+        public readonly codeHash: string,
+        public readonly deployTransactionHash: string,
+        // Only present if the contract has an init method
+        public readonly initTransactionHash: string | undefined,
+    ) {}
+}
+
+// A Postgres role that the services connect as (or that set the DBs up), for debugging
+export class DatabaseRoleResult {
+    constructor(
+        public readonly username: string,
+        // Undefined (and so absent from the JSON) for an external Postgres's role, whose password the caller supplied
+        public readonly password: string | undefined,
+        public readonly isReadOnly: boolean,
+        // The DBs that the role can connect to
+        public readonly dbs: string[],
+        // The IDs of the started services that connect as this role; the superuser is used by none of them
+        public readonly usedBy: string[],
+    ) {}
+}
+
+// Ready-to-use configs for connecting clients to the network as the root account
+export class ClientConfigsResult {
+    constructor(
+        // A files artifact containing each of the configs below as a file, in a "near-client-configs" directory:
+        //  near-cli.env, near-api-js.json, near.env, and the credentials file at its path under the home directory
+        public readonly filesArtifactUuid: string,
+        // 'export' lines that point the NEAR CLI at the network, for sourcing into a shell
+        public readonly nearCliEnv: string,
+        // Can be passed straight to near-api-js's connect(), along with a keyStore
+        public readonly nearApiJsConfig: NearApiJsConnectionConfig,
+        public readonly dotenv: string,
+        // Relative to the home directory (e.g. ".near-credentials/localnet/test.near.json"), which is where the NEAR CLI
+        //  & near-api-js's UnencryptedFileSystemKeyStore look for it
+        public readonly credentialsFilepath: string,
+        public readonly credentials: CredentialsFile,
+    ) {}
+}
+
+// One phase of the start (e.g. a service being added), as recorded in the startup timeline
+export class StartupPhaseResult {
+    constructor(
+        // The service that the phase was for, or what was uploaded for a files upload that isn't for one service
+        public readonly subject: string,
+        // "files-upload", "service-add", "validator-key-fetch", "db-creation", or "readiness"
+        public readonly phase: string,
+        // ISO 8601 timestamps
+        public readonly startTime: string,
+        public readonly endTime: string,
+        public readonly durationMillis: number,
+        // "succeeded" or "failed"
+        public readonly outcome: string,
+        // Only present if the phase failed
+        public readonly error: string | undefined,
+    ) {}
+}
+
 // Result returned by the execute command, serialized as JSON
 export class ExecuteResult {
     constructor(
+        // The genesis chain ID, which every service is configured with as the network's ID/name
         public readonly networkName: string,
-        public readonly rootValidatorKey: Object,
+        // Every account created through the Wallet is a subaccount of this one (e.g. "alice.test.near")
+        public readonly accountIdSuffix: string,
+        public readonly rootValidatorKey: ValidatorKey,
+        public readonly nearNodeRpcUrl: string,
+        // The URLs of optional services are undefined (and so absent from the JSON) when the service isn't started
+        public readonly contractHelperServiceUrl: string | undefined,
+        public readonly walletUrl: string | undefined,
+        public readonly explorerUrl: string | undefined,
+        // The mail catcher's web UI & HTTP API (e.g. GET /api/v2/messages), for reading the emails & SMSes that the
+        //  contract helper sent; SMSes show up as emails to "<phone number>@sms.localnet"
+        public readonly mailCatcherUrl: string | undefined,
+        // Every validator node in the network, starting with the indexer node
+        public readonly validatorNodes: ValidatorNodeResult[],
+        // The image that each started service ran with, keyed the same way as the "images" execute param
+        public readonly images: { [serviceKey: string]: string },
+        // The test accounts requested in the "accounts" execute param, all of which exist as of a final block
+        public readonly accounts: TestAccountResult[],
+        // The contracts requested in the "contracts" execute param, all of which are deployed & initialized
+        public readonly contracts: ContractResult[],
+        // The URLs of other services that each started service was configured with, keyed by service ID and then by
+        //  the setting they were passed in (e.g. { "contract-helper-service": { "WALLET_URL": "http://127.0.0.1:8334" } })
+        public readonly serviceLinks: { [serviceId: string]: { [setting: string]: string } },
+        // Empty when no service needs Postgres
+        public readonly databaseRoles: DatabaseRoleResult[],
+        public readonly clientConfigs: ClientConfigsResult,
+        // The config.json that every NEAR node runs with, including the "nodeConfigOverrides" execute param
+        public readonly nodeConfig: { [field: string]: any },
+        // Every phase of the start, in the order they ended
+        public readonly timeline: StartupPhaseResult[],
+    ) {}
+}
+
+// Result returned by the execute command when exporting a DB snapshot, serialized as JSON
+export class ExportDbSnapshotResult {
+    constructor(
+        // A files artifact containing one pg_dump SQL file per DB, which can be passed back as the "dbSnapshot" param
+        public readonly filesArtifactUuid: string,
+        // Paths of the dumps within the files artifact, keyed by DB (e.g. { "indexer": "db-snapshot/indexer.sql" })
+        public readonly filepaths: { [db: string]: string },
+        // The diesel migrations that the indexer DB had applied, so the indexer image that the snapshot works with is known
+        public readonly indexerMigrationVersions: string[],
+    ) {}
+}
+
+// A NEAR node of an already-started network, as probed by the status action
+export class NodeStatusResult {
+    constructor(
+        public readonly serviceId: string,
+        public readonly rpcUrl: string,
+        // Whether the node answered the JSON-RPC status call & isn't still syncing
+        public readonly isHealthy: boolean,
+        // Undefined (and so absent from the JSON) when the status call failed
+        public readonly latestBlockHeight: number | undefined,
+        public readonly isSyncing: boolean | undefined,
+        // Why the status call failed, if it did
+        public readonly error: string | undefined,
+    ) {}
+}
+
+// A service (other than a NEAR node) of an already-started network, as probed by the status action
+export class ServiceStatusResult {
+    constructor(
+        public readonly serviceId: string,
+        // Undefined if the service couldn't be probed at all, which doesn't make the network unhealthy
+        public readonly isHealthy: boolean | undefined,
+        // Why the probe failed, or why the service couldn't be probed
+        public readonly error: string | undefined,
+    ) {}
+}
+
+// Result returned by the execute command for the status action, serialized as JSON; the URLs are the same as the
+//  start action returned, so that scripts can reattach to a network that's already running
+export class StatusResult {
+    constructor(
+        // The chain ID reported by the first node that answered, or undefined if none did
+        public readonly networkName: string | undefined,
+        // Whether every service that was found is healthy
+        public readonly isHealthy: boolean,
         public readonly nearNodeRpcUrl: string,
-        public readonly contractHelperServiceUrl: string,
-        public readonly walletUrl: string,
-        public readonly explorerUrl: string,
+        // The URLs of optional services are undefined (and so absent from the JSON) when the service isn't running
+        public readonly contractHelperServiceUrl: string | undefined,
+        public readonly walletUrl: string | undefined,
+        public readonly explorerUrl: string | undefined,
+        public readonly mailCatcherUrl: string | undefined,
+        // Every NEAR node in the network, starting with the indexer node
+        public readonly validatorNodes: NodeStatusResult[],
+        // The latest block that the indexer has written to its DB; undefined if there's no indexer DB, it's an external
+        //  Postgres (reported in the services), the query failed, or the indexer hasn't written any blocks yet
+        public readonly indexerDbLatestBlockHeight: number | undefined,
+        // Every other service that was found & has a probe (the Explorer Backend has none), in the order they're started
+        public readonly services: ServiceStatusResult[],
+    ) {}
+}
+
+// A service that the execute command would start, as it'd be started; secrets (e.g. DB passwords & secret keys) are
+//  masked wherever they appear
+export class ServicePlanResult {
+    constructor(
+        public readonly serviceId: string,
+        public readonly image: string,
+        // Empty if the image's own is used
+        public readonly entrypoint: string[],
+        public readonly cmd: string[],
+        public readonly envVars: { [envvar: string]: string },
+        // Keyed by port ID, as "<port num>/<protocol>" (e.g. { "rpc": "3030/tcp" })
+        public readonly usedPorts: { [portId: string]: string },
+        // The public ports that are fixed, keyed the same way; the rest get allocated automatically
+        public readonly publicPorts: { [portId: string]: string },
+        // Mountpoints on the container keyed by files artifact UUID, where the files artifacts that the module uploads
+        //  itself are named by what they'd contain (e.g. "<localnet config of indexer-node>")
+        public readonly filesArtifactMounts: { [filesArtifactUuid: string]: string },
+        // What gets applied once the container starts rather than through its config, e.g. the DB snapshots to restore
+        public readonly postStartSettings: { [setting: string]: string },
+    ) {}
+}
+
+// Result returned by the execute command when the "dryRun" param is set, serialized as JSON
+export class DryRunResult {
+    constructor(
+        public readonly networkName: string,
+        public readonly accountIdSuffix: string,
+        // In the order they'd be started, including the throwaway services that only help set the others up
+        public readonly services: ServicePlanResult[],
+        // The config.json that every NEAR node would run with
+        public readonly nodeConfig: { [field: string]: any },
     ) {}
-}
\ No newline at end of file
+}
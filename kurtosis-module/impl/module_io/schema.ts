@@ -0,0 +1,309 @@
+import { isDecimalString } from "../amounts";
+
+// A minimal schema language for the module's JSON params, which can both validate a deserialized value and describe
+//  itself as JSON Schema (draft-07) for tooling that wants to validate params before calling the module
+
+const JSON_SCHEMA_DIALECT: string = "http://json-schema.org/draft-07/schema#";
+
+export interface Schema {
+    // Appends one problem per way the value doesn't match the schema, each prefixed with the value's JSON path
+    validate(value: any, path: string, problems: string[]): void;
+
+    toJsonSchema(): { [keyword: string]: any };
+}
+
+export class StringSchema implements Schema {
+    constructor(
+        public readonly description: string,
+        // If set, the string must be one of these values
+        public readonly allowedValues?: string[],
+        public readonly isEmptyAllowed: boolean = true,
+    ) {}
+
+    public validate(value: any, path: string, problems: string[]): void {
+        if (typeof value !== "string") {
+            problems.push(`${path}: expected a string but got ${describeValue(value)}`);
+            return;
+        }
+        if (!this.isEmptyAllowed && value.trim() === "") {
+            problems.push(`${path}: cannot be empty`);
+        }
+        if (this.allowedValues !== undefined && !this.allowedValues.includes(value)) {
+            problems.push(`${path}: expected one of ${this.allowedValues.map(v => `'${v}'`).join(", ")} but got '${value}'`);
+        }
+    }
+
+    public toJsonSchema(): { [keyword: string]: any } {
+        const result: { [keyword: string]: any } = {
+            type: "string",
+            description: this.description,
+        };
+        if (this.allowedValues !== undefined) {
+            result.enum = this.allowedValues;
+        }
+        if (!this.isEmptyAllowed) {
+            result.pattern = "\\S";
+        }
+        return result;
+    }
+}
+
+// A string holding a non-negative base-10 integer, for values (like yoctoNEAR amounts) that don't fit in a JS number
+export class DecimalStringSchema implements Schema {
+    constructor(
+        public readonly description: string,
+    ) {}
+
+    public validate(value: any, path: string, problems: string[]): void {
+        if (typeof value !== "string" || !isDecimalString(value)) {
+            problems.push(`${path}: expected a non-negative base-10 integer string but got ${describeValue(value)}`);
+        }
+    }
+
+    public toJsonSchema(): { [keyword: string]: any } {
+        return {
+            type: "string",
+            description: this.description,
+            pattern: "^(0|[1-9][0-9]*)$",
+        };
+    }
+}
+
+export class IntegerSchema implements Schema {
+    constructor(
+        public readonly description: string,
+        public readonly minimum?: number,
+    ) {}
+
+    public validate(value: any, path: string, problems: string[]): void {
+        if (typeof value !== "number" || !Number.isInteger(value)) {
+            problems.push(`${path}: expected an integer but got ${describeValue(value)}`);
+            return;
+        }
+        if (this.minimum !== undefined && value < this.minimum) {
+            problems.push(`${path}: expected an integer >= ${this.minimum} but got ${value}`);
+        }
+    }
+
+    public toJsonSchema(): { [keyword: string]: any } {
+        const result: { [keyword: string]: any } = {
+            type: "integer",
+            description: this.description,
+        };
+        if (this.minimum !== undefined) {
+            result.minimum = this.minimum;
+        }
+        return result;
+    }
+}
+
+export class NumberSchema implements Schema {
+    constructor(
+        public readonly description: string,
+        public readonly minimum?: number,
+    ) {}
+
+    public validate(value: any, path: string, problems: string[]): void {
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+            problems.push(`${path}: expected a number but got ${describeValue(value)}`);
+            return;
+        }
+        if (this.minimum !== undefined && value < this.minimum) {
+            problems.push(`${path}: expected a number >= ${this.minimum} but got ${value}`);
+        }
+    }
+
+    public toJsonSchema(): { [keyword: string]: any } {
+        const result: { [keyword: string]: any } = {
+            type: "number",
+            description: this.description,
+        };
+        if (this.minimum !== undefined) {
+            result.minimum = this.minimum;
+        }
+        return result;
+    }
+}
+
+export class BooleanSchema implements Schema {
+    constructor(
+        public readonly description: string,
+    ) {}
+
+    public validate(value: any, path: string, problems: string[]): void {
+        if (typeof value !== "boolean") {
+            problems.push(`${path}: expected a boolean but got ${describeValue(value)}`);
+        }
+    }
+
+    public toJsonSchema(): { [keyword: string]: any } {
+        return {
+            type: "boolean",
+            description: this.description,
+        };
+    }
+}
+
+// Accepts any JSON value, for values that are passed through to a service's own config as-is
+export class AnySchema implements Schema {
+    constructor(
+        public readonly description: string,
+    ) {}
+
+    public validate(value: any, path: string, problems: string[]): void {}
+
+    public toJsonSchema(): { [keyword: string]: any } {
+        return {
+            description: this.description,
+        };
+    }
+}
+
+export class ArraySchema implements Schema {
+    constructor(
+        public readonly description: string,
+        public readonly itemSchema: Schema,
+    ) {}
+
+    public validate(value: any, path: string, problems: string[]): void {
+        if (!Array.isArray(value)) {
+            problems.push(`${path}: expected an array but got ${describeValue(value)}`);
+            return;
+        }
+        for (let i: number = 0; i < value.length; i++) {
+            this.itemSchema.validate(value[i], `${path}[${i}]`, problems);
+        }
+    }
+
+    public toJsonSchema(): { [keyword: string]: any } {
+        return {
+            type: "array",
+            description: this.description,
+            items: this.itemSchema.toJsonSchema(),
+        };
+    }
+}
+
+export class ObjectProperty {
+    constructor(
+        public readonly schema: Schema,
+        public readonly isRequired: boolean,
+    ) {}
+}
+
+// An object with a fixed set of properties; any other property is rejected
+export class ObjectSchema implements Schema {
+    constructor(
+        public readonly description: string,
+        public readonly properties: Map<string, ObjectProperty>,
+    ) {}
+
+    public validate(value: any, path: string, problems: string[]): void {
+        if (!isPlainObject(value)) {
+            problems.push(`${path}: expected an object but got ${describeValue(value)}`);
+            return;
+        }
+        for (const [propertyName, property] of this.properties.entries()) {
+            if (value[propertyName] === undefined) {
+                if (property.isRequired) {
+                    problems.push(`${path}.${propertyName}: is required`);
+                }
+                continue;
+            }
+            property.schema.validate(value[propertyName], `${path}.${propertyName}`, problems);
+        }
+        for (const propertyName of Object.keys(value)) {
+            if (!this.properties.has(propertyName)) {
+                problems.push(`${path}.${propertyName}: unrecognized field; valid fields are: ${Array.from(this.properties.keys()).join(", ")}`);
+            }
+        }
+    }
+
+    public toJsonSchema(): { [keyword: string]: any } {
+        const properties: { [propertyName: string]: any } = {};
+        const required: string[] = [];
+        for (const [propertyName, property] of this.properties.entries()) {
+            properties[propertyName] = property.schema.toJsonSchema();
+            if (property.isRequired) {
+                required.push(propertyName);
+            }
+        }
+        const result: { [keyword: string]: any } = {
+            type: "object",
+            description: this.description,
+            properties: properties,
+            additionalProperties: false,
+        };
+        if (required.length > 0) {
+            result.required = required;
+        }
+        return result;
+    }
+}
+
+// An object used as a dictionary, whose keys are arbitrary (or drawn from a fixed set) and whose values all share one schema
+export class MapSchema implements Schema {
+    constructor(
+        public readonly description: string,
+        public readonly valueSchema: Schema,
+        // If set, every key must be one of these
+        public readonly allowedKeys?: string[],
+    ) {}
+
+    public validate(value: any, path: string, problems: string[]): void {
+        if (!isPlainObject(value)) {
+            problems.push(`${path}: expected an object but got ${describeValue(value)}`);
+            return;
+        }
+        for (const [key, entryValue] of Object.entries(value)) {
+            if (this.allowedKeys !== undefined && !this.allowedKeys.includes(key)) {
+                problems.push(`${path}.${key}: unrecognized key; valid keys are: ${this.allowedKeys.join(", ")}`);
+                continue;
+            }
+            this.valueSchema.validate(entryValue, `${path}.${key}`, problems);
+        }
+    }
+
+    public toJsonSchema(): { [keyword: string]: any } {
+        const result: { [keyword: string]: any } = {
+            type: "object",
+            description: this.description,
+            additionalProperties: this.valueSchema.toJsonSchema(),
+        };
+        if (this.allowedKeys !== undefined) {
+            result.propertyNames = { enum: this.allowedKeys };
+        }
+        return result;
+    }
+}
+
+// Returns the schema as a standalone JSON Schema document
+export function toJsonSchemaDocument(schema: Schema, title: string): { [keyword: string]: any } {
+    return Object.assign(
+        {
+            $schema: JSON_SCHEMA_DIALECT,
+            title: title,
+        },
+        schema.toJsonSchema(),
+    );
+}
+
+function isPlainObject(value: any): boolean {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function describeValue(value: any): string {
+    if (value === null) {
+        return "null";
+    }
+    if (Array.isArray(value)) {
+        return "an array";
+    }
+    if (typeof value === "string") {
+        return `string '${value}'`;
+    }
+    if (typeof value === "object") {
+        return "an object";
+    }
+    return `${typeof value} '${value}'`;
+}
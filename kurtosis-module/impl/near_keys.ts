@@ -0,0 +1,152 @@
+import * as crypto from "crypto";
+import { Result, ok, err } from "neverthrow";
+import { decodeBase58, encodeBase58 } from "./base58";
+
+export const ED25519_KEY_PREFIX: string = "ed25519:";
+
+const ED25519_KEY_TYPE = "ed25519";
+const ED25519_RAW_KEY_NUM_BYTES: number = 32;
+const ED25519_SECRET_KEY_NUM_BYTES: number = 2 * ED25519_RAW_KEY_NUM_BYTES;
+// Wrapping a raw 32-byte seed in this prefix yields its PKCS#8 DER encoding, which is what Node's crypto can import
+const ED25519_PKCS8_DER_PREFIX: Buffer = Buffer.from("302e020100300506032b657004220420", "hex");
+
+export class NearKeyPair {
+    constructor(
+        // E.g. "ed25519:3Kuyi2DUXdoHgoaNEvCxa1m6G8xqc6Xs7WGajaqLhNmW"
+        public readonly publicKey: string,
+        // NEAR secret keys are the base58 encoding of the 32-byte seed followed by the 32-byte public key
+        public readonly secretKey: string,
+    ) {}
+}
+
+export function generateEd25519KeyPair(): Result<NearKeyPair, Error> {
+    let privateKeyDer: Buffer;
+    let publicKeyDer: Buffer;
+    try {
+        const { publicKey, privateKey } = crypto.generateKeyPairSync(ED25519_KEY_TYPE);
+        privateKeyDer = privateKey.export({ format: "der", type: "pkcs8" });
+        publicKeyDer = publicKey.export({ format: "der", type: "spki" });
+    } catch (e: any) {
+        // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
+        // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
+        if (e && e.stack && e.message) {
+            return err(e as Error);
+        }
+        return err(new Error("Generating an ed25519 keypair threw an exception, but " +
+            "it's not an Error so we can't report any more information than this"));
+    }
+
+    // In both DER encodings, the raw key material is the last 32 bytes
+    const seed: Buffer = privateKeyDer.subarray(privateKeyDer.length - ED25519_RAW_KEY_NUM_BYTES);
+    const rawPublicKey: Buffer = publicKeyDer.subarray(publicKeyDer.length - ED25519_RAW_KEY_NUM_BYTES);
+
+    const result: NearKeyPair = new NearKeyPair(
+        ED25519_KEY_PREFIX + encodeBase58(rawPublicKey),
+        ED25519_KEY_PREFIX + encodeBase58(Buffer.concat([seed, rawPublicKey])),
+    );
+    return ok(result);
+}
+
+// Verifies that the string is an "ed25519:"-prefixed, base58-encoded 32-byte public key
+export function validatePublicKey(publicKey: string): Result<null, Error> {
+    const decodeResult: Result<Buffer, Error> = decodePublicKey(publicKey);
+    if (decodeResult.isErr()) {
+        return err(decodeResult.error);
+    }
+    return ok(null);
+}
+
+// Returns the raw 32 bytes of an "ed25519:"-prefixed, base58-encoded public key
+export function decodePublicKey(publicKey: string): Result<Buffer, Error> {
+    if (!publicKey.startsWith(ED25519_KEY_PREFIX)) {
+        return err(new Error(`Public key '${publicKey}' doesn't start with the '${ED25519_KEY_PREFIX}' prefix`));
+    }
+    const decodeResult: Result<Buffer, Error> = decodeBase58(publicKey.substring(ED25519_KEY_PREFIX.length));
+    if (decodeResult.isErr()) {
+        return err(new Error(`Public key '${publicKey}' isn't valid base58: ${decodeResult.error.message}`));
+    }
+    const numBytes: number = decodeResult.value.length;
+    if (numBytes !== ED25519_RAW_KEY_NUM_BYTES) {
+        return err(new Error(`Public key '${publicKey}' decodes to ${numBytes} bytes, but ed25519 public keys must be ${ED25519_RAW_KEY_NUM_BYTES} bytes`));
+    }
+    return ok(decodeResult.value);
+}
+
+// Derives the "ed25519:"-prefixed public key from a secret key, verifying that the public key half embedded in the
+//  secret key actually belongs to its seed half
+export function derivePublicKey(secretKey: string): Result<string, Error> {
+    const decodeResult: Result<Buffer, Error> = decodeSecretKey(secretKey);
+    if (decodeResult.isErr()) {
+        return err(decodeResult.error);
+    }
+    const secretKeyBytes: Buffer = decodeResult.value;
+    const seed: Buffer = secretKeyBytes.subarray(0, ED25519_RAW_KEY_NUM_BYTES);
+    const embeddedPublicKey: Buffer = secretKeyBytes.subarray(ED25519_RAW_KEY_NUM_BYTES);
+
+    let publicKeyDer: Buffer;
+    try {
+        const privateKey: crypto.KeyObject = createPrivateKeyObject(seed);
+        publicKeyDer = crypto.createPublicKey(privateKey).export({ format: "der", type: "spki" });
+    } catch (e: any) {
+        // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
+        // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
+        if (e && e.stack && e.message) {
+            return err(e as Error);
+        }
+        return err(new Error("Deriving an ed25519 public key threw an exception, but " +
+            "it's not an Error so we can't report any more information than this"));
+    }
+    const derivedPublicKey: Buffer = publicKeyDer.subarray(publicKeyDer.length - ED25519_RAW_KEY_NUM_BYTES);
+    if (!derivedPublicKey.equals(embeddedPublicKey)) {
+        return err(new Error("Secret key is corrupt: its public key half doesn't match the public key derived from its seed half"));
+    }
+    return ok(ED25519_KEY_PREFIX + encodeBase58(derivedPublicKey));
+}
+
+// Returns the 64-byte ed25519 signature of the data
+export function sign(secretKey: string, data: Buffer): Result<Buffer, Error> {
+    const decodeResult: Result<Buffer, Error> = decodeSecretKey(secretKey);
+    if (decodeResult.isErr()) {
+        return err(decodeResult.error);
+    }
+    const seed: Buffer = decodeResult.value.subarray(0, ED25519_RAW_KEY_NUM_BYTES);
+    try {
+        // Ed25519 hashes the data itself, so no digest algorithm is given
+        const signature: Buffer = crypto.sign(null, data, createPrivateKeyObject(seed));
+        return ok(signature);
+    } catch (e: any) {
+        // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
+        // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
+        if (e && e.stack && e.message) {
+            return err(e as Error);
+        }
+        return err(new Error("Signing with an ed25519 key threw an exception, but " +
+            "it's not an Error so we can't report any more information than this"));
+    }
+}
+
+// Returns the raw 64 bytes (seed followed by public key) of an "ed25519:"-prefixed, base58-encoded secret key
+// NOTE: the secret key is deliberately kept out of the error messages
+function decodeSecretKey(secretKey: string): Result<Buffer, Error> {
+    if (!secretKey.startsWith(ED25519_KEY_PREFIX)) {
+        return err(new Error(`Secret key doesn't start with the '${ED25519_KEY_PREFIX}' prefix`));
+    }
+    const decodeResult: Result<Buffer, Error> = decodeBase58(secretKey.substring(ED25519_KEY_PREFIX.length));
+    if (decodeResult.isErr()) {
+        return err(new Error("Secret key isn't valid base58"));
+    }
+    const secretKeyBytes: Buffer = decodeResult.value;
+    if (secretKeyBytes.length !== ED25519_SECRET_KEY_NUM_BYTES) {
+        return err(new Error(`Secret key decodes to ${secretKeyBytes.length} bytes, but ed25519 secret keys must be ${ED25519_SECRET_KEY_NUM_BYTES} bytes`));
+    }
+    return ok(secretKeyBytes);
+}
+
+// Throws if the seed isn't a valid ed25519 seed
+function createPrivateKeyObject(seed: Buffer): crypto.KeyObject {
+    return crypto.createPrivateKey({
+        key: Buffer.concat([ED25519_PKCS8_DER_PREFIX, seed]),
+        format: "der",
+        type: "pkcs8",
+    });
+}
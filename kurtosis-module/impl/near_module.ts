@@ -1,22 +1,139 @@
-import { EnclaveContext, ContainerConfig } from "kurtosis-core-api-lib";
+import { EnclaveContext, ContainerConfig, FilesArtifactUUID, ServiceID } from "kurtosis-core-api-lib";
 import { Result, ok, err } from "neverthrow";
 import * as log from "loglevel";
-import { addContractHelperDb, ContractHelperDbInfo } from "./services/contract_helper_db";
-import { addContractHelperService, ContractHelperServiceInfo } from "./services/contract_helper";
-import { addIndexer, IndexerInfo } from "./services/indexer";
-import { addExplorerBackendService, ExplorerBackendInfo } from "./services/explorer_backend";
-import { addExplorerFrontendService, ExplorerFrontendInfo } from "./services/explorer_frontend";
-import { addWallet, WalletInfo } from "./services/wallet";
+import {
+    addContractHelperDb,
+    ContractHelperDbInfo,
+    DbRole,
+    DbSnapshotExportInfo,
+    exportDbSnapshot,
+    INDEXER_DB,
+    planContractHelperDb,
+    SERVICE_ID as CONTRACT_HELPER_DB_SERVICE_ID,
+} from "./services/contract_helper_db";
+import {
+    addContractHelperService,
+    ContractHelperServiceInfo,
+    planContractHelperService,
+    SERVICE_ID as CONTRACT_HELPER_SERVICE_ID,
+} from "./services/contract_helper";
+import {
+    addIndexer,
+    checkRestoredMigrationVersions,
+    getIndexerImageMigrationVersions,
+    IndexerInfo,
+    planIndexer,
+    planIndexerMigrationsReader,
+    SERVICE_ID as INDEXER_SERVICE_ID,
+} from "./services/indexer";
+import {
+    addExplorerBackendService,
+    ExplorerBackendInfo,
+    planExplorerBackendService,
+    SERVICE_ID as EXPLORER_BACKEND_SERVICE_ID,
+} from "./services/explorer_backend";
+import {
+    addExplorerFrontendService,
+    ExplorerFrontendInfo,
+    planExplorerFrontendService,
+    SERVICE_ID as EXPLORER_FRONTEND_SERVICE_ID,
+} from "./services/explorer_frontend";
+import { addMailCatcher, MailCatcherInfo, planMailCatcher, SERVICE_ID as MAIL_CATCHER_SERVICE_ID } from "./services/mail_catcher";
+import {
+    addWallet,
+    getPublicUrlForFixedPort as getWalletPublicUrlForFixedPort,
+    planWallet,
+    WalletInfo,
+    SERVICE_ID as WALLET_SERVICE_ID,
+} from "./services/wallet";
+import { addValidatorNode, planValidatorNode, ValidatorNodeInfo, SERVICE_TYPE as VALIDATOR_NODE_SERVICE_TYPE } from "./services/validator_node";
 import { ExecutableKurtosisModule } from "kurtosis-module-api-lib";
-import { deserializeAndValidateParams } from "./module_io/params_deserializer";
-import { ExecuteResult } from "./module_io/result";
+import { deserializeAndValidateParams, maskParamsForLogging, maskParamsStrForLogging } from "./module_io/params_deserializer";
+import { ExecuteParams } from "./module_io/params";
+import {
+    ClientConfigsResult,
+    ContractResult,
+    DatabaseRoleResult,
+    DryRunResult,
+    ExecuteResult,
+    ExportDbSnapshotResult,
+    StatusResult,
+    TestAccountResult,
+    ValidatorNodeResult,
+} from "./module_io/result";
+import { generateLocalnetConfigs, LocalnetNodeConfig } from "./localnet_configs";
+import { NetworkIdentity } from "./network_identity";
+import { CLIENT_CONFIGS_DIRNAME, ClientConfigs, generateClientConfigs, writeClientConfigs } from "./client_configs";
+import { resolveEnabledServices } from "./service_profiles";
+import { resolveImages } from "./service_images";
+import { PLANNED_AUTO_ALLOCATED_PUBLIC_PORT_NUM, ServiceUrl } from "./service_url";
+import { getPlannedFilesArtifactUuid, getServicePlanResult, ServicePlan } from "./service_plan";
+import { ValidatorKey } from "./validator_key";
+import { createTestAccounts, TestAccountInfo, validateTestAccountParams } from "./test_accounts";
+import { NearRpcClient } from "./near_rpc";
+import { ContractInfo, deployContracts, validateContractParams } from "./contracts";
+import {
+    FilesArtifactFile,
+    planFilesArtifactReader,
+    readFilesArtifactFiles,
+    SERVICE_ID as FILES_ARTIFACT_READER_SERVICE_ID,
+} from "./services/files_artifact_reader";
+import { connectToExternalPostgres, planPostgresClient, SERVICE_ID as POSTGRES_CLIENT_SERVICE_ID } from "./services/postgres_client";
+import { ACCOUNT_FINALITY_WAIT_KEY, INDEXER_VALIDATOR_KEY_WAIT_KEY, resolveRetryPolicies } from "./retry_policies";
+import { RetryPolicy } from "./retry_policy";
+import {
+    CONTRACT_HELPER_PUBLIC_PORT_KEY,
+    EXPLORER_FRONTEND_PUBLIC_PORT_KEY,
+    INDEXER_GOSSIP_PUBLIC_PORT_KEY,
+    INDEXER_RPC_PUBLIC_PORT_KEY,
+    resolvePublicPorts,
+    WALLET_PUBLIC_PORT_KEY,
+} from "./public_ports";
+import { NearNodeStatusProbe } from "./readiness/near_node_status_probe";
+import { waitForReadiness } from "./readiness/readiness_probe";
+import { EXPORT_DB_SNAPSHOT_ACTION, STATUS_ACTION } from "./module_actions";
+import { IndexerSyncConfig, resolveIndexerSyncConfig } from "./indexer_sync";
+import { ServiceLaunchTracker, createServiceLaunchTracker } from "./service_launch_tracker";
+import { FILES_UPLOAD_PHASE, READINESS_PHASE, StartupTimeline } from "./startup_timeline";
+import { getNetworkStatus } from "./network_status";
 
 export type ContainerConfigSupplier = (ipAddr: string) => Result<ContainerConfig, Error>;
 
-const EXPLORER_WAMP_BACKEND_FRONTEND_SHARED_NETWORK_NAME: string = "localnet";
+// Starts a service that links to the Wallet with everything but that link & its public port fixed, so that it can be
+//  re-provisioned once the Wallet is up
+type WalletLinkedServiceAdder<T> = (walletPublicUrl: ServiceUrl | undefined, publicPortNum: number | undefined) => Promise<Result<T, Error>>;
 
 const RESULT_JSON_PRETTY_PRINT_SPACE_NUM: number = 4;
 
+// The first NEAR node is what every other node boots off of, so it doesn't connect to anyone itself
+const NO_BOOT_NODES: string = "";
+
+// A lone validator produces blocks by itself, so it's only ready once it has; with several validators, no blocks get
+//  produced until enough of them have joined, so each node is only checked for being up & the network is checked
+//  for producing blocks once every node is started
+const SINGLE_VALIDATOR_MIN_READY_BLOCK_HEIGHT: number = 1;
+const MULTI_VALIDATOR_NODE_MIN_READY_BLOCK_HEIGHT: number = 0;
+const NETWORK_MIN_READY_BLOCK_HEIGHT: number = 1;
+
+// How long a service that's being re-provisioned gets to stop before it's killed
+const REPROVISIONED_SERVICE_STOP_TIMEOUT_SECONDS: number = 10;
+
+// Everything about the start that's worked out from the params alone, before the enclave is touched
+class StartConfig {
+    constructor(
+        public readonly networkIdentity: NetworkIdentity,
+        // The config.json that every NEAR node runs with
+        public readonly nodeConfig: { [field: string]: any },
+        // Starting with the first node's
+        public readonly localnetNodeConfigs: LocalnetNodeConfig[],
+        public readonly enabledServices: Set<ServiceID>,
+        public readonly images: { [serviceKey: string]: string },
+        public readonly retryPolicies: { [waitKey: string]: RetryPolicy },
+        public readonly publicPorts: { [portKey: string]: number },
+        public readonly indexerSyncConfig: IndexerSyncConfig,
+    ) {}
+}
+
 
 export class NearModule implements ExecutableKurtosisModule {
     constructor() {}
@@ -24,113 +141,1049 @@ export class NearModule implements ExecutableKurtosisModule {
     // All this logic comes from translating https://github.com/near/docs/blob/975642ad49338bf8728a675def1f8bec8a780922/docs/local-setup/entire-setup.md
     //  into Kurtosis-compatible code
     async execute(enclaveCtx: EnclaveContext, serializedParams: string): Promise<Result<string, Error>> {
-        log.info(`Deserializing the following params string:\n${serializedParams}`);
+        log.info(`Deserializing the following params string:\n${maskParamsStrForLogging(serializedParams)}`);
         const paramDeserializationResult = deserializeAndValidateParams(serializedParams)
         if (paramDeserializationResult.isErr()) {
             return err(paramDeserializationResult.error);
         }
         const executeParams = paramDeserializationResult.value;
-        log.info(`Deserialized the params string into the following params object: ${JSON.stringify(executeParams)}`);
+        log.info(`Deserialized the params string into the following params object: ${maskParamsForLogging(executeParams)}`);
+
+        if (executeParams.action === EXPORT_DB_SNAPSHOT_ACTION) {
+            return executeExportDbSnapshot(enclaveCtx);
+        }
+        if (executeParams.action === STATUS_ACTION) {
+            return executeStatus(enclaveCtx);
+        }
+
+        const resolveStartConfigResult: Result<StartConfig, Error> = resolveStartConfig(executeParams);
+        if (resolveStartConfigResult.isErr()) {
+            return err(resolveStartConfigResult.error);
+        }
+        const startConfig: StartConfig = resolveStartConfigResult.value;
 
-        const addContractHelperDbServiceResult: Result<ContractHelperDbInfo, Error> = await addContractHelperDb(enclaveCtx)
-        if (addContractHelperDbServiceResult.isErr()) {
-            return err(addContractHelperDbServiceResult.error);
+        // A dry run never touches the enclave
+        if (executeParams.dryRun) {
+            return executeDryRun(executeParams, startConfig);
         }
-        const contractHelperDbInfo: ContractHelperDbInfo = addContractHelperDbServiceResult.value;
 
-        const addIndexerResult: Result<IndexerInfo, Error> = await addIndexer(
+        const createServiceLaunchTrackerResult: Result<ServiceLaunchTracker, Error> = await createServiceLaunchTracker(enclaveCtx);
+        if (createServiceLaunchTrackerResult.isErr()) {
+            return err(createServiceLaunchTrackerResult.error);
+        }
+        const serviceLaunchTracker: ServiceLaunchTracker = createServiceLaunchTrackerResult.value;
+
+        const timeline: StartupTimeline = new StartupTimeline(executeParams.logTimelineAsJsonLines);
+        const executeStartResult: Result<string, Error> = await this.executeStart(
             enclaveCtx,
+            executeParams,
+            startConfig,
+            serviceLaunchTracker,
+            timeline,
+        );
+        if (executeStartResult.isErr()) {
+            return err(await cleanUpFailedStart(serviceLaunchTracker, executeStartResult.error, executeParams.keepOnFailure));
+        }
+        return ok(executeStartResult.value);
+    }
+
+    // ====================================================================================================
+    //                                       Private helper functions
+    // ====================================================================================================
+
+    // Every service that gets launched is recorded in the tracker, so that it can be removed if a later step fails, and
+    //  every phase of starting it in the timeline
+    private async executeStart(
+        enclaveCtx: EnclaveContext,
+        executeParams: ExecuteParams,
+        startConfig: StartConfig,
+        serviceLaunchTracker: ServiceLaunchTracker,
+        timeline: StartupTimeline,
+    ): Promise<Result<string, Error>> {
+        const networkIdentity: NetworkIdentity = startConfig.networkIdentity;
+        const nodeConfig: { [field: string]: any } = startConfig.nodeConfig;
+        const [ firstNodeConfig, ...extraValidatorNodeConfigs ] = startConfig.localnetNodeConfigs;
+        const enabledServices: Set<ServiceID> = startConfig.enabledServices;
+        const images: { [serviceKey: string]: string } = startConfig.images;
+        const retryPolicies: { [waitKey: string]: RetryPolicy } = startConfig.retryPolicies;
+        const publicPorts: { [portKey: string]: number } = startConfig.publicPorts;
+        const indexerSyncConfig: IndexerSyncConfig = startConfig.indexerSyncConfig;
+
+        const nodeMinReadyBlockHeight: number = extraValidatorNodeConfigs.length === 0 ?
+            SINGLE_VALIDATOR_MIN_READY_BLOCK_HEIGHT :
+            MULTI_VALIDATOR_NODE_MIN_READY_BLOCK_HEIGHT;
+        // The images of only the services that actually get started, for reporting back to the user
+        const usedImages: { [serviceKey: string]: string } = {};
+
+        // The contract files are read before anything else is started, so that a bad files artifact fails fast
+        let contractCodes: Buffer[] = [];
+        if (executeParams.contracts.length > 0) {
+            const readContractCodesResult: Result<Buffer[], Error> = await readFilesArtifactFiles(
+                enclaveCtx,
+                timeline,
+                images[FILES_ARTIFACT_READER_SERVICE_ID],
+                executeParams.contracts.map(contract => new FilesArtifactFile(contract.filesArtifactUuid, contract.wasmFilepath)),
+            );
+            if (readContractCodesResult.isErr()) {
+                return err(readContractCodesResult.error);
+            }
+            contractCodes = readContractCodesResult.value;
+            usedImages[FILES_ARTIFACT_READER_SERVICE_ID] = images[FILES_ARTIFACT_READER_SERVICE_ID];
+        }
+
+        // An external Postgres takes the place of the contract helper DB, rather than being another service
+        if (!enabledServices.has(CONTRACT_HELPER_DB_SERVICE_ID) && executeParams.externalPostgres !== undefined) {
+            log.warn("An external Postgres was given, but none of the started services need Postgres so it won't be used");
+        }
+        let contractHelperDbInfo: ContractHelperDbInfo | undefined = undefined;
+        if (enabledServices.has(CONTRACT_HELPER_DB_SERVICE_ID) && executeParams.externalPostgres !== undefined) {
+            const connectToExternalPostgresResult: Result<ContractHelperDbInfo, Error> = await connectToExternalPostgres(
+                enclaveCtx,
+                timeline,
+                images[POSTGRES_CLIENT_SERVICE_ID],
+                executeParams.externalPostgres,
+            );
+            if (connectToExternalPostgresResult.isErr()) {
+                return err(connectToExternalPostgresResult.error);
+            }
+            contractHelperDbInfo = connectToExternalPostgresResult.value;
+            usedImages[POSTGRES_CLIENT_SERVICE_ID] = images[POSTGRES_CLIENT_SERVICE_ID];
+        } else if (enabledServices.has(CONTRACT_HELPER_DB_SERVICE_ID)) {
+            const addContractHelperDbServiceResult: Result<ContractHelperDbInfo, Error> = await addContractHelperDb(
+                enclaveCtx,
+                timeline,
+                images[CONTRACT_HELPER_DB_SERVICE_ID],
+                executeParams.dbSnapshot,
+                retryPolicies[CONTRACT_HELPER_DB_SERVICE_ID],
+            );
+            if (addContractHelperDbServiceResult.isErr()) {
+                return err(addContractHelperDbServiceResult.error);
+            }
+            contractHelperDbInfo = addContractHelperDbServiceResult.value;
+            usedImages[CONTRACT_HELPER_DB_SERVICE_ID] = images[CONTRACT_HELPER_DB_SERVICE_ID];
+            serviceLaunchTracker.recordLaunch(CONTRACT_HELPER_DB_SERVICE_ID);
+        }
+
+        // The first validator is the indexer node if the indexer is enabled, or a plain NEAR node otherwise
+        let firstNodeServiceId: ServiceID;
+        let firstNodePrivateRpcUrl: ServiceUrl;
+        let firstNodePublicRpcUrl: ServiceUrl;
+        let firstNodePrivateGossipAddress: string;
+        let rootValidatorKey: ValidatorKey;
+        let indexerInfo: IndexerInfo | undefined = undefined;
+        if (enabledServices.has(INDEXER_SERVICE_ID)) {
+            if (contractHelperDbInfo === undefined) {
+                return err(new Error("The indexer is enabled but the contract helper DB it depends on isn't; this is a bug in the module"));
+            }
+            // The indexer runs its migrations on startup, which fails in confusing ways on a DB that it can't migrate
+            const restoredIndexerMigrationVersions: string[] | undefined = contractHelperDbInfo.restoredIndexerMigrationVersions;
+            if (restoredIndexerMigrationVersions !== undefined) {
+                const getIndexerMigrationVersionsResult: Result<string[], Error> = await getIndexerImageMigrationVersions(
+                    enclaveCtx,
+                    timeline,
+                    images[INDEXER_SERVICE_ID],
+                );
+                if (getIndexerMigrationVersionsResult.isErr()) {
+                    return err(getIndexerMigrationVersionsResult.error);
+                }
+                const checkMigrationVersionsResult: Result<string[], Error> = checkRestoredMigrationVersions(
+                    restoredIndexerMigrationVersions,
+                    getIndexerMigrationVersionsResult.value,
+                );
+                if (checkMigrationVersionsResult.isErr()) {
+                    return err(checkMigrationVersionsResult.error);
+                }
+                const pendingMigrationVersions: string[] = checkMigrationVersionsResult.value;
+                if (!indexerSyncConfig.runMigrations && pendingMigrationVersions.length > 0) {
+                    return err(new Error(
+                        `The indexer's migrations can't be skipped, as the restored indexer DB is missing these: ${pendingMigrationVersions.join(", ")}`
+                    ));
+                }
+                if (restoredIndexerMigrationVersions.length === 0) {
+                    log.warn("The restored indexer DB has no diesel migrations recorded, so the indexer will run all of its migrations on it");
+                } else if (pendingMigrationVersions.length > 0) {
+                    log.info(`The indexer will apply these migrations to the restored indexer DB: ${pendingMigrationVersions.join(", ")}`);
+                } else {
+                    log.info("The restored indexer DB's migrations match the indexer's");
+                }
+            } else if (!indexerSyncConfig.runMigrations && executeParams.externalPostgres === undefined) {
+                // An external Postgres's DB may well be migrated already, but there's no telling, so that's left to the user
+                return err(new Error(
+                    `The indexer's migrations can only be skipped if its DB is already migrated, but the '${CONTRACT_HELPER_DB_SERVICE_ID}' ` +
+                        `service's indexer DB is new; restore it from a snapshot with the 'dbSnapshot' param`
+                ));
+            }
+            const addIndexerResult: Result<IndexerInfo, Error> = await addIndexer(
+                enclaveCtx,
+                timeline,
+                images[INDEXER_SERVICE_ID],
+                firstNodeConfig.configDirpath,
+                contractHelperDbInfo.privateUrl,
+                contractHelperDbInfo.readWriteRole.username,
+                contractHelperDbInfo.readWriteRole.password,
+                contractHelperDbInfo.indexerDb,
+                indexerSyncConfig,
+                nodeMinReadyBlockHeight,
+                publicPorts[INDEXER_RPC_PUBLIC_PORT_KEY],
+                publicPorts[INDEXER_GOSSIP_PUBLIC_PORT_KEY],
+                retryPolicies[INDEXER_VALIDATOR_KEY_WAIT_KEY],
+                retryPolicies[INDEXER_SERVICE_ID],
+            );
+            if (addIndexerResult.isErr()) {
+                return err(addIndexerResult.error);
+            }
+            indexerInfo = addIndexerResult.value;
+            usedImages[INDEXER_SERVICE_ID] = images[INDEXER_SERVICE_ID];
+            serviceLaunchTracker.recordLaunch(INDEXER_SERVICE_ID);
+            firstNodeServiceId = INDEXER_SERVICE_ID;
+            firstNodePrivateRpcUrl = indexerInfo.privateRpcUrl;
+            firstNodePublicRpcUrl = indexerInfo.publicRpcUrl;
+            firstNodePrivateGossipAddress = indexerInfo.privateGossipAddress;
+            rootValidatorKey = indexerInfo.validatorKey;
+        } else {
+            const addFirstNodeResult: Result<ValidatorNodeInfo, Error> = await addValidatorNode(
+                enclaveCtx,
+                timeline,
+                images[VALIDATOR_NODE_SERVICE_TYPE],
+                0,
+                firstNodeConfig.configDirpath,
+                NO_BOOT_NODES,
+                nodeMinReadyBlockHeight,
+                retryPolicies[VALIDATOR_NODE_SERVICE_TYPE],
+            );
+            if (addFirstNodeResult.isErr()) {
+                return err(addFirstNodeResult.error);
+            }
+            const firstNodeInfo: ValidatorNodeInfo = addFirstNodeResult.value;
+            serviceLaunchTracker.recordLaunch(firstNodeInfo.serviceId);
+            firstNodeServiceId = firstNodeInfo.serviceId;
+            firstNodePrivateRpcUrl = firstNodeInfo.privateRpcUrl;
+            firstNodePublicRpcUrl = firstNodeInfo.publicRpcUrl;
+            firstNodePrivateGossipAddress = firstNodeInfo.privateGossipAddress;
+            rootValidatorKey = firstNodeConfig.validatorKey;
+        }
+
+        if (extraValidatorNodeConfigs.length > 0 || !enabledServices.has(INDEXER_SERVICE_ID)) {
+            usedImages[VALIDATOR_NODE_SERVICE_TYPE] = images[VALIDATOR_NODE_SERVICE_TYPE];
+        }
+
+        const validatorNodeResults: ValidatorNodeResult[] = [
+            new ValidatorNodeResult(
+                firstNodeServiceId,
+                firstNodePublicRpcUrl.toString(),
+                rootValidatorKey,
+            ),
+        ];
+        // All the extra validators discover the rest of the network through the first node
+        const bootNodes: string = `${firstNodeConfig.nodePublicKey}@${firstNodePrivateGossipAddress}`;
+        const extraValidatorNodeInfos: ValidatorNodeInfo[] = [];
+        for (let i: number = 0; i < extraValidatorNodeConfigs.length; i++) {
+            const nodeConfig: LocalnetNodeConfig = extraValidatorNodeConfigs[i];
+            const addValidatorNodeResult: Result<ValidatorNodeInfo, Error> = await addValidatorNode(
+                enclaveCtx,
+                timeline,
+                images[VALIDATOR_NODE_SERVICE_TYPE],
+                i + 1,
+                nodeConfig.configDirpath,
+                bootNodes,
+                nodeMinReadyBlockHeight,
+                retryPolicies[VALIDATOR_NODE_SERVICE_TYPE],
+            );
+            if (addValidatorNodeResult.isErr()) {
+                return err(addValidatorNodeResult.error);
+            }
+            const validatorNodeInfo: ValidatorNodeInfo = addValidatorNodeResult.value;
+            serviceLaunchTracker.recordLaunch(validatorNodeInfo.serviceId);
+            validatorNodeResults.push(new ValidatorNodeResult(
+                validatorNodeInfo.serviceId,
+                validatorNodeInfo.publicRpcUrl.toString(),
+                nodeConfig.validatorKey,
+            ));
+            extraValidatorNodeInfos.push(validatorNodeInfo);
+        }
+
+        if (extraValidatorNodeConfigs.length > 0) {
+            const nodeProbes: Map<ServiceID, NearNodeStatusProbe> = new Map([
+                [firstNodeServiceId, new NearNodeStatusProbe(firstNodeServiceId, firstNodePrivateRpcUrl, NETWORK_MIN_READY_BLOCK_HEIGHT)],
+            ]);
+            for (const validatorNodeInfo of extraValidatorNodeInfos) {
+                nodeProbes.set(
+                    validatorNodeInfo.serviceId,
+                    new NearNodeStatusProbe(validatorNodeInfo.serviceId, validatorNodeInfo.privateRpcUrl, NETWORK_MIN_READY_BLOCK_HEIGHT),
+                );
+            }
+            log.info("Waiting for the validator network to start producing blocks...");
+            for (const [nodeServiceId, nodeProbe] of nodeProbes.entries()) {
+                const waitForNodeResult: Result<null, Error> = await timeline.record(nodeServiceId, READINESS_PHASE, () => waitForReadiness(
+                    nodeProbe,
+                    retryPolicies[VALIDATOR_NODE_SERVICE_TYPE],
+                ));
+                if (waitForNodeResult.isErr()) {
+                    return err(waitForNodeResult.error);
+                }
+            }
+        }
+
+        // These must happen before the contract helper starts, as it signs transactions with the same key
+        const rpcClient: NearRpcClient = new NearRpcClient(firstNodePrivateRpcUrl, retryPolicies[ACCOUNT_FINALITY_WAIT_KEY]);
+        const createTestAccountsResult: Result<TestAccountInfo[], Error> = await createTestAccounts(
+            rpcClient,
+            rootValidatorKey,
+            executeParams.accounts,
+        );
+        if (createTestAccountsResult.isErr()) {
+            return err(createTestAccountsResult.error);
+        }
+        const testAccountResults: TestAccountResult[] = createTestAccountsResult.value.map(testAccountInfo => new TestAccountResult(
+            testAccountInfo.accountId,
+            testAccountInfo.publicKey,
+            testAccountInfo.secretKey,
+            testAccountInfo.balance,
+        ));
+
+        const deployContractsResult: Result<ContractInfo[], Error> = await deployContracts(
+            rpcClient,
+            rootValidatorKey,
+            executeParams.contracts,
+            contractCodes,
+        );
+        if (deployContractsResult.isErr()) {
+            return err(deployContractsResult.error);
+        }
+        const contractResults: ContractResult[] = deployContractsResult.value.map(contractInfo => new ContractResult(
+            contractInfo.accountId,
+            contractInfo.codeHash,
+            contractInfo.deployTransactionHash,
+            contractInfo.initTransactionHash,
+        ));
+
+        // The Contract Helper & the Explorer Frontend link to the Wallet, and the Wallet links back to both of them, so
+        //  they're started before it; if the Wallet's public port is fixed its public URL is already known, but if not
+        //  they start without the link & get re-provisioned with it once the Wallet is up
+        let plannedWalletPublicUrl: ServiceUrl | undefined = undefined;
+        const walletPublicPortNum: number | undefined = publicPorts[WALLET_PUBLIC_PORT_KEY];
+        if (enabledServices.has(WALLET_SERVICE_ID) && walletPublicPortNum !== undefined) {
+            plannedWalletPublicUrl = getWalletPublicUrlForFixedPort(executeParams.backendIpAddress, walletPublicPortNum);
+        }
+
+        // The mail catcher is started before the Contract Helper, as that sends its emails & SMSes to it
+        let mailCatcherInfo: MailCatcherInfo | undefined = undefined;
+        if (enabledServices.has(MAIL_CATCHER_SERVICE_ID)) {
+            const addMailCatcherResult: Result<MailCatcherInfo, Error> = await addMailCatcher(
+                enclaveCtx,
+                timeline,
+                images[MAIL_CATCHER_SERVICE_ID],
+                retryPolicies[MAIL_CATCHER_SERVICE_ID],
+            );
+            if (addMailCatcherResult.isErr()) {
+                return err(addMailCatcherResult.error);
+            }
+            mailCatcherInfo = addMailCatcherResult.value;
+            usedImages[MAIL_CATCHER_SERVICE_ID] = images[MAIL_CATCHER_SERVICE_ID];
+            serviceLaunchTracker.recordLaunch(MAIL_CATCHER_SERVICE_ID);
+        }
+        const mailCatcherPrivateSmtpUrl: ServiceUrl | undefined = mailCatcherInfo !== undefined ? mailCatcherInfo.privateSmtpUrl : undefined;
+
+        let contractHelperServiceInfo: ContractHelperServiceInfo | undefined = undefined;
+        let addContractHelper: WalletLinkedServiceAdder<ContractHelperServiceInfo> | undefined = undefined;
+        if (enabledServices.has(CONTRACT_HELPER_SERVICE_ID)) {
+            if (contractHelperDbInfo === undefined) {
+                return err(new Error("The contract helper is enabled but the contract helper DB it depends on isn't; this is a bug in the module"));
+            }
+            const dbInfo: ContractHelperDbInfo = contractHelperDbInfo;
+            addContractHelper = (walletPublicUrl: ServiceUrl | undefined, publicPortNum: number | undefined) => addContractHelperService(
+                enclaveCtx,
+                timeline,
+                images[CONTRACT_HELPER_SERVICE_ID],
+                dbInfo.privateUrl,
+                dbInfo.contractHelperReadOnlyRole.username,
+                dbInfo.contractHelperReadOnlyRole.password,
+                dbInfo.indexerDb,
+                executeParams.backendIpAddress,
+                networkIdentity,
+                firstNodePrivateRpcUrl,
+                walletPublicUrl,
+                mailCatcherPrivateSmtpUrl,
+                rootValidatorKey,
+                publicPortNum,
+                retryPolicies[CONTRACT_HELPER_SERVICE_ID],
+            );
+            const addContractHelperServiceResult: Result<ContractHelperServiceInfo, Error> = await addContractHelper(
+                plannedWalletPublicUrl,
+                publicPorts[CONTRACT_HELPER_PUBLIC_PORT_KEY],
+            );
+            if (addContractHelperServiceResult.isErr()) {
+                return err(addContractHelperServiceResult.error);
+            }
+            contractHelperServiceInfo = addContractHelperServiceResult.value;
+            usedImages[CONTRACT_HELPER_SERVICE_ID] = images[CONTRACT_HELPER_SERVICE_ID];
+            serviceLaunchTracker.recordLaunch(CONTRACT_HELPER_SERVICE_ID);
+        }
+
+        let explorerBackendInfo: ExplorerBackendInfo | undefined = undefined;
+        if (enabledServices.has(EXPLORER_BACKEND_SERVICE_ID)) {
+            if (contractHelperDbInfo === undefined) {
+                return err(new Error("The explorer backend is enabled but the contract helper DB it depends on isn't; this is a bug in the module"));
+            }
+            const addExplorerBackendResult: Result<ExplorerBackendInfo, Error> = await addExplorerBackendService(
+                enclaveCtx,
+                timeline,
+                images[EXPLORER_BACKEND_SERVICE_ID],
+                firstNodePrivateRpcUrl,
+                contractHelperDbInfo.privateUrl,
+                contractHelperDbInfo.explorerBackendReadOnlyRole.username,
+                contractHelperDbInfo.explorerBackendReadOnlyRole.password,
+                // The Explorer Backend's telemetry is the only thing it writes
+                contractHelperDbInfo.explorerBackendTelemetryWriterRole.username,
+                contractHelperDbInfo.explorerBackendTelemetryWriterRole.password,
+                contractHelperDbInfo.indexerDb,
+                contractHelperDbInfo.analyticsDb,
+                contractHelperDbInfo.telemetryDb,
+            );
+            if (addExplorerBackendResult.isErr()) {
+                return err(addExplorerBackendResult.error);
+            }
+            explorerBackendInfo = addExplorerBackendResult.value
+            usedImages[EXPLORER_BACKEND_SERVICE_ID] = images[EXPLORER_BACKEND_SERVICE_ID];
+            serviceLaunchTracker.recordLaunch(EXPLORER_BACKEND_SERVICE_ID);
+        }
+
+        let explorerFrontendInfo: ExplorerFrontendInfo | undefined = undefined;
+        let addExplorerFrontend: WalletLinkedServiceAdder<ExplorerFrontendInfo> | undefined = undefined;
+        if (enabledServices.has(EXPLORER_FRONTEND_SERVICE_ID)) {
+            if (explorerBackendInfo === undefined) {
+                return err(new Error("The explorer frontend is enabled but the explorer backend it depends on isn't; this is a bug in the module"));
+            }
+            const backendInfo: ExplorerBackendInfo = explorerBackendInfo;
+            addExplorerFrontend = (walletPublicUrl: ServiceUrl | undefined, publicPortNum: number | undefined) => addExplorerFrontendService(
+                enclaveCtx,
+                timeline,
+                images[EXPLORER_FRONTEND_SERVICE_ID],
+                executeParams.backendIpAddress,
+                networkIdentity,
+                backendInfo.privateUrl,
+                backendInfo.publicUrl,
+                walletPublicUrl,
+                publicPortNum,
+                retryPolicies[EXPLORER_FRONTEND_SERVICE_ID],
+            );
+            const addExplorerFrontendResult: Result<ExplorerFrontendInfo, Error> = await addExplorerFrontend(
+                plannedWalletPublicUrl,
+                publicPorts[EXPLORER_FRONTEND_PUBLIC_PORT_KEY],
+            );
+            if (addExplorerFrontendResult.isErr()) {
+                return err(addExplorerFrontendResult.error);
+            }
+            explorerFrontendInfo = addExplorerFrontendResult.value;
+            usedImages[EXPLORER_FRONTEND_SERVICE_ID] = images[EXPLORER_FRONTEND_SERVICE_ID];
+            serviceLaunchTracker.recordLaunch(EXPLORER_FRONTEND_SERVICE_ID);
+        }
+
+        let walletInfo: WalletInfo | undefined = undefined;
+        if (enabledServices.has(WALLET_SERVICE_ID)) {
+            if (contractHelperServiceInfo === undefined) {
+                return err(new Error("The wallet is enabled but the contract helper it depends on isn't; this is a bug in the module"));
+            }
+            const addWalletResult: Result<WalletInfo, Error> = await addWallet(
+                enclaveCtx,
+                timeline,
+                images[WALLET_SERVICE_ID],
+                executeParams.backendIpAddress,
+                networkIdentity,
+                firstNodePublicRpcUrl,
+                contractHelperServiceInfo.publicUrl,
+                explorerFrontendInfo !== undefined ? explorerFrontendInfo.publicUrl : undefined,
+                walletPublicPortNum,
+                retryPolicies[WALLET_SERVICE_ID],
+            );
+            if (addWalletResult.isErr()) {
+                return err(addWalletResult.error);
+            }
+            walletInfo = addWalletResult.value;
+            usedImages[WALLET_SERVICE_ID] = images[WALLET_SERVICE_ID];
+            serviceLaunchTracker.recordLaunch(WALLET_SERVICE_ID);
+        }
+
+        if (walletInfo !== undefined && plannedWalletPublicUrl === undefined) {
+            if (contractHelperServiceInfo !== undefined && addContractHelper !== undefined) {
+                const reprovisionContractHelperResult: Result<ContractHelperServiceInfo, Error> = await reprovisionWithWalletLink(
+                    enclaveCtx,
+                    CONTRACT_HELPER_SERVICE_ID,
+                    addContractHelper,
+                    contractHelperServiceInfo.publicUrl,
+                    walletInfo.publicUrl,
+                );
+                if (reprovisionContractHelperResult.isErr()) {
+                    return err(reprovisionContractHelperResult.error);
+                }
+                contractHelperServiceInfo = reprovisionContractHelperResult.value;
+            }
+            if (explorerFrontendInfo !== undefined && addExplorerFrontend !== undefined) {
+                const reprovisionExplorerFrontendResult: Result<ExplorerFrontendInfo, Error> = await reprovisionWithWalletLink(
+                    enclaveCtx,
+                    EXPLORER_FRONTEND_SERVICE_ID,
+                    addExplorerFrontend,
+                    explorerFrontendInfo.publicUrl,
+                    walletInfo.publicUrl,
+                );
+                if (reprovisionExplorerFrontendResult.isErr()) {
+                    return err(reprovisionExplorerFrontendResult.error);
+                }
+                explorerFrontendInfo = reprovisionExplorerFrontendResult.value;
+            }
+        }
+
+        // The cross-service URLs that each started service ended up configured with
+        const serviceLinks: { [serviceId: string]: { [setting: string]: string } } = {};
+        if (contractHelperServiceInfo !== undefined) {
+            serviceLinks[CONTRACT_HELPER_SERVICE_ID] = contractHelperServiceInfo.linkedUrls;
+        }
+        if (explorerFrontendInfo !== undefined) {
+            serviceLinks[EXPLORER_FRONTEND_SERVICE_ID] = explorerFrontendInfo.linkedUrls;
+        }
+        if (walletInfo !== undefined) {
+            serviceLinks[WALLET_SERVICE_ID] = walletInfo.linkedUrls;
+        }
+
+        const databaseRoleResults: DatabaseRoleResult[] = [];
+        if (contractHelperDbInfo !== undefined) {
+            const dbRoleUsers: [DbRole, ServiceID[]][] = [
+                [contractHelperDbInfo.adminRole, []],
+                [contractHelperDbInfo.readWriteRole, [INDEXER_SERVICE_ID]],
+                [contractHelperDbInfo.explorerBackendReadOnlyRole, [EXPLORER_BACKEND_SERVICE_ID]],
+                [contractHelperDbInfo.explorerBackendTelemetryWriterRole, [EXPLORER_BACKEND_SERVICE_ID]],
+                [contractHelperDbInfo.contractHelperReadOnlyRole, [CONTRACT_HELPER_SERVICE_ID]],
+            ];
+            // With an external Postgres every service uses the same role, which is then only listed once
+            const usersByDbRole: Map<DbRole, ServiceID[]> = new Map();
+            for (const [dbRole, userServiceIds] of dbRoleUsers) {
+                const users: ServiceID[] = usersByDbRole.get(dbRole) || [];
+                for (const serviceId of userServiceIds) {
+                    if (enabledServices.has(serviceId) && !users.includes(serviceId)) {
+                        users.push(serviceId);
+                    }
+                }
+                usersByDbRole.set(dbRole, users);
+            }
+            for (const [dbRole, users] of usersByDbRole.entries()) {
+                databaseRoleResults.push(new DatabaseRoleResult(
+                    dbRole.username,
+                    // An external Postgres's password is the caller's own, so it isn't echoed back
+                    executeParams.externalPostgres !== undefined ? undefined : dbRole.password,
+                    dbRole.isReadOnly,
+                    dbRole.dbs,
+                    users,
+                ));
+            }
+        }
+
+        const nearNodeRpcUrl: string = firstNodePublicRpcUrl.toString();
+        const contractHelperServiceUrl: string | undefined = contractHelperServiceInfo !== undefined ? contractHelperServiceInfo.publicUrl.toString() : undefined;
+        const walletUrl: string | undefined = walletInfo !== undefined ? walletInfo.publicUrl.toString() : undefined;
+        const explorerUrl: string | undefined = explorerFrontendInfo !== undefined ? explorerFrontendInfo.publicUrl.toString() : undefined;
+
+        const generateClientConfigsResult: Result<ClientConfigs, Error> = generateClientConfigs(
+            networkIdentity,
+            rootValidatorKey,
+            nearNodeRpcUrl,
+            walletUrl,
+            contractHelperServiceUrl,
+            explorerUrl,
+        );
+        if (generateClientConfigsResult.isErr()) {
+            return err(generateClientConfigsResult.error);
+        }
+        const clientConfigs: ClientConfigs = generateClientConfigsResult.value;
+        const writeClientConfigsResult: Result<string, Error> = writeClientConfigs(clientConfigs);
+        if (writeClientConfigsResult.isErr()) {
+            return err(writeClientConfigsResult.error);
+        }
+        const uploadClientConfigsResult = await timeline.record(
+            CLIENT_CONFIGS_DIRNAME,
+            FILES_UPLOAD_PHASE,
+            () => enclaveCtx.uploadFiles(writeClientConfigsResult.value),
+        );
+        if (uploadClientConfigsResult.isErr()) {
+            return err(uploadClientConfigsResult.error);
+        }
+        const clientConfigsResult: ClientConfigsResult = new ClientConfigsResult(
+            uploadClientConfigsResult.value,
+            clientConfigs.nearCliEnv,
+            clientConfigs.nearApiJsConfig,
+            clientConfigs.dotenv,
+            clientConfigs.credentialsFilepath,
+            clientConfigs.credentials,
+        );
+
+        const resultObj: ExecuteResult = new ExecuteResult(
+            networkIdentity.networkId,
+            networkIdentity.accountIdSuffix,
+            rootValidatorKey,
+            nearNodeRpcUrl,
+            contractHelperServiceUrl,
+            walletUrl,
+            explorerUrl,
+            mailCatcherInfo !== undefined ? mailCatcherInfo.publicHttpUrl.toString() : undefined,
+            validatorNodeResults,
+            usedImages,
+            testAccountResults,
+            contractResults,
+            serviceLinks,
+            databaseRoleResults,
+            clientConfigsResult,
+            nodeConfig,
+            timeline.getPhases(),
+        );
+
+        const serializeResultResult: Result<string, Error> = serializeResult(resultObj);
+        if (serializeResultResult.isErr()) {
+            return err(serializeResultResult.error);
+        }
+
+        log.info("Near module executed successfully")
+        return ok(serializeResultResult.value);
+    }
+}
+
+async function executeExportDbSnapshot(enclaveCtx: EnclaveContext): Promise<Result<string, Error>> {
+    const exportDbSnapshotResult: Result<DbSnapshotExportInfo, Error> = await exportDbSnapshot(enclaveCtx);
+    if (exportDbSnapshotResult.isErr()) {
+        return err(exportDbSnapshotResult.error);
+    }
+    const exportInfo: DbSnapshotExportInfo = exportDbSnapshotResult.value;
+    const resultObj: ExportDbSnapshotResult = new ExportDbSnapshotResult(
+        exportInfo.filesArtifactUuid,
+        exportInfo.filepaths,
+        exportInfo.indexerMigrationVersions,
+    );
+
+    const serializeResultResult: Result<string, Error> = serializeResult(resultObj);
+    if (serializeResultResult.isErr()) {
+        return err(serializeResultResult.error);
+    }
+
+    log.info("Near module exported the DB snapshot successfully")
+    return ok(serializeResultResult.value);
+}
+
+async function executeStatus(enclaveCtx: EnclaveContext): Promise<Result<string, Error>> {
+    const getNetworkStatusResult: Result<StatusResult, Error> = await getNetworkStatus(enclaveCtx);
+    if (getNetworkStatusResult.isErr()) {
+        return err(getNetworkStatusResult.error);
+    }
+
+    const serializeResultResult: Result<string, Error> = serializeResult(getNetworkStatusResult.value);
+    if (serializeResultResult.isErr()) {
+        return err(serializeResultResult.error);
+    }
+
+    log.info("Near module reported the network status successfully")
+    return ok(serializeResultResult.value);
+}
+
+// Validates the params & resolves everything that the start needs from them, so that bad params fail before (and
+//  without) anything in the enclave being touched
+function resolveStartConfig(executeParams: ExecuteParams): Result<StartConfig, Error> {
+    const generateLocalnetConfigsResult: Result<[NetworkIdentity, { [field: string]: any }, LocalnetNodeConfig[]], Error> = generateLocalnetConfigs(
+        executeParams.numValidatorNodes,
+        executeParams.genesis,
+        executeParams.nodeConfigOverrides,
+    );
+    if (generateLocalnetConfigsResult.isErr()) {
+        return err(generateLocalnetConfigsResult.error);
+    }
+    const [ networkIdentity, nodeConfig, localnetNodeConfigs ] = generateLocalnetConfigsResult.value;
+    log.info(`Network ID: '${networkIdentity.networkId}', account ID suffix: '${networkIdentity.accountIdSuffix}'`);
+    const firstNodeConfig: LocalnetNodeConfig = localnetNodeConfigs[0];
+
+    const validateTestAccountParamsResult: Result<null, Error> = validateTestAccountParams(
+        executeParams.accounts,
+        firstNodeConfig.validatorKey.account_id,
+    );
+    if (validateTestAccountParamsResult.isErr()) {
+        return err(validateTestAccountParamsResult.error);
+    }
+    const validateContractParamsResult: Result<null, Error> = validateContractParams(
+        executeParams.contracts,
+        firstNodeConfig.validatorKey.account_id,
+        executeParams.accounts,
+    );
+    if (validateContractParamsResult.isErr()) {
+        return err(validateContractParamsResult.error);
+    }
+
+    const resolveEnabledServicesResult: Result<Set<ServiceID>, Error> = resolveEnabledServices(
+        executeParams.profile,
+        executeParams.enabledServices,
+    );
+    if (resolveEnabledServicesResult.isErr()) {
+        return err(resolveEnabledServicesResult.error);
+    }
+    const enabledServices: Set<ServiceID> = resolveEnabledServicesResult.value;
+    log.info(`Optional services that will be started: ${JSON.stringify(Array.from(enabledServices))}`);
+
+    if (executeParams.dbSnapshot !== undefined && executeParams.externalPostgres !== undefined) {
+        return err(new Error("A DB snapshot can only be restored into the contract-helper-db service, not into an external Postgres"));
+    }
+    if (executeParams.dbSnapshot !== undefined && !enabledServices.has(CONTRACT_HELPER_DB_SERVICE_ID)) {
+        return err(new Error(`A DB snapshot was given, but the '${CONTRACT_HELPER_DB_SERVICE_ID}' service to restore it into isn't enabled`));
+    }
+
+    const resolveImagesResult: Result<{ [serviceKey: string]: string }, Error> = resolveImages(executeParams.images);
+    if (resolveImagesResult.isErr()) {
+        return err(resolveImagesResult.error);
+    }
+    const images: { [serviceKey: string]: string } = resolveImagesResult.value;
+
+    // The startup deadline counts from here, as nothing has been uploaded or started yet
+    const resolveRetryPoliciesResult: Result<{ [waitKey: string]: RetryPolicy }, Error> = resolveRetryPolicies(
+        executeParams.readinessTimeoutsMillis,
+        executeParams.retryPolicies,
+        executeParams.startupTimeoutMillis,
+        Date.now(),
+    );
+    if (resolveRetryPoliciesResult.isErr()) {
+        return err(resolveRetryPoliciesResult.error);
+    }
+    const retryPolicies: { [waitKey: string]: RetryPolicy } = resolveRetryPoliciesResult.value;
+
+    // Ports missing from here get allocated automatically
+    const resolvePublicPortsResult: Result<{ [portKey: string]: number }, Error> = resolvePublicPorts(
+        executeParams.autoAllocatePublicPorts,
+        executeParams.publicPorts,
+    );
+    if (resolvePublicPortsResult.isErr()) {
+        return err(resolvePublicPortsResult.error);
+    }
+    const publicPorts: { [portKey: string]: number } = resolvePublicPortsResult.value;
+
+    const resolveIndexerSyncConfigResult: Result<IndexerSyncConfig, Error> = resolveIndexerSyncConfig(executeParams.indexerSync);
+    if (resolveIndexerSyncConfigResult.isErr()) {
+        return err(resolveIndexerSyncConfigResult.error);
+    }
+    const indexerSyncConfig: IndexerSyncConfig = resolveIndexerSyncConfigResult.value;
+
+    const result: StartConfig = new StartConfig(
+        networkIdentity,
+        nodeConfig,
+        localnetNodeConfigs,
+        enabledServices,
+        images,
+        retryPolicies,
+        publicPorts,
+        indexerSyncConfig,
+    );
+    return ok(result);
+}
+
+function executeDryRun(executeParams: ExecuteParams, startConfig: StartConfig): Result<string, Error> {
+    const planStartResult: Result<DryRunResult, Error> = planStart(
+        executeParams,
+        startConfig.networkIdentity,
+        startConfig.nodeConfig,
+        startConfig.localnetNodeConfigs,
+        startConfig.enabledServices,
+        startConfig.images,
+        startConfig.publicPorts,
+        startConfig.indexerSyncConfig,
+    );
+    if (planStartResult.isErr()) {
+        return err(planStartResult.error);
+    }
+    const serializeResultResult: Result<string, Error> = serializeResult(planStartResult.value);
+    if (serializeResultResult.isErr()) {
+        return err(serializeResultResult.error);
+    }
+
+    log.info("Near module planned the services successfully, without starting them")
+    return ok(serializeResultResult.value);
+}
+
+// Works out every service that the start action would start, in the same order & with the same configs, without
+//  starting any of them; what's only known once a service is started (e.g. its IP address, or an automatically
+//  allocated public port) is a placeholder
+function planStart(
+    executeParams: ExecuteParams,
+    networkIdentity: NetworkIdentity,
+    nodeConfig: { [field: string]: any },
+    localnetNodeConfigs: LocalnetNodeConfig[],
+    enabledServices: Set<ServiceID>,
+    images: { [serviceKey: string]: string },
+    publicPorts: { [portKey: string]: number },
+    indexerSyncConfig: IndexerSyncConfig,
+): Result<DryRunResult, Error> {
+    const [ firstNodeConfig, ...extraValidatorNodeConfigs ] = localnetNodeConfigs;
+    const backendIpAddress: string = executeParams.backendIpAddress;
+    const plans: ServicePlan<any>[] = [];
+    const secrets: string[] = localnetNodeConfigs.map(localnetNodeConfig => localnetNodeConfig.validatorKey.secret_key);
+
+    if (executeParams.contracts.length > 0) {
+        plans.push(planFilesArtifactReader(
+            images[FILES_ARTIFACT_READER_SERVICE_ID],
+            executeParams.contracts.map(contract => new FilesArtifactFile(contract.filesArtifactUuid, contract.wasmFilepath)),
+        ));
+    }
+
+    let contractHelperDbInfo: ContractHelperDbInfo | undefined = undefined;
+    if (enabledServices.has(CONTRACT_HELPER_DB_SERVICE_ID) && executeParams.externalPostgres !== undefined) {
+        const planPostgresClientResult: Result<ServicePlan<ContractHelperDbInfo>, Error> = planPostgresClient(
+            images[POSTGRES_CLIENT_SERVICE_ID],
+            executeParams.externalPostgres,
+        );
+        if (planPostgresClientResult.isErr()) {
+            return err(planPostgresClientResult.error);
+        }
+        plans.push(planPostgresClientResult.value);
+        contractHelperDbInfo = planPostgresClientResult.value.info;
+        secrets.push(executeParams.externalPostgres.password);
+    } else if (enabledServices.has(CONTRACT_HELPER_DB_SERVICE_ID)) {
+        const planContractHelperDbResult: Result<ServicePlan<ContractHelperDbInfo>, Error> = planContractHelperDb(
+            images[CONTRACT_HELPER_DB_SERVICE_ID],
+            executeParams.dbSnapshot,
+        );
+        if (planContractHelperDbResult.isErr()) {
+            return err(planContractHelperDbResult.error);
+        }
+        const dbPlan: ServicePlan<ContractHelperDbInfo> = planContractHelperDbResult.value;
+        plans.push(dbPlan);
+        contractHelperDbInfo = dbPlan.info;
+        // The superuser's password is a fixed one, which is masked by its environment variable's name instead
+        for (const dbRole of [
+            dbPlan.info.readWriteRole,
+            dbPlan.info.explorerBackendReadOnlyRole,
+            dbPlan.info.explorerBackendTelemetryWriterRole,
+            dbPlan.info.contractHelperReadOnlyRole,
+        ]) {
+            secrets.push(dbRole.password);
+        }
+        // The indexer's migrations are checked against a restored indexer DB's with a throwaway service
+        if (enabledServices.has(INDEXER_SERVICE_ID) && dbPlan.postStartSettings.has(INDEXER_DB)) {
+            plans.push(planIndexerMigrationsReader(images[INDEXER_SERVICE_ID]));
+        }
+    }
+
+    let firstNodePrivateRpcUrl: ServiceUrl;
+    let firstNodePublicRpcUrl: ServiceUrl;
+    let firstNodePrivateGossipAddress: string;
+    const firstNodeLocalnetConfigFilesArtifactUuid: FilesArtifactUUID = getPlannedFilesArtifactUuid("localnet config of validator 0");
+    if (enabledServices.has(INDEXER_SERVICE_ID)) {
+        if (contractHelperDbInfo === undefined) {
+            return err(new Error("The indexer is enabled but the contract helper DB it depends on isn't; this is a bug in the module"));
+        }
+        const indexerPlan: ServicePlan<IndexerInfo> = planIndexer(
+            images[INDEXER_SERVICE_ID],
+            firstNodeLocalnetConfigFilesArtifactUuid,
+            firstNodeConfig.validatorKey,
             contractHelperDbInfo.privateUrl,
-            contractHelperDbInfo.dbUsername,
-            contractHelperDbInfo.dbUserPassword,
+            contractHelperDbInfo.readWriteRole.username,
+            contractHelperDbInfo.readWriteRole.password,
             contractHelperDbInfo.indexerDb,
+            indexerSyncConfig,
+            publicPorts[INDEXER_RPC_PUBLIC_PORT_KEY],
+            publicPorts[INDEXER_GOSSIP_PUBLIC_PORT_KEY],
+            backendIpAddress,
         );
-        if (addIndexerResult.isErr()) {
-            return err(addIndexerResult.error);
-        }
-        const indexerInfo: IndexerInfo = addIndexerResult.value;
+        plans.push(indexerPlan);
+        firstNodePrivateRpcUrl = indexerPlan.info.privateRpcUrl;
+        firstNodePublicRpcUrl = indexerPlan.info.publicRpcUrl;
+        firstNodePrivateGossipAddress = indexerPlan.info.privateGossipAddress;
+    } else {
+        const firstNodePlan: ServicePlan<ValidatorNodeInfo> = planValidatorNode(
+            images[VALIDATOR_NODE_SERVICE_TYPE],
+            0,
+            firstNodeLocalnetConfigFilesArtifactUuid,
+            NO_BOOT_NODES,
+            backendIpAddress,
+        );
+        plans.push(firstNodePlan);
+        firstNodePrivateRpcUrl = firstNodePlan.info.privateRpcUrl;
+        firstNodePublicRpcUrl = firstNodePlan.info.publicRpcUrl;
+        firstNodePrivateGossipAddress = firstNodePlan.info.privateGossipAddress;
+    }
 
-        const addContractHelperServiceResult: Result<ContractHelperServiceInfo, Error> = await addContractHelperService(
-            enclaveCtx,
+    const bootNodes: string = `${firstNodeConfig.nodePublicKey}@${firstNodePrivateGossipAddress}`;
+    for (let i: number = 0; i < extraValidatorNodeConfigs.length; i++) {
+        plans.push(planValidatorNode(
+            images[VALIDATOR_NODE_SERVICE_TYPE],
+            i + 1,
+            getPlannedFilesArtifactUuid(`localnet config of validator ${i + 1}`),
+            bootNodes,
+            backendIpAddress,
+        ));
+    }
+
+    // Services that link to the Wallet are planned with the link, which is how they end up even if they have to be
+    //  re-provisioned with it
+    let walletPublicUrl: ServiceUrl | undefined = undefined;
+    if (enabledServices.has(WALLET_SERVICE_ID)) {
+        const walletPublicPortNum: number | undefined = publicPorts[WALLET_PUBLIC_PORT_KEY];
+        walletPublicUrl = getWalletPublicUrlForFixedPort(
+            backendIpAddress,
+            walletPublicPortNum !== undefined ? walletPublicPortNum : PLANNED_AUTO_ALLOCATED_PUBLIC_PORT_NUM,
+        );
+    }
+
+    let mailCatcherPrivateSmtpUrl: ServiceUrl | undefined = undefined;
+    if (enabledServices.has(MAIL_CATCHER_SERVICE_ID)) {
+        const mailCatcherPlan: ServicePlan<MailCatcherInfo> = planMailCatcher(images[MAIL_CATCHER_SERVICE_ID], backendIpAddress);
+        plans.push(mailCatcherPlan);
+        mailCatcherPrivateSmtpUrl = mailCatcherPlan.info.privateSmtpUrl;
+    }
+
+    let contractHelperServiceInfo: ContractHelperServiceInfo | undefined = undefined;
+    if (enabledServices.has(CONTRACT_HELPER_SERVICE_ID)) {
+        if (contractHelperDbInfo === undefined) {
+            return err(new Error("The contract helper is enabled but the contract helper DB it depends on isn't; this is a bug in the module"));
+        }
+        const planContractHelperResult: Result<ServicePlan<ContractHelperServiceInfo>, Error> = planContractHelperService(
+            images[CONTRACT_HELPER_SERVICE_ID],
             contractHelperDbInfo.privateUrl,
-            contractHelperDbInfo.dbUsername,
-            contractHelperDbInfo.dbUserPassword,
+            contractHelperDbInfo.contractHelperReadOnlyRole.username,
+            contractHelperDbInfo.contractHelperReadOnlyRole.password,
             contractHelperDbInfo.indexerDb,
-            indexerInfo.privateRpcUrl,
-            indexerInfo.validatorKey,
+            backendIpAddress,
+            networkIdentity,
+            firstNodePrivateRpcUrl,
+            walletPublicUrl,
+            mailCatcherPrivateSmtpUrl,
+            mailCatcherPrivateSmtpUrl !== undefined ? getPlannedFilesArtifactUuid("SMS capture script") : undefined,
+            firstNodeConfig.validatorKey,
+            publicPorts[CONTRACT_HELPER_PUBLIC_PORT_KEY],
         );
-        if (addContractHelperServiceResult.isErr()) {
-            return err(addContractHelperServiceResult.error);
+        if (planContractHelperResult.isErr()) {
+            return err(planContractHelperResult.error);
         }
-        const contractHelperServiceInfo: ContractHelperServiceInfo = addContractHelperServiceResult.value;
+        plans.push(planContractHelperResult.value);
+        contractHelperServiceInfo = planContractHelperResult.value.info;
+    }
 
-        const addExplorerBackendResult: Result<ExplorerBackendInfo, Error> = await addExplorerBackendService(
-            enclaveCtx,
-            indexerInfo.privateRpcUrl,
+    let explorerBackendInfo: ExplorerBackendInfo | undefined = undefined;
+    if (enabledServices.has(EXPLORER_BACKEND_SERVICE_ID)) {
+        if (contractHelperDbInfo === undefined) {
+            return err(new Error("The explorer backend is enabled but the contract helper DB it depends on isn't; this is a bug in the module"));
+        }
+        const explorerBackendPlan: ServicePlan<ExplorerBackendInfo> = planExplorerBackendService(
+            images[EXPLORER_BACKEND_SERVICE_ID],
+            firstNodePrivateRpcUrl,
             contractHelperDbInfo.privateUrl,
-            contractHelperDbInfo.dbUsername,
-            contractHelperDbInfo.dbUserPassword,
+            contractHelperDbInfo.explorerBackendReadOnlyRole.username,
+            contractHelperDbInfo.explorerBackendReadOnlyRole.password,
+            contractHelperDbInfo.explorerBackendTelemetryWriterRole.username,
+            contractHelperDbInfo.explorerBackendTelemetryWriterRole.password,
             contractHelperDbInfo.indexerDb,
             contractHelperDbInfo.analyticsDb,
             contractHelperDbInfo.telemetryDb,
+            backendIpAddress,
         );
-        if (addExplorerBackendResult.isErr()) {
-            return err(addExplorerBackendResult.error);
-        }
-        const explorerBackendInfo = addExplorerBackendResult.value
+        plans.push(explorerBackendPlan);
+        explorerBackendInfo = explorerBackendPlan.info;
+    }
 
-        const addExplorerFrontendResult: Result<ExplorerFrontendInfo, Error> = await addExplorerFrontendService(
-            enclaveCtx,
-            executeParams.backendIpAddress,
+    let explorerFrontendInfo: ExplorerFrontendInfo | undefined = undefined;
+    if (enabledServices.has(EXPLORER_FRONTEND_SERVICE_ID)) {
+        if (explorerBackendInfo === undefined) {
+            return err(new Error("The explorer frontend is enabled but the explorer backend it depends on isn't; this is a bug in the module"));
+        }
+        const explorerFrontendPlan: ServicePlan<ExplorerFrontendInfo> = planExplorerFrontendService(
+            images[EXPLORER_FRONTEND_SERVICE_ID],
+            backendIpAddress,
+            networkIdentity,
             explorerBackendInfo.privateUrl,
             explorerBackendInfo.publicUrl,
+            walletPublicUrl,
+            publicPorts[EXPLORER_FRONTEND_PUBLIC_PORT_KEY],
         );
-        if (addExplorerFrontendResult.isErr()) {
-            return err(addExplorerFrontendResult.error);
-        }
-        const explorerFrontendInfo: ExplorerFrontendInfo = addExplorerFrontendResult.value;
+        plans.push(explorerFrontendPlan);
+        explorerFrontendInfo = explorerFrontendPlan.info;
+    }
 
-        const addWalletResult: Result<WalletInfo, Error> = await addWallet(
-            enclaveCtx,
-            executeParams.backendIpAddress,
-            indexerInfo.publicRpcUrl,
-            contractHelperServiceInfo.publicUrl,
-            explorerFrontendInfo.publicUrl,
-        );
-        if (addWalletResult.isErr()) {
-            return err(addWalletResult.error);
+    if (enabledServices.has(WALLET_SERVICE_ID)) {
+        if (contractHelperServiceInfo === undefined) {
+            return err(new Error("The wallet is enabled but the contract helper it depends on isn't; this is a bug in the module"));
         }
-        const walletInfo: WalletInfo = addWalletResult.value;
+        plans.push(planWallet(
+            images[WALLET_SERVICE_ID],
+            backendIpAddress,
+            networkIdentity,
+            firstNodePublicRpcUrl,
+            contractHelperServiceInfo.publicUrl,
+            explorerFrontendInfo !== undefined ? explorerFrontendInfo.publicUrl : undefined,
+            publicPorts[WALLET_PUBLIC_PORT_KEY],
+            getPlannedFilesArtifactUuid("Wallet JS variable injection script"),
+        ));
+    }
 
-        const resultObj: ExecuteResult = new ExecuteResult(
-            EXPLORER_WAMP_BACKEND_FRONTEND_SHARED_NETWORK_NAME,
-            indexerInfo.validatorKey,
-            indexerInfo.publicRpcUrl.toString(),
-            contractHelperServiceInfo.publicUrl.toString(),
-            walletInfo.publicUrl.toString(),
-            explorerFrontendInfo.publicUrl.toString(),
-        );
+    const result: DryRunResult = new DryRunResult(
+        networkIdentity.networkId,
+        networkIdentity.accountIdSuffix,
+        plans.map(plan => getServicePlanResult(plan, secrets)),
+        nodeConfig,
+    );
+    return ok(result);
+}
 
-        let stringResult;
-        try {
-            stringResult = JSON.stringify(resultObj, null, RESULT_JSON_PRETTY_PRINT_SPACE_NUM);
-        } catch (e: any) {
-            // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
-            // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
-            if (e && e.stack && e.message) {
-                return err(e as Error);
-            }
-            return err(new Error("Serializing the module result threw an exception, but " +
-                "it's not an Error so we can't report any more information than this"));
+function serializeResult(resultObj: ExecuteResult | ExportDbSnapshotResult | DryRunResult | StatusResult): Result<string, Error> {
+    try {
+        return ok(JSON.stringify(resultObj, null, RESULT_JSON_PRETTY_PRINT_SPACE_NUM));
+    } catch (e: any) {
+        // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
+        // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
+        if (e && e.stack && e.message) {
+            return err(e as Error);
         }
-
-        log.info("Near module executed successfully")
-        return ok(stringResult);
+        return err(new Error("Serializing the module result threw an exception, but " +
+            "it's not an Error so we can't report any more information than this"));
     }
+}
 
-    // ====================================================================================================
-    //                                       Private helper functions
-    // ====================================================================================================
+// Removes the services that the failed start launched (unless they're kept, for debugging), returning an error with both why
+//  the start failed & anything that went wrong cleaning up after it
+async function cleanUpFailedStart(
+    serviceLaunchTracker: ServiceLaunchTracker,
+    startError: Error,
+    keepOnFailure: boolean,
+): Promise<Error> {
+    if (keepOnFailure) {
+        const getLaunchedServiceIdsResult: Result<ServiceID[], Error> = await serviceLaunchTracker.getLaunchedServiceIds();
+        if (getLaunchedServiceIdsResult.isErr()) {
+            return new Error(
+                `${startError.message}\n\nThe services that were started are kept for debugging, but listing them failed: ${getLaunchedServiceIdsResult.error.message}`
+            );
+        }
+        const keptServiceIds: ServiceID[] = getLaunchedServiceIdsResult.value;
+        return new Error(
+            `${startError.message}\n\nThe services that were started are kept for debugging, and must be removed before starting again: ${JSON.stringify(keptServiceIds)}`
+        );
+    }
 
+    log.info("Removing the services that were started, as the start failed...");
+    const rollBackErrors: Error[] = await serviceLaunchTracker.rollBack();
+    if (rollBackErrors.length > 0) {
+        const rollBackErrorMessages: string[] = rollBackErrors.map((rollBackError: Error) => rollBackError.message);
+        return new Error(
+            `${startError.message}\n\nRemoving the services that were started also failed:\n * ${rollBackErrorMessages.join("\n * ")}`
+        );
+    }
+    return new Error(`${startError.message}\n\nThe services that were started have been removed`);
+}
 
+// Replaces a service that was started without its link to the Wallet with one that has it, on the same public port so
+//  that the links to it that other services (e.g. the Wallet) already have stay valid
+async function reprovisionWithWalletLink<T>(
+    enclaveCtx: EnclaveContext,
+    serviceId: ServiceID,
+    addService: WalletLinkedServiceAdder<T>,
+    currentPublicUrl: ServiceUrl,
+    walletPublicUrl: ServiceUrl,
+): Promise<Result<T, Error>> {
+    log.info(`Re-provisioning service '${serviceId}' with the link to the wallet...`);
+    const removeServiceResult: Result<null, Error> = await enclaveCtx.removeService(serviceId, REPROVISIONED_SERVICE_STOP_TIMEOUT_SECONDS);
+    if (removeServiceResult.isErr()) {
+        return err(removeServiceResult.error);
+    }
+    const addServiceResult: Result<T, Error> = await addService(walletPublicUrl, currentPublicUrl.portNumber);
+    if (addServiceResult.isErr()) {
+        return err(new Error(`Re-provisioning service '${serviceId}' with the link to the wallet failed: ${addServiceResult.error.message}`));
+    }
+    return ok(addServiceResult.value);
 }
\ No newline at end of file
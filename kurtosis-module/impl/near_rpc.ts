@@ -0,0 +1,170 @@
+import { Result, ok, err } from "neverthrow";
+import { HttpResponse, httpPostJson } from "./http_requests";
+import { ServiceUrl } from "./service_url";
+import { RetryPolicy, retryWithBackoff } from "./retry_policy";
+
+// Generous, because broadcast_tx_commit only returns once the transaction has been executed
+const REQUEST_TIMEOUT_MILLIS: number = 30_000;
+const HTTP_OK_STATUS_CODE: number = 200;
+const JSON_RPC_VERSION: string = "2.0";
+const JSON_RPC_REQUEST_ID: string = "dontcare";
+
+// Once a transaction is executed it takes a couple more blocks for it to become final
+export const DEFAULT_WAIT_FOR_FINALITY_TIMEOUT_MILLIS: number = 20_000;
+
+// Views are only read from final blocks, so that anything the module reports can't get rolled back
+const FINAL_BLOCK_FINALITY: string = "final";
+
+// The subset of the RPC's account view that the module uses
+export interface AccountView {
+    // Liquid balance, in yoctoNEAR, as a base-10 string
+    amount: string;
+    locked: string;
+    // Base58-encoded SHA-256 hash of the account's contract code
+    code_hash: string;
+}
+
+// The subset of the RPC's node status that the module uses
+export interface NodeStatus {
+    chain_id: string;
+    sync_info: {
+        latest_block_height: number;
+        // Whether the node is still catching up with the rest of the network
+        syncing: boolean;
+    };
+}
+
+// A client for the NEAR node JSON-RPC API (https://docs.near.org/api/rpc/introduction)
+export class NearRpcClient {
+    constructor(
+        private readonly rpcUrl: ServiceUrl,
+        // How long to wait for transactions' results to become final
+        private readonly finalityRetryPolicy: RetryPolicy,
+    ) {}
+
+    public async getStatus(): Promise<Result<NodeStatus, Error>> {
+        const callResult: Result<any, Error> = await this.call("status", []);
+        if (callResult.isErr()) {
+            return err(callResult.error);
+        }
+        const syncInfo: any = callResult.value.sync_info;
+        if (syncInfo === undefined || typeof syncInfo.latest_block_height !== "number" || typeof syncInfo.syncing !== "boolean") {
+            return err(new Error(`Status response has no sync info:\n${JSON.stringify(callResult.value)}`));
+        }
+        return ok(callResult.value as NodeStatus);
+    }
+
+    // Returns the base58-encoded hash of the latest final block
+    public async getFinalBlockHash(): Promise<Result<string, Error>> {
+        const callResult: Result<any, Error> = await this.call("block", { finality: FINAL_BLOCK_FINALITY });
+        if (callResult.isErr()) {
+            return err(callResult.error);
+        }
+        const blockHash: any = callResult.value.header !== undefined ? callResult.value.header.hash : undefined;
+        if (typeof blockHash !== "string") {
+            return err(new Error(`Block response has no block hash:\n${JSON.stringify(callResult.value)}`));
+        }
+        return ok(blockHash);
+    }
+
+    public async getAccessKeyNonce(accountId: string, publicKey: string): Promise<Result<number, Error>> {
+        const callResult: Result<any, Error> = await this.query({
+            request_type: "view_access_key",
+            finality: FINAL_BLOCK_FINALITY,
+            account_id: accountId,
+            public_key: publicKey,
+        });
+        if (callResult.isErr()) {
+            return err(callResult.error);
+        }
+        const nonce: any = callResult.value.nonce;
+        if (typeof nonce !== "number") {
+            return err(new Error(`Access key view for key '${publicKey}' of account '${accountId}' has no nonce:\n${JSON.stringify(callResult.value)}`));
+        }
+        return ok(nonce);
+    }
+
+    public async viewAccount(accountId: string): Promise<Result<AccountView, Error>> {
+        const callResult: Result<any, Error> = await this.query({
+            request_type: "view_account",
+            finality: FINAL_BLOCK_FINALITY,
+            account_id: accountId,
+        });
+        if (callResult.isErr()) {
+            return err(callResult.error);
+        }
+        return ok(callResult.value as AccountView);
+    }
+
+    // Waits for the account to show up in views of final blocks, which happens once the transaction that
+    //  created (or last modified) it is final
+    public async waitForFinalAccount(accountId: string): Promise<Result<AccountView, Error>> {
+        return retryWithBackoff(
+            `Viewing account '${accountId}' in a final block`,
+            this.finalityRetryPolicy,
+            () => this.viewAccount(accountId),
+        );
+    }
+
+    // Sends a base64-encoded signed transaction and waits for it to be executed, returning the transaction hash
+    // If the transaction failed, the error contains the failure of the receipt that failed
+    public async broadcastTxCommit(signedTransaction: string): Promise<Result<string, Error>> {
+        const callResult: Result<any, Error> = await this.call("broadcast_tx_commit", [ signedTransaction ]);
+        if (callResult.isErr()) {
+            return err(callResult.error);
+        }
+        const outcome: any = callResult.value;
+        const transactionHash: any = outcome.transaction !== undefined ? outcome.transaction.hash : undefined;
+        if (outcome.status === undefined || typeof transactionHash !== "string") {
+            return err(new Error(`Transaction outcome is missing its status or hash:\n${JSON.stringify(outcome)}`));
+        }
+        if (outcome.status.Failure !== undefined) {
+            return err(new Error(`Transaction '${transactionHash}' failed: ${JSON.stringify(outcome.status.Failure)}`));
+        }
+        return ok(transactionHash);
+    }
+
+    // Some query errors are reported in the result rather than as a JSON-RPC error, so this normalizes them
+    private async query(params: Object): Promise<Result<any, Error>> {
+        const callResult: Result<any, Error> = await this.call("query", params);
+        if (callResult.isErr()) {
+            return err(callResult.error);
+        }
+        if (typeof callResult.value.error === "string") {
+            return err(new Error(`Query with params '${JSON.stringify(params)}' failed: ${callResult.value.error}`));
+        }
+        return ok(callResult.value);
+    }
+
+    private async call(method: string, params: Object): Promise<Result<any, Error>> {
+        const url: string = this.rpcUrl.toString();
+        const requestBody: Object = {
+            jsonrpc: JSON_RPC_VERSION,
+            id: JSON_RPC_REQUEST_ID,
+            method: method,
+            params: params,
+        };
+        const requestResult: Result<HttpResponse, Error> = await httpPostJson(url, requestBody, REQUEST_TIMEOUT_MILLIS);
+        if (requestResult.isErr()) {
+            return err(requestResult.error);
+        }
+        const response: HttpResponse = requestResult.value;
+        if (response.statusCode !== HTTP_OK_STATUS_CODE) {
+            return err(new Error(`RPC method '${method}' at '${url}' returned HTTP status code ${response.statusCode} with body:\n${response.body}`));
+        }
+
+        let responseBody: any;
+        try {
+            responseBody = JSON.parse(response.body);
+        } catch (e: any) {
+            return err(new Error(`RPC method '${method}' at '${url}' returned a body that isn't valid JSON:\n${response.body}`));
+        }
+        if (responseBody.error !== undefined) {
+            return err(new Error(`RPC method '${method}' at '${url}' failed with error:\n${JSON.stringify(responseBody.error)}`));
+        }
+        if (responseBody.result === undefined || responseBody.result === null) {
+            return err(new Error(`RPC method '${method}' at '${url}' returned no result:\n${response.body}`));
+        }
+        return ok(responseBody.result);
+    }
+}
@@ -0,0 +1,10 @@
+// What identifies the network to the services on it, all of which must agree on it (e.g. the Wallet only accepts
+//  accounts ending in the suffix, and the Explorer looks up its settings by network name)
+export class NetworkIdentity {
+    constructor(
+        // The genesis chain ID, which every service uses as the network's ID/name (e.g. "localnet")
+        public readonly networkId: string,
+        // The root validator's account, which every account created through the Wallet is a subaccount of (e.g. "test.near")
+        public readonly accountIdSuffix: string,
+    ) {}
+}
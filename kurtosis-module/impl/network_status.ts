@@ -0,0 +1,217 @@
+import { EnclaveContext, ServiceContext, ServiceID } from "kurtosis-core-api-lib";
+import * as log from "loglevel";
+import { Result, ok, err } from "neverthrow";
+import { getIndexerDbLatestBlockHeight, SERVICE_ID as CONTRACT_HELPER_DB_SERVICE_ID } from "./services/contract_helper_db";
+import { RPC_PORT_ID as INDEXER_RPC_PORT_ID, RPC_PORT_PROTOCOL as INDEXER_RPC_PORT_PROTOCOL, SERVICE_ID as INDEXER_SERVICE_ID } from "./services/indexer";
+import {
+    getServiceId as getValidatorNodeServiceId,
+    RPC_PORT_ID as VALIDATOR_NODE_RPC_PORT_ID,
+    RPC_PORT_PROTOCOL as VALIDATOR_NODE_RPC_PORT_PROTOCOL,
+} from "./services/validator_node";
+import {
+    HTTP_PORT_ID as MAIL_CATCHER_HTTP_PORT_ID,
+    HTTP_PORT_PROTOCOL as MAIL_CATCHER_HTTP_PORT_PROTOCOL,
+    MESSAGES_API_PATH as MAIL_CATCHER_MESSAGES_API_PATH,
+    SERVICE_ID as MAIL_CATCHER_SERVICE_ID,
+} from "./services/mail_catcher";
+import {
+    PORT_ID as CONTRACT_HELPER_PORT_ID,
+    PORT_PROTOCOL as CONTRACT_HELPER_PORT_PROTOCOL,
+    SERVICE_ID as CONTRACT_HELPER_SERVICE_ID,
+} from "./services/contract_helper";
+import {
+    PORT_ID as EXPLORER_FRONTEND_PORT_ID,
+    PORT_PROTOCOL as EXPLORER_FRONTEND_PORT_PROTOCOL,
+    SERVICE_ID as EXPLORER_FRONTEND_SERVICE_ID,
+} from "./services/explorer_frontend";
+import { PORT_ID as WALLET_PORT_ID, PORT_PROTOCOL as WALLET_PORT_PROTOCOL, SERVICE_ID as WALLET_SERVICE_ID } from "./services/wallet";
+import { NearRpcClient, NodeStatus } from "./near_rpc";
+import { ACCOUNT_FINALITY_WAIT_KEY, resolveRetryPolicies } from "./retry_policies";
+import { RetryPolicy } from "./retry_policy";
+import { getPrivateAndPublicUrlsForPortId, ServiceUrl } from "./service_url";
+import { HttpOkProbe } from "./readiness/http_ok_probe";
+import { NodeStatusResult, ServiceStatusResult, StatusResult } from "./module_io/result";
+
+// How to probe one of the services that's reached over HTTP, the same way as its readiness probe does
+class HttpServiceProbeConfig {
+    constructor(
+        public readonly serviceId: ServiceID,
+        public readonly portId: string,
+        public readonly portProtocol: string,
+        // What gets requested, which needn't be what the service's reported URL points to
+        public readonly probePath: string,
+        // If false, any HTTP response at all means the service is healthy
+        public readonly isOkStatusRequired: boolean,
+    ) {}
+}
+
+// In the order they're started; the Explorer Backend has no endpoint to probe
+const HTTP_SERVICE_PROBE_CONFIGS: HttpServiceProbeConfig[] = [
+    new HttpServiceProbeConfig(MAIL_CATCHER_SERVICE_ID, MAIL_CATCHER_HTTP_PORT_ID, MAIL_CATCHER_HTTP_PORT_PROTOCOL, MAIL_CATCHER_MESSAGES_API_PATH, true),
+    new HttpServiceProbeConfig(CONTRACT_HELPER_SERVICE_ID, CONTRACT_HELPER_PORT_ID, CONTRACT_HELPER_PORT_PROTOCOL, "", false),
+    new HttpServiceProbeConfig(EXPLORER_FRONTEND_SERVICE_ID, EXPLORER_FRONTEND_PORT_ID, EXPLORER_FRONTEND_PORT_PROTOCOL, "", true),
+    new HttpServiceProbeConfig(WALLET_SERVICE_ID, WALLET_PORT_ID, WALLET_PORT_PROTOCOL, "", true),
+];
+
+// Probes every service of a network that the module already started in the enclave, once each; a service that fails
+//  its probe makes the network unhealthy rather than failing the whole status, which only fails when the enclave's
+//  services can't be looked up
+export async function getNetworkStatus(enclaveCtx: EnclaveContext): Promise<Result<StatusResult, Error>> {
+    const getServicesResult: Result<Set<ServiceID>, Error> = await enclaveCtx.getServices();
+    if (getServicesResult.isErr()) {
+        return err(new Error(`Couldn't list the enclave's services to report their status: ${getServicesResult.error.message}`));
+    }
+    const serviceIds: Set<ServiceID> = getServicesResult.value;
+
+    // The validator nodes are numbered from 0 when the indexer node isn't started, and from 1 when it is
+    const nodeServiceIds: ServiceID[] = [];
+    if (serviceIds.has(INDEXER_SERVICE_ID)) {
+        nodeServiceIds.push(INDEXER_SERVICE_ID);
+    }
+    for (let i: number = 0; i < serviceIds.size; i++) {
+        const validatorNodeServiceId: ServiceID = getValidatorNodeServiceId(i);
+        if (serviceIds.has(validatorNodeServiceId)) {
+            nodeServiceIds.push(validatorNodeServiceId);
+        }
+    }
+    if (nodeServiceIds.length === 0) {
+        return err(new Error(
+            `Couldn't find any NEAR node in the enclave; the module must have been started in this enclave for its status to be reported`
+        ));
+    }
+
+    // Nothing waits for finality, but the client needs a policy for it
+    const resolveRetryPoliciesResult: Result<{ [waitKey: string]: RetryPolicy }, Error> = resolveRetryPolicies({}, {}, undefined, Date.now());
+    if (resolveRetryPoliciesResult.isErr()) {
+        return err(resolveRetryPoliciesResult.error);
+    }
+    const finalityRetryPolicy: RetryPolicy = resolveRetryPoliciesResult.value[ACCOUNT_FINALITY_WAIT_KEY];
+
+    let networkName: string | undefined = undefined;
+    let isHealthy: boolean = true;
+    const nodeStatusResults: NodeStatusResult[] = [];
+    for (const serviceId of nodeServiceIds) {
+        const isIndexerNode: boolean = serviceId === INDEXER_SERVICE_ID;
+        const getUrlsResult: Result<[ServiceUrl, ServiceUrl], Error> = await getServiceUrls(
+            enclaveCtx,
+            serviceId,
+            isIndexerNode ? INDEXER_RPC_PORT_ID : VALIDATOR_NODE_RPC_PORT_ID,
+            isIndexerNode ? INDEXER_RPC_PORT_PROTOCOL : VALIDATOR_NODE_RPC_PORT_PROTOCOL,
+        );
+        if (getUrlsResult.isErr()) {
+            return err(getUrlsResult.error);
+        }
+        const [privateRpcUrl, publicRpcUrl] = getUrlsResult.value;
+
+        log.info(`Getting the status of node '${serviceId}'...`);
+        const getStatusResult: Result<NodeStatus, Error> = await new NearRpcClient(privateRpcUrl, finalityRetryPolicy).getStatus();
+        if (getStatusResult.isErr()) {
+            isHealthy = false;
+            nodeStatusResults.push(new NodeStatusResult(serviceId, publicRpcUrl.toString(), false, undefined, undefined, getStatusResult.error.message));
+            continue;
+        }
+        const nodeStatus: NodeStatus = getStatusResult.value;
+        if (networkName === undefined) {
+            networkName = nodeStatus.chain_id;
+        }
+        const isSyncing: boolean = nodeStatus.sync_info.syncing;
+        if (isSyncing) {
+            isHealthy = false;
+        }
+        nodeStatusResults.push(new NodeStatusResult(
+            serviceId,
+            publicRpcUrl.toString(),
+            !isSyncing,
+            nodeStatus.sync_info.latest_block_height,
+            isSyncing,
+            undefined,
+        ));
+    }
+
+    const serviceStatusResults: ServiceStatusResult[] = [];
+    let indexerDbLatestBlockHeight: number | undefined = undefined;
+    if (serviceIds.has(CONTRACT_HELPER_DB_SERVICE_ID)) {
+        const getServiceCtxResult: Result<ServiceContext, Error> = await enclaveCtx.getServiceContext(CONTRACT_HELPER_DB_SERVICE_ID);
+        if (getServiceCtxResult.isErr()) {
+            return err(getServiceCtxResult.error);
+        }
+        log.info(`Getting the latest block in the indexer DB...`);
+        const getLatestBlockHeightResult: Result<number | undefined, Error> = await getIndexerDbLatestBlockHeight(getServiceCtxResult.value);
+        if (getLatestBlockHeightResult.isErr()) {
+            isHealthy = false;
+            serviceStatusResults.push(new ServiceStatusResult(CONTRACT_HELPER_DB_SERVICE_ID, false, getLatestBlockHeightResult.error.message));
+        } else {
+            indexerDbLatestBlockHeight = getLatestBlockHeightResult.value;
+            serviceStatusResults.push(new ServiceStatusResult(CONTRACT_HELPER_DB_SERVICE_ID, true, undefined));
+        }
+    } else if (serviceIds.has(INDEXER_SERVICE_ID)) {
+        // The indexer writes to an external Postgres, whose credentials are only in the start's params
+        serviceStatusResults.push(new ServiceStatusResult(
+            CONTRACT_HELPER_DB_SERVICE_ID,
+            undefined,
+            `The indexer DB is not available to the status action with an external Postgres, so its latest block wasn't queried`,
+        ));
+    }
+
+    const publicUrls: Map<ServiceID, string> = new Map();
+    for (const probeConfig of HTTP_SERVICE_PROBE_CONFIGS) {
+        if (!serviceIds.has(probeConfig.serviceId)) {
+            continue;
+        }
+        const getUrlsResult: Result<[ServiceUrl, ServiceUrl], Error> = await getServiceUrls(
+            enclaveCtx,
+            probeConfig.serviceId,
+            probeConfig.portId,
+            probeConfig.portProtocol,
+        );
+        if (getUrlsResult.isErr()) {
+            return err(getUrlsResult.error);
+        }
+        const [privateUrl, publicUrl] = getUrlsResult.value;
+        publicUrls.set(probeConfig.serviceId, publicUrl.toString());
+
+        const probeUrl: ServiceUrl = new ServiceUrl(
+            privateUrl.protocol,
+            privateUrl.ipAddress,
+            privateUrl.portNumber,
+            probeConfig.probePath,
+        );
+        const probe: HttpOkProbe = new HttpOkProbe(probeConfig.serviceId, probeUrl, probeConfig.isOkStatusRequired);
+        log.info(`Running probe '${probe.getName()}'...`);
+        const checkResult: Result<null, Error> = await probe.check();
+        if (checkResult.isErr()) {
+            isHealthy = false;
+            serviceStatusResults.push(new ServiceStatusResult(probeConfig.serviceId, false, checkResult.error.message));
+            continue;
+        }
+        serviceStatusResults.push(new ServiceStatusResult(probeConfig.serviceId, true, undefined));
+    }
+
+    const result: StatusResult = new StatusResult(
+        networkName,
+        isHealthy,
+        nodeStatusResults[0].rpcUrl,
+        publicUrls.get(CONTRACT_HELPER_SERVICE_ID),
+        publicUrls.get(WALLET_SERVICE_ID),
+        publicUrls.get(EXPLORER_FRONTEND_SERVICE_ID),
+        publicUrls.get(MAIL_CATCHER_SERVICE_ID),
+        nodeStatusResults,
+        indexerDbLatestBlockHeight,
+        serviceStatusResults,
+    );
+    return ok(result);
+}
+
+// Returns the private & public URLs of the service's port
+async function getServiceUrls(
+    enclaveCtx: EnclaveContext,
+    serviceId: ServiceID,
+    portId: string,
+    portProtocol: string,
+): Promise<Result<[ServiceUrl, ServiceUrl], Error>> {
+    const getServiceCtxResult: Result<ServiceContext, Error> = await enclaveCtx.getServiceContext(serviceId);
+    if (getServiceCtxResult.isErr()) {
+        return err(new Error(`Couldn't get the context of service '${serviceId}' to report its status: ${getServiceCtxResult.error.message}`));
+    }
+    return getPrivateAndPublicUrlsForPortId(getServiceCtxResult.value, portId, portProtocol, "");
+}
@@ -0,0 +1,72 @@
+import { Result, ok, err } from "neverthrow";
+
+const OBJECT_JSON_TYPE: string = "object";
+
+// Fields that the module sets up itself, keyed by their dotted path in config.json
+const NON_OVERRIDABLE_FIELD_PATHS: Set<string> = new Set([
+    "genesis_file",
+    "genesis_records_file",
+    "validator_key_file",
+    "node_key_file",
+    // The services' ports are fixed, as they're what the port specs & the other services point at
+    "rpc.addr",
+    "network.addr",
+    // The boot nodes are passed on the command line, which takes precedence over the config
+    "network.boot_nodes",
+]);
+
+// Deep-merges the overrides into the NEAR node config (i.e. the parsed config.json), where objects are merged field
+//  by field & anything else (including arrays) replaces the existing value
+// Only fields that the config already has can be overridden, and only with a value of the same JSON type (unless the
+//  field is null), so that typos get reported rather than silently ignored by the node; every problem is reported at once
+export function applyNodeConfigOverrides(
+    config: { [field: string]: any },
+    overrides: { [field: string]: any },
+): Result<null, Error> {
+    const problems: string[] = [];
+    mergeOverrides(config, overrides, "", problems);
+    if (problems.length > 0) {
+        return err(new Error(`The node config overrides are invalid:\n * ${problems.join("\n * ")}`));
+    }
+    return ok(null);
+}
+
+function mergeOverrides(
+    target: { [field: string]: any },
+    overrides: { [field: string]: any },
+    pathPrefix: string,
+    problems: string[],
+): void {
+    for (const [field, value] of Object.entries(overrides)) {
+        const fieldPath: string = pathPrefix === "" ? field : `${pathPrefix}.${field}`;
+        if (NON_OVERRIDABLE_FIELD_PATHS.has(fieldPath)) {
+            problems.push(`Field '${fieldPath}' is set by the module, so it can't be overridden`);
+            continue;
+        }
+        if (!Object.prototype.hasOwnProperty.call(target, field)) {
+            const knownFields: string = Object.keys(target).join(", ");
+            problems.push(`Field '${fieldPath}' doesn't exist in the node config; known fields ${pathPrefix === "" ? "" : `of '${pathPrefix}' `}are: ${knownFields}`);
+            continue;
+        }
+        const existingValue: any = target[field];
+        if (getJsonType(existingValue) === OBJECT_JSON_TYPE && getJsonType(value) === OBJECT_JSON_TYPE) {
+            mergeOverrides(existingValue, value, fieldPath, problems);
+            continue;
+        }
+        if (existingValue !== null && getJsonType(existingValue) !== getJsonType(value)) {
+            problems.push(`Field '${fieldPath}' must be of type ${getJsonType(existingValue)}, but got ${getJsonType(value)}`);
+            continue;
+        }
+        target[field] = value;
+    }
+}
+
+function getJsonType(value: any): string {
+    if (value === null) {
+        return "null";
+    }
+    if (Array.isArray(value)) {
+        return "array";
+    }
+    return typeof value;
+}
@@ -0,0 +1,90 @@
+import { Result, ok, err } from "neverthrow";
+import {
+    DEFAULT_PUBLIC_PORT_NUM as CONTRACT_HELPER_DEFAULT_PUBLIC_PORT_NUM,
+    PORT_ID as CONTRACT_HELPER_PORT_ID,
+    SERVICE_ID as CONTRACT_HELPER_SERVICE_ID,
+} from "./services/contract_helper";
+import {
+    DEFAULT_PUBLIC_PORT_NUM as EXPLORER_FRONTEND_DEFAULT_PUBLIC_PORT_NUM,
+    PORT_ID as EXPLORER_FRONTEND_PORT_ID,
+    SERVICE_ID as EXPLORER_FRONTEND_SERVICE_ID,
+} from "./services/explorer_frontend";
+import {
+    DEFAULT_GOSSIP_PUBLIC_PORT_NUM as INDEXER_DEFAULT_GOSSIP_PUBLIC_PORT_NUM,
+    DEFAULT_RPC_PUBLIC_PORT_NUM as INDEXER_DEFAULT_RPC_PUBLIC_PORT_NUM,
+    GOSSIP_PORT_ID as INDEXER_GOSSIP_PORT_ID,
+    RPC_PORT_ID as INDEXER_RPC_PORT_ID,
+    SERVICE_ID as INDEXER_SERVICE_ID,
+} from "./services/indexer";
+import {
+    DEFAULT_PUBLIC_PORT_NUM as WALLET_DEFAULT_PUBLIC_PORT_NUM,
+    PORT_ID as WALLET_PORT_ID,
+    SERVICE_ID as WALLET_SERVICE_ID,
+} from "./services/wallet";
+
+// A public port setting of 0 means "let Docker pick a free port", the same as when binding a socket
+const AUTO_ALLOCATED_PUBLIC_PORT_NUM: number = 0;
+const MAX_PORT_NUM: number = 65535;
+
+// Public ports are keyed by "<service ID>.<port ID>"
+export const CONTRACT_HELPER_PUBLIC_PORT_KEY: string = `${CONTRACT_HELPER_SERVICE_ID}.${CONTRACT_HELPER_PORT_ID}`;
+export const EXPLORER_FRONTEND_PUBLIC_PORT_KEY: string = `${EXPLORER_FRONTEND_SERVICE_ID}.${EXPLORER_FRONTEND_PORT_ID}`;
+export const INDEXER_RPC_PUBLIC_PORT_KEY: string = `${INDEXER_SERVICE_ID}.${INDEXER_RPC_PORT_ID}`;
+export const INDEXER_GOSSIP_PUBLIC_PORT_KEY: string = `${INDEXER_SERVICE_ID}.${INDEXER_GOSSIP_PORT_ID}`;
+export const WALLET_PUBLIC_PORT_KEY: string = `${WALLET_SERVICE_ID}.${WALLET_PORT_ID}`;
+
+// The ports that have always been used, so that the URLs of a default run don't change; every other public port (e.g.
+//  those of the plain validator nodes & the Explorer Backend) is always allocated automatically
+const DEFAULT_PUBLIC_PORTS: Map<string, number> = new Map([
+    [CONTRACT_HELPER_PUBLIC_PORT_KEY, CONTRACT_HELPER_DEFAULT_PUBLIC_PORT_NUM],
+    [EXPLORER_FRONTEND_PUBLIC_PORT_KEY, EXPLORER_FRONTEND_DEFAULT_PUBLIC_PORT_NUM],
+    [INDEXER_RPC_PUBLIC_PORT_KEY, INDEXER_DEFAULT_RPC_PUBLIC_PORT_NUM],
+    [INDEXER_GOSSIP_PUBLIC_PORT_KEY, INDEXER_DEFAULT_GOSSIP_PUBLIC_PORT_NUM],
+    [WALLET_PUBLIC_PORT_KEY, WALLET_DEFAULT_PUBLIC_PORT_NUM],
+]);
+
+// The keys that the "publicPorts" execute param accepts
+export const PUBLIC_PORT_KEYS: string[] = Array.from(DEFAULT_PUBLIC_PORTS.keys());
+
+// Applies the user's public port overrides on top of the defaults (or on top of nothing, if every port should be
+//  allocated automatically), returning only the ports that are fixed; a port that's missing gets allocated automatically
+export function resolvePublicPorts(
+    autoAllocatePublicPorts: boolean,
+    publicPortOverrides: { [portKey: string]: number },
+): Result<{ [portKey: string]: number }, Error> {
+    const resolvedPorts: Map<string, number> = new Map();
+    if (!autoAllocatePublicPorts) {
+        for (const [portKey, portNum] of DEFAULT_PUBLIC_PORTS.entries()) {
+            resolvedPorts.set(portKey, portNum);
+        }
+    }
+    for (const [portKey, portNum] of Object.entries(publicPortOverrides)) {
+        if (!DEFAULT_PUBLIC_PORTS.has(portKey)) {
+            return err(new Error(
+                `Cannot set the public port of unrecognized port '${portKey}'; valid ports are: ${PUBLIC_PORT_KEYS.join(", ")}`
+            ));
+        }
+        if (!Number.isInteger(portNum) || portNum < AUTO_ALLOCATED_PUBLIC_PORT_NUM || portNum > MAX_PORT_NUM) {
+            return err(new Error(
+                `The public port for '${portKey}' must be an integer between 1 and ${MAX_PORT_NUM} (or ${AUTO_ALLOCATED_PUBLIC_PORT_NUM} to allocate it automatically), but was '${portNum}'`
+            ));
+        }
+        if (portNum === AUTO_ALLOCATED_PUBLIC_PORT_NUM) {
+            resolvedPorts.delete(portKey);
+        } else {
+            resolvedPorts.set(portKey, portNum);
+        }
+    }
+
+    const result: { [portKey: string]: number } = {};
+    const portKeysByNum: Map<number, string> = new Map();
+    for (const [portKey, portNum] of resolvedPorts.entries()) {
+        const clashingPortKey: string | undefined = portKeysByNum.get(portNum);
+        if (clashingPortKey !== undefined) {
+            return err(new Error(`Ports '${clashingPortKey}' and '${portKey}' can't both use public port ${portNum}`));
+        }
+        portKeysByNum.set(portNum, portKey);
+        result[portKey] = portNum;
+    }
+    return ok(result);
+}
@@ -0,0 +1,34 @@
+import { Result, ok, err } from "neverthrow";
+import { HttpResponse, httpGet } from "../http_requests";
+import { ServiceUrl } from "../service_url";
+import { ReadinessProbe } from "./readiness_probe";
+
+const REQUEST_TIMEOUT_MILLIS: number = 2_000;
+const HTTP_OK_STATUS_CODE: number = 200;
+
+// Passes once an HTTP GET against the service returns the expected status code
+export class HttpOkProbe implements ReadinessProbe {
+    constructor(
+        private readonly serviceId: string,
+        private readonly privateUrl: ServiceUrl,
+        // If false, any HTTP response at all passes the probe (for services without an endpoint that returns 200)
+        private readonly isOkStatusRequired: boolean,
+    ) {}
+
+    public getName(): string {
+        return `${this.serviceId} HTTP GET`;
+    }
+
+    public async check(): Promise<Result<null, Error>> {
+        const url: string = this.privateUrl.toString();
+        const requestResult: Result<HttpResponse, Error> = await httpGet(url, REQUEST_TIMEOUT_MILLIS);
+        if (requestResult.isErr()) {
+            return err(requestResult.error);
+        }
+        const response: HttpResponse = requestResult.value;
+        if (this.isOkStatusRequired && response.statusCode !== HTTP_OK_STATUS_CODE) {
+            return err(new Error(`GET '${url}' returned HTTP status code ${response.statusCode} rather than ${HTTP_OK_STATUS_CODE}`));
+        }
+        return ok(null);
+    }
+}
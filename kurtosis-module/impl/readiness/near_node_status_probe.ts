@@ -0,0 +1,52 @@
+import { Result, ok, err } from "neverthrow";
+import { HttpResponse, httpPostJson } from "../http_requests";
+import { ServiceUrl } from "../service_url";
+import { ReadinessProbe } from "./readiness_probe";
+
+const REQUEST_TIMEOUT_MILLIS: number = 2_000;
+const STATUS_REQUEST_BODY: Object = {
+    jsonrpc: "2.0",
+    id: "dontcare",
+    method: "status",
+    params: [],
+};
+const HTTP_OK_STATUS_CODE: number = 200;
+
+// Passes once the NEAR node answers the JSON-RPC 'status' call with a latest block height of at least the minimum
+// A minimum of 1 means the node has produced (or synced) a block beyond genesis, while a minimum of 0 only
+//  requires the node to be up - which is all that can be expected of a validator in a multi-validator network,
+//  as no blocks get produced until enough of the other validators have joined
+export class NearNodeStatusProbe implements ReadinessProbe {
+    constructor(
+        private readonly serviceId: string,
+        private readonly privateRpcUrl: ServiceUrl,
+        private readonly minLatestBlockHeight: number,
+    ) {}
+
+    public getName(): string {
+        return `${this.serviceId} JSON-RPC status`;
+    }
+
+    public async check(): Promise<Result<null, Error>> {
+        const url: string = this.privateRpcUrl.toString();
+        const requestResult: Result<HttpResponse, Error> = await httpPostJson(url, STATUS_REQUEST_BODY, REQUEST_TIMEOUT_MILLIS);
+        if (requestResult.isErr()) {
+            return err(requestResult.error);
+        }
+        const response: HttpResponse = requestResult.value;
+        if (response.statusCode !== HTTP_OK_STATUS_CODE) {
+            return err(new Error(`Status call to '${url}' returned HTTP status code ${response.statusCode} with body:\n${response.body}`));
+        }
+
+        let latestBlockHeight: any;
+        try {
+            latestBlockHeight = JSON.parse(response.body).result.sync_info.latest_block_height;
+        } catch (e: any) {
+            return err(new Error(`Couldn't extract the latest block height from status call response body:\n${response.body}`));
+        }
+        if (typeof latestBlockHeight !== "number" || latestBlockHeight < this.minLatestBlockHeight) {
+            return err(new Error(`Node's latest block height is '${latestBlockHeight}', but must be at least ${this.minLatestBlockHeight}`));
+        }
+        return ok(null);
+    }
+}
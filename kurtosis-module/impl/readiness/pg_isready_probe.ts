@@ -0,0 +1,33 @@
+import { ServiceContext } from "kurtosis-core-api-lib";
+import { Result, ok, err } from "neverthrow";
+import { EXEC_COMMAND_SUCCESS_EXIT_CODE } from "../consts";
+import { ReadinessProbe } from "./readiness_probe";
+
+// Passes once 'pg_isready', run inside the Postgres container, reports that the server is accepting connections
+export class PgIsReadyProbe implements ReadinessProbe {
+    constructor(
+        private readonly serviceCtx: ServiceContext,
+        private readonly username: string,
+    ) {}
+
+    public getName(): string {
+        return `${this.serviceCtx.getServiceID()} pg_isready`;
+    }
+
+    public async check(): Promise<Result<null, Error>> {
+        const pgIsReadyCmd: string[] = [
+            "pg_isready",
+            "-U",
+            this.username,
+        ];
+        const execCmdResult: Result<[number, string], Error> = await this.serviceCtx.execCommand(pgIsReadyCmd);
+        if (execCmdResult.isErr()) {
+            return err(execCmdResult.error);
+        }
+        const [exitCode, logOutput] = execCmdResult.value;
+        if (exitCode !== EXEC_COMMAND_SUCCESS_EXIT_CODE) {
+            return err(new Error(`Command '${pgIsReadyCmd.join(" ")}' exited with code ${exitCode} and logs:\n${logOutput}`));
+        }
+        return ok(null);
+    }
+}
@@ -0,0 +1,27 @@
+import * as log from "loglevel";
+import { Result, ok, err } from "neverthrow";
+import { RetryPolicy, retryWithBackoff } from "../retry_policy";
+
+// A check of whether a service is actually usable, rather than merely started
+export interface ReadinessProbe {
+    // Human-readable name that identifies the probe in logs & errors, e.g. "indexer-node JSON-RPC status"
+    getName(): string;
+
+    // Returns an error describing why the service isn't ready yet
+    check(): Promise<Result<null, Error>>;
+}
+
+// Runs the probe repeatedly until it passes, failing if it doesn't pass before the retry policy gives up
+export async function waitForReadiness(probe: ReadinessProbe, retryPolicy: RetryPolicy): Promise<Result<null, Error>> {
+    log.info(`Waiting up to ${retryPolicy.timeoutMillis}ms for readiness probe '${probe.getName()}' to pass...`);
+    const checkResult: Result<null, Error> = await retryWithBackoff(
+        `Readiness probe '${probe.getName()}'`,
+        retryPolicy,
+        () => probe.check(),
+    );
+    if (checkResult.isErr()) {
+        return err(checkResult.error);
+    }
+    log.info(`Readiness probe '${probe.getName()}' passed`);
+    return ok(null);
+}
@@ -0,0 +1,127 @@
+import { Result, ok, err } from "neverthrow";
+import { DEFAULT_READINESS_TIMEOUT_MILLIS as CONTRACT_HELPER_DB_DEFAULT_TIMEOUT, SERVICE_ID as CONTRACT_HELPER_DB_SERVICE_ID } from "./services/contract_helper_db";
+import {
+    DEFAULT_GET_VALIDATOR_KEY_TIMEOUT_MILLIS,
+    DEFAULT_READINESS_TIMEOUT_MILLIS as INDEXER_DEFAULT_TIMEOUT,
+    SERVICE_ID as INDEXER_SERVICE_ID,
+} from "./services/indexer";
+import { DEFAULT_READINESS_TIMEOUT_MILLIS as VALIDATOR_NODE_DEFAULT_TIMEOUT, SERVICE_TYPE as VALIDATOR_NODE_SERVICE_TYPE } from "./services/validator_node";
+import { DEFAULT_READINESS_TIMEOUT_MILLIS as CONTRACT_HELPER_DEFAULT_TIMEOUT, SERVICE_ID as CONTRACT_HELPER_SERVICE_ID } from "./services/contract_helper";
+import { DEFAULT_READINESS_TIMEOUT_MILLIS as EXPLORER_FRONTEND_DEFAULT_TIMEOUT, SERVICE_ID as EXPLORER_FRONTEND_SERVICE_ID } from "./services/explorer_frontend";
+import { DEFAULT_READINESS_TIMEOUT_MILLIS as WALLET_DEFAULT_TIMEOUT, SERVICE_ID as WALLET_SERVICE_ID } from "./services/wallet";
+import { DEFAULT_READINESS_TIMEOUT_MILLIS as MAIL_CATCHER_DEFAULT_TIMEOUT, SERVICE_ID as MAIL_CATCHER_SERVICE_ID } from "./services/mail_catcher";
+import { DEFAULT_WAIT_FOR_FINALITY_TIMEOUT_MILLIS } from "./near_rpc";
+import {
+    DEFAULT_BACKOFF_MULTIPLIER,
+    DEFAULT_INITIAL_BACKOFF_MILLIS,
+    DEFAULT_MAX_BACKOFF_MILLIS,
+    RetryPolicy,
+} from "./retry_policy";
+import { RetryPolicyParams } from "./module_io/params";
+
+// The waits that aren't for a service to become ready
+// Reading the indexer node's generated validator key, which only exists once the node has initialized
+export const INDEXER_VALIDATOR_KEY_WAIT_KEY: string = "indexer-validator-key";
+// A created test account or deployed contract showing up in a final block
+export const ACCOUNT_FINALITY_WAIT_KEY: string = "account-finality";
+
+// Keyed the same way as the image overrides; the Explorer Backend has no readiness probe, so isn't listed
+const DEFAULT_READINESS_TIMEOUTS_MILLIS: Map<string, number> = new Map([
+    [CONTRACT_HELPER_DB_SERVICE_ID, CONTRACT_HELPER_DB_DEFAULT_TIMEOUT],
+    [INDEXER_SERVICE_ID, INDEXER_DEFAULT_TIMEOUT],
+    [VALIDATOR_NODE_SERVICE_TYPE, VALIDATOR_NODE_DEFAULT_TIMEOUT],
+    [CONTRACT_HELPER_SERVICE_ID, CONTRACT_HELPER_DEFAULT_TIMEOUT],
+    [EXPLORER_FRONTEND_SERVICE_ID, EXPLORER_FRONTEND_DEFAULT_TIMEOUT],
+    [WALLET_SERVICE_ID, WALLET_DEFAULT_TIMEOUT],
+    [MAIL_CATCHER_SERVICE_ID, MAIL_CATCHER_DEFAULT_TIMEOUT],
+]);
+
+// The keys that the "readinessTimeoutsMillis" execute param accepts
+export const READINESS_TIMEOUT_SERVICE_KEYS: string[] = Array.from(DEFAULT_READINESS_TIMEOUTS_MILLIS.keys());
+
+// The timeout of every wait loop, keyed by what it waits for: either a service's readiness or one of the other waits
+const DEFAULT_WAIT_TIMEOUTS_MILLIS: Map<string, number> = new Map([
+    ...Array.from(DEFAULT_READINESS_TIMEOUTS_MILLIS.entries()),
+    [INDEXER_VALIDATOR_KEY_WAIT_KEY, DEFAULT_GET_VALIDATOR_KEY_TIMEOUT_MILLIS],
+    [ACCOUNT_FINALITY_WAIT_KEY, DEFAULT_WAIT_FOR_FINALITY_TIMEOUT_MILLIS],
+]);
+
+// The keys that the "retryPolicies" execute param accepts
+export const RETRY_POLICY_WAIT_KEYS: string[] = Array.from(DEFAULT_WAIT_TIMEOUTS_MILLIS.keys());
+
+// Applies the user's readiness timeout & retry policy overrides on top of the defaults, giving every policy the
+//  startup deadline (if there's a startup timeout, counted from the given start time)
+export function resolveRetryPolicies(
+    timeoutOverridesMillis: { [serviceKey: string]: number },
+    retryPolicyOverrides: { [waitKey: string]: RetryPolicyParams },
+    startupTimeoutMillis: number | undefined,
+    startMillis: number,
+): Result<{ [waitKey: string]: RetryPolicy }, Error> {
+    for (const [serviceKey, timeoutMillis] of Object.entries(timeoutOverridesMillis)) {
+        if (!DEFAULT_READINESS_TIMEOUTS_MILLIS.has(serviceKey)) {
+            return err(new Error(
+                `Cannot override the readiness timeout of unrecognized service '${serviceKey}'; valid services are: ${READINESS_TIMEOUT_SERVICE_KEYS.join(", ")}`
+            ));
+        }
+        if (!isPositiveInteger(timeoutMillis)) {
+            return err(new Error(`The readiness timeout for service '${serviceKey}' must be a positive integer number of milliseconds, but was '${timeoutMillis}'`));
+        }
+    }
+    for (const [waitKey, overrides] of Object.entries(retryPolicyOverrides)) {
+        if (!DEFAULT_WAIT_TIMEOUTS_MILLIS.has(waitKey)) {
+            return err(new Error(
+                `Cannot override the retry policy of unrecognized wait '${waitKey}'; valid waits are: ${RETRY_POLICY_WAIT_KEYS.join(", ")}`
+            ));
+        }
+        if (overrides.timeoutMillis !== undefined && timeoutOverridesMillis[waitKey] !== undefined) {
+            return err(new Error(`The timeout of '${waitKey}' is set in both the readiness timeouts & the retry policies; only one can be used`));
+        }
+        const millisOverrides: Map<string, number | undefined> = new Map([
+            ["timeoutMillis", overrides.timeoutMillis],
+            ["initialBackoffMillis", overrides.initialBackoffMillis],
+            ["maxBackoffMillis", overrides.maxBackoffMillis],
+        ]);
+        for (const [field, millis] of millisOverrides.entries()) {
+            if (millis !== undefined && !isPositiveInteger(millis)) {
+                return err(new Error(`The '${field}' of the '${waitKey}' retry policy must be a positive integer number of milliseconds, but was '${millis}'`));
+            }
+        }
+        if (overrides.backoffMultiplier !== undefined && !(overrides.backoffMultiplier >= 1)) {
+            return err(new Error(`The backoff multiplier of the '${waitKey}' retry policy must be at least 1, but was '${overrides.backoffMultiplier}'`));
+        }
+    }
+    if (startupTimeoutMillis !== undefined && !isPositiveInteger(startupTimeoutMillis)) {
+        return err(new Error(`The startup timeout must be a positive integer number of milliseconds, but was '${startupTimeoutMillis}'`));
+    }
+    const startupDeadlineMillis: number | undefined = startupTimeoutMillis !== undefined ? startMillis + startupTimeoutMillis : undefined;
+
+    const result: { [waitKey: string]: RetryPolicy } = {};
+    for (const [waitKey, defaultTimeoutMillis] of DEFAULT_WAIT_TIMEOUTS_MILLIS.entries()) {
+        const overrides: RetryPolicyParams = retryPolicyOverrides[waitKey] !== undefined ? retryPolicyOverrides[waitKey] : new RetryPolicyParams();
+        let timeoutMillis: number = defaultTimeoutMillis;
+        if (timeoutOverridesMillis[waitKey] !== undefined) {
+            timeoutMillis = timeoutOverridesMillis[waitKey];
+        } else if (overrides.timeoutMillis !== undefined) {
+            timeoutMillis = overrides.timeoutMillis;
+        }
+        const initialBackoffMillis: number = overrides.initialBackoffMillis !== undefined ? overrides.initialBackoffMillis : DEFAULT_INITIAL_BACKOFF_MILLIS;
+        const maxBackoffMillis: number = overrides.maxBackoffMillis !== undefined ? overrides.maxBackoffMillis : DEFAULT_MAX_BACKOFF_MILLIS;
+        if (maxBackoffMillis < initialBackoffMillis) {
+            return err(new Error(
+                `The max backoff of the '${waitKey}' retry policy (${maxBackoffMillis}ms) can't be less than its initial backoff (${initialBackoffMillis}ms)`
+            ));
+        }
+        result[waitKey] = new RetryPolicy(
+            timeoutMillis,
+            initialBackoffMillis,
+            overrides.backoffMultiplier !== undefined ? overrides.backoffMultiplier : DEFAULT_BACKOFF_MULTIPLIER,
+            maxBackoffMillis,
+            startupDeadlineMillis,
+        );
+    }
+    return ok(result);
+}
+
+function isPositiveInteger(value: number): boolean {
+    return Number.isInteger(value) && value > 0;
+}
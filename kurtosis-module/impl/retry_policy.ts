@@ -0,0 +1,69 @@
+import * as log from "loglevel";
+import { Result, ok, err } from "neverthrow";
+
+// The wait after the first failed attempt grows by the multiplier after each further one, up to the max, so that short
+//  waits stay responsive while long ones don't keep hammering a service that's still starting
+export const DEFAULT_INITIAL_BACKOFF_MILLIS: number = 500;
+export const DEFAULT_BACKOFF_MULTIPLIER: number = 1.5;
+export const DEFAULT_MAX_BACKOFF_MILLIS: number = 2_000;
+
+// How a wait loop retries until what it's waiting for succeeds
+export class RetryPolicy {
+    constructor(
+        // How long to keep retrying for, counted from the first attempt
+        public readonly timeoutMillis: number,
+        public readonly initialBackoffMillis: number,
+        // What the wait between attempts gets multiplied by after each failed attempt
+        public readonly backoffMultiplier: number,
+        public readonly maxBackoffMillis: number,
+        // When the whole start has to be done by (in milliseconds since the epoch), which cuts the wait short if it
+        //  comes before the timeout; undefined if there's no such deadline
+        public readonly startupDeadlineMillis: number | undefined,
+    ) {}
+}
+
+// Makes attempts until one succeeds, failing once the policy's timeout or the startup deadline (whichever comes first)
+//  has passed; at least one attempt is always made
+export async function retryWithBackoff<T>(
+    // What's being attempted, for logs & errors, e.g. "Readiness probe 'wallet HTTP'"
+    description: string,
+    policy: RetryPolicy,
+    attempt: () => Promise<Result<T, Error>>,
+): Promise<Result<T, Error>> {
+    const startMillis: number = Date.now();
+    let deadlineMillis: number = startMillis + policy.timeoutMillis;
+    let isCutShortByStartupDeadline: boolean = false;
+    if (policy.startupDeadlineMillis !== undefined && policy.startupDeadlineMillis < deadlineMillis) {
+        deadlineMillis = policy.startupDeadlineMillis;
+        isCutShortByStartupDeadline = true;
+    }
+
+    let numAttempts: number = 0;
+    let backoffMillis: number = policy.initialBackoffMillis;
+    let lastAttemptError: Error | undefined = undefined;
+    // The wait before the last attempt is cut short so that it happens right at the deadline
+    while (true) {
+        numAttempts++;
+        const attemptResult: Result<T, Error> = await attempt();
+        if (attemptResult.isOk()) {
+            return ok(attemptResult.value);
+        }
+        lastAttemptError = attemptResult.error;
+        log.debug(`${description} attempt #${numAttempts} failed:\n${lastAttemptError.message}`);
+
+        const remainingMillis: number = deadlineMillis - Date.now();
+        if (remainingMillis <= 0) {
+            break;
+        }
+        await new Promise(resolve => setTimeout(resolve, Math.min(backoffMillis, remainingMillis)));
+        backoffMillis = Math.min(backoffMillis * policy.backoffMultiplier, policy.maxBackoffMillis);
+    }
+
+    const lastAttemptErrorMsg: string = lastAttemptError !== undefined ? lastAttemptError.message : "";
+    const deadlineDescription: string = isCutShortByStartupDeadline ? "before the startup deadline" : `within ${policy.timeoutMillis}ms`;
+    return err(new Error(
+        `${description} didn't succeed ${deadlineDescription} (${numAttempts} attempts over ${Date.now() - startMillis}ms, ` +
+            `backing off from ${policy.initialBackoffMillis}ms up to ${policy.maxBackoffMillis}ms between attempts); ` +
+            `the last attempt failed with:\n${lastAttemptErrorMsg}`
+    ));
+}
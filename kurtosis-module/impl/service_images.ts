@@ -0,0 +1,50 @@
+import { Result, ok, err } from "neverthrow";
+import { DEFAULT_IMAGE as CONTRACT_HELPER_DB_DEFAULT_IMAGE, SERVICE_ID as CONTRACT_HELPER_DB_SERVICE_ID } from "./services/contract_helper_db";
+import { DEFAULT_IMAGE as INDEXER_DEFAULT_IMAGE, SERVICE_ID as INDEXER_SERVICE_ID } from "./services/indexer";
+import { DEFAULT_IMAGE as VALIDATOR_NODE_DEFAULT_IMAGE, SERVICE_TYPE as VALIDATOR_NODE_SERVICE_TYPE } from "./services/validator_node";
+import { DEFAULT_IMAGE as CONTRACT_HELPER_DEFAULT_IMAGE, SERVICE_ID as CONTRACT_HELPER_SERVICE_ID } from "./services/contract_helper";
+import { DEFAULT_IMAGE as EXPLORER_BACKEND_DEFAULT_IMAGE, SERVICE_ID as EXPLORER_BACKEND_SERVICE_ID } from "./services/explorer_backend";
+import { DEFAULT_IMAGE as EXPLORER_FRONTEND_DEFAULT_IMAGE, SERVICE_ID as EXPLORER_FRONTEND_SERVICE_ID } from "./services/explorer_frontend";
+import { DEFAULT_IMAGE as WALLET_DEFAULT_IMAGE, SERVICE_ID as WALLET_SERVICE_ID } from "./services/wallet";
+import { DEFAULT_IMAGE as MAIL_CATCHER_DEFAULT_IMAGE, SERVICE_ID as MAIL_CATCHER_SERVICE_ID } from "./services/mail_catcher";
+import { DEFAULT_IMAGE as FILES_ARTIFACT_READER_DEFAULT_IMAGE, SERVICE_ID as FILES_ARTIFACT_READER_SERVICE_ID } from "./services/files_artifact_reader";
+import { DEFAULT_IMAGE as POSTGRES_CLIENT_DEFAULT_IMAGE, SERVICE_ID as POSTGRES_CLIENT_SERVICE_ID } from "./services/postgres_client";
+
+// Images are keyed by service ID, except for the plain validator nodes which all share one image
+const DEFAULT_IMAGES: Map<string, string> = new Map([
+    [CONTRACT_HELPER_DB_SERVICE_ID, CONTRACT_HELPER_DB_DEFAULT_IMAGE],
+    [INDEXER_SERVICE_ID, INDEXER_DEFAULT_IMAGE],
+    [VALIDATOR_NODE_SERVICE_TYPE, VALIDATOR_NODE_DEFAULT_IMAGE],
+    [CONTRACT_HELPER_SERVICE_ID, CONTRACT_HELPER_DEFAULT_IMAGE],
+    [EXPLORER_BACKEND_SERVICE_ID, EXPLORER_BACKEND_DEFAULT_IMAGE],
+    [EXPLORER_FRONTEND_SERVICE_ID, EXPLORER_FRONTEND_DEFAULT_IMAGE],
+    [WALLET_SERVICE_ID, WALLET_DEFAULT_IMAGE],
+    [MAIL_CATCHER_SERVICE_ID, MAIL_CATCHER_DEFAULT_IMAGE],
+    [FILES_ARTIFACT_READER_SERVICE_ID, FILES_ARTIFACT_READER_DEFAULT_IMAGE],
+    [POSTGRES_CLIENT_SERVICE_ID, POSTGRES_CLIENT_DEFAULT_IMAGE],
+]);
+
+// The keys that the "images" execute param accepts
+export const IMAGE_SERVICE_KEYS: string[] = Array.from(DEFAULT_IMAGES.keys());
+
+// Applies the user's image overrides on top of the default images
+export function resolveImages(
+    imageOverrides: { [serviceKey: string]: string },
+): Result<{ [serviceKey: string]: string }, Error> {
+    const result: { [serviceKey: string]: string } = {};
+    for (const [serviceKey, image] of DEFAULT_IMAGES.entries()) {
+        result[serviceKey] = image;
+    }
+    for (const [serviceKey, image] of Object.entries(imageOverrides)) {
+        if (!DEFAULT_IMAGES.has(serviceKey)) {
+            return err(new Error(
+                `Cannot override the image of unrecognized service '${serviceKey}'; valid services are: ${IMAGE_SERVICE_KEYS.join(", ")}`
+            ));
+        }
+        if (image.trim() === "") {
+            return err(new Error(`The image override for service '${serviceKey}' cannot be empty`));
+        }
+        result[serviceKey] = image;
+    }
+    return ok(result);
+}
@@ -0,0 +1,83 @@
+import { EnclaveContext, ServiceID } from "kurtosis-core-api-lib";
+import * as log from "loglevel";
+import { Result, ok, err } from "neverthrow";
+
+// How long each launched service gets to stop when it's removed after a failed start, before it's killed
+const ROLLED_BACK_SERVICE_STOP_TIMEOUT_SECONDS: number = 10;
+
+// Keeps track of the services that the start action launches, so that a start which fails partway can remove them
+//  again & leave the enclave as it found it
+export class ServiceLaunchTracker {
+    // In the order that they were launched
+    private readonly recordedServiceIds: ServiceID[] = [];
+
+    constructor(
+        private readonly enclaveCtx: EnclaveContext,
+        // What the enclave already had before the start, which is never removed
+        private readonly preexistingServiceIds: Set<ServiceID>,
+    ) {}
+
+    // Called once a service is up; a service that's re-provisioned keeps its ID, so it keeps its place in the order
+    public recordLaunch(serviceId: ServiceID): void {
+        if (!this.recordedServiceIds.includes(serviceId)) {
+            this.recordedServiceIds.push(serviceId);
+        }
+    }
+
+    // The services that the start launched & that are still in the enclave, most recent first
+    // Services that were never recorded (e.g. one added by the step that failed, before it was ready, or a throwaway
+    //  service that couldn't be removed) are the most recent of all, so they come first
+    public async getLaunchedServiceIds(): Promise<Result<ServiceID[], Error>> {
+        const getServicesResult: Result<Set<ServiceID>, Error> = await this.enclaveCtx.getServices();
+        if (getServicesResult.isErr()) {
+            return err(getServicesResult.error);
+        }
+        const currentServiceIds: Set<ServiceID> = getServicesResult.value;
+
+        const result: ServiceID[] = Array.from(currentServiceIds).filter((serviceId: ServiceID) =>
+            !this.preexistingServiceIds.has(serviceId) && !this.recordedServiceIds.includes(serviceId)
+        );
+        for (const serviceId of [...this.recordedServiceIds].reverse()) {
+            if (currentServiceIds.has(serviceId)) {
+                result.push(serviceId);
+            }
+        }
+        return ok(result);
+    }
+
+    // Removes every launched service, most recent first, carrying on past the ones that can't be removed; returns why
+    //  each of those couldn't be
+    public async rollBack(): Promise<Error[]> {
+        const errors: Error[] = [];
+        let serviceIdsToRemove: ServiceID[];
+        const getLaunchedServiceIdsResult: Result<ServiceID[], Error> = await this.getLaunchedServiceIds();
+        if (getLaunchedServiceIdsResult.isErr()) {
+            errors.push(new Error(
+                `Couldn't list the enclave's services, so only those known to have been started were removed: ${getLaunchedServiceIdsResult.error.message}`
+            ));
+            serviceIdsToRemove = [...this.recordedServiceIds].reverse();
+        } else {
+            serviceIdsToRemove = getLaunchedServiceIdsResult.value;
+        }
+
+        for (const serviceId of serviceIdsToRemove) {
+            log.info(`Removing service '${serviceId}'...`);
+            const removeServiceResult: Result<null, Error> = await this.enclaveCtx.removeService(serviceId, ROLLED_BACK_SERVICE_STOP_TIMEOUT_SECONDS);
+            if (removeServiceResult.isErr()) {
+                errors.push(new Error(`Couldn't remove service '${serviceId}': ${removeServiceResult.error.message}`));
+                continue;
+            }
+            log.info(`Removed service '${serviceId}'`);
+        }
+        return errors;
+    }
+}
+
+export async function createServiceLaunchTracker(enclaveCtx: EnclaveContext): Promise<Result<ServiceLaunchTracker, Error>> {
+    const getServicesResult: Result<Set<ServiceID>, Error> = await enclaveCtx.getServices();
+    if (getServicesResult.isErr()) {
+        return err(new Error(`Couldn't list the enclave's services before starting any: ${getServicesResult.error.message}`));
+    }
+    const result: ServiceLaunchTracker = new ServiceLaunchTracker(enclaveCtx, getServicesResult.value);
+    return ok(result);
+}
@@ -0,0 +1,116 @@
+import { ServiceID } from "kurtosis-core-api-lib";
+import { Result, ok, err } from "neverthrow";
+import { SERVICE_ID as CONTRACT_HELPER_DB_SERVICE_ID } from "./services/contract_helper_db";
+import { SERVICE_ID as INDEXER_SERVICE_ID } from "./services/indexer";
+import { SERVICE_ID as CONTRACT_HELPER_SERVICE_ID } from "./services/contract_helper";
+import { SERVICE_ID as EXPLORER_BACKEND_SERVICE_ID } from "./services/explorer_backend";
+import { SERVICE_ID as EXPLORER_FRONTEND_SERVICE_ID } from "./services/explorer_frontend";
+import { SERVICE_ID as WALLET_SERVICE_ID } from "./services/wallet";
+import { SERVICE_ID as MAIL_CATCHER_SERVICE_ID } from "./services/mail_catcher";
+
+export const NODE_ONLY_PROFILE: string = "node-only";
+export const NODE_WITH_INDEXER_PROFILE: string = "node-with-indexer";
+export const FULL_PROFILE: string = "full";
+
+// The services that can be turned on & off; there's always at least one NEAR node, so it's not in this list
+// When the indexer is disabled, the first validator is a plain NEAR node rather than the indexer node
+export const OPTIONAL_SERVICE_IDS: ServiceID[] = [
+    CONTRACT_HELPER_DB_SERVICE_ID,
+    INDEXER_SERVICE_ID,
+    CONTRACT_HELPER_SERVICE_ID,
+    EXPLORER_BACKEND_SERVICE_ID,
+    EXPLORER_FRONTEND_SERVICE_ID,
+    WALLET_SERVICE_ID,
+    MAIL_CATCHER_SERVICE_ID,
+];
+
+const PROFILES: Map<string, Set<ServiceID>> = new Map([
+    [NODE_ONLY_PROFILE, new Set()],
+    [NODE_WITH_INDEXER_PROFILE, new Set([
+        CONTRACT_HELPER_DB_SERVICE_ID,
+        INDEXER_SERVICE_ID,
+    ])],
+    // The mail catcher is only for testing the Wallet's recovery flows, so it has to be enabled explicitly
+    [FULL_PROFILE, new Set(OPTIONAL_SERVICE_IDS.filter(serviceId => serviceId !== MAIL_CATCHER_SERVICE_ID))],
+]);
+
+export const PROFILE_NAMES: string[] = Array.from(PROFILES.keys());
+
+// The services that each service can't start without
+// The Explorer Frontend & Wallet link to each other, but that link is optional so it's not listed here
+const SERVICE_DEPENDENCIES: Map<ServiceID, ServiceID[]> = new Map([
+    [CONTRACT_HELPER_DB_SERVICE_ID, []],
+    [INDEXER_SERVICE_ID, [CONTRACT_HELPER_DB_SERVICE_ID]],
+    [CONTRACT_HELPER_SERVICE_ID, [CONTRACT_HELPER_DB_SERVICE_ID, INDEXER_SERVICE_ID]],
+    [EXPLORER_BACKEND_SERVICE_ID, [CONTRACT_HELPER_DB_SERVICE_ID, INDEXER_SERVICE_ID]],
+    [EXPLORER_FRONTEND_SERVICE_ID, [EXPLORER_BACKEND_SERVICE_ID]],
+    [WALLET_SERVICE_ID, [CONTRACT_HELPER_SERVICE_ID]],
+    // The mail catcher is useless without the Contract Helper, as that's what sends the emails & SMSes
+    [MAIL_CATCHER_SERVICE_ID, [CONTRACT_HELPER_SERVICE_ID]],
+]);
+
+// Works out which optional services to start, given a profile and the user's per-service overrides:
+//  * Services that the user explicitly enabled pull in their dependencies
+//  * Services that only the profile enabled are dropped if one of their dependencies gets disabled
+//  * Explicitly enabling a service whose dependency was explicitly disabled is an error
+export function resolveEnabledServices(
+    profile: string,
+    serviceOverrides: { [serviceId: string]: boolean },
+): Result<Set<ServiceID>, Error> {
+    const profileServices: Set<ServiceID> | undefined = PROFILES.get(profile);
+    if (profileServices === undefined) {
+        return err(new Error(`Unrecognized profile '${profile}'; valid profiles are: ${PROFILE_NAMES.join(", ")}`));
+    }
+
+    const explicitlyEnabled: Set<ServiceID> = new Set();
+    const explicitlyDisabled: Set<ServiceID> = new Set();
+    for (const [serviceId, isEnabled] of Object.entries(serviceOverrides)) {
+        if (!SERVICE_DEPENDENCIES.has(serviceId)) {
+            return err(new Error(`Cannot enable or disable unrecognized service '${serviceId}'; valid services are: ${OPTIONAL_SERVICE_IDS.join(", ")}`));
+        }
+        if (isEnabled) {
+            explicitlyEnabled.add(serviceId);
+        } else {
+            explicitlyDisabled.add(serviceId);
+        }
+    }
+
+    const enabled: Set<ServiceID> = new Set();
+    for (const serviceId of profileServices) {
+        if (!explicitlyDisabled.has(serviceId)) {
+            enabled.add(serviceId);
+        }
+    }
+    for (const serviceId of explicitlyEnabled) {
+        enabled.add(serviceId);
+    }
+
+    // Services that got dropped because they were missing a dependency, which therefore can't be pulled back in
+    const unavailable: Set<ServiceID> = new Set(explicitlyDisabled);
+    let wasChanged: boolean = true;
+    while (wasChanged) {
+        wasChanged = false;
+        for (const serviceId of Array.from(enabled)) {
+            for (const dependencyId of SERVICE_DEPENDENCIES.get(serviceId) || []) {
+                if (enabled.has(dependencyId)) {
+                    continue;
+                }
+                if (unavailable.has(dependencyId)) {
+                    if (explicitlyEnabled.has(serviceId)) {
+                        return err(new Error(
+                            `Service '${serviceId}' was enabled but it requires service '${dependencyId}', which is disabled`
+                        ));
+                    }
+                    enabled.delete(serviceId);
+                    unavailable.add(serviceId);
+                } else {
+                    enabled.add(dependencyId);
+                }
+                wasChanged = true;
+                break;
+            }
+        }
+    }
+
+    return ok(enabled);
+}
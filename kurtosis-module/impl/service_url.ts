@@ -1,5 +1,8 @@
 import { Result, err, ok } from "neverthrow";
-import { ServiceContext } from "kurtosis-core-api-lib"
+import { ServiceContext, ServiceID } from "kurtosis-core-api-lib"
+
+// What a planned public URL's port is when the public port will be allocated automatically (i.e. isn't known yet)
+export const PLANNED_AUTO_ALLOCATED_PUBLIC_PORT_NUM: number = 0;
 
 export class ServiceUrl {
     constructor(
@@ -20,6 +23,57 @@ export class ServiceUrl {
     }
 }
 
+// Returns the URL for connecting to a Postgres DB as the given role; the credentials are percent-encoded, as a
+//  caller-supplied password (e.g. an external Postgres's) may contain characters like '@', ':', '/', '#' & '%'
+export function getPostgresConnectionUrl(
+    dbPrivateUrl: ServiceUrl,
+    username: string,
+    password: string,
+    dbName: string,
+): string {
+    const encodedCredentials: string = `${encodeURIComponent(username)}:${encodeURIComponent(password)}`;
+    return `postgres://${encodedCredentials}@${dbPrivateUrl.ipAddress}:${dbPrivateUrl.portNumber}/${dbName}`;
+}
+
+// Returns the private URL that a service's port will have once the service is started, for planning without starting it
+export function getPlannedPrivateUrl(
+    serviceId: ServiceID,
+    privatePortNum: number,
+    protocol: string,
+    path: string,
+): ServiceUrl {
+    const result = new ServiceUrl(
+        protocol,
+        serviceId,  // Service IDs are also domain names inside the enclave
+        privatePortNum,
+        path,
+    )
+    return result;
+}
+
+// Returns a tuple of (privateUrl, publicUrl) that a service's port will have once the service is started, for planning
+//  without starting it; the private URL is exact, but the public URL has the given IP address (rather than the one
+//  that the enclave ends up publishing the port on) & PLANNED_AUTO_ALLOCATED_PUBLIC_PORT_NUM as its port if the
+//  public port will be allocated automatically
+export function getPlannedPrivateAndPublicUrls(
+    serviceId: ServiceID,
+    privatePortNum: number,
+    publicIpAddress: string,
+    // Undefined if the public port will be allocated automatically
+    publicPortNum: number | undefined,
+    protocol: string,
+    path: string,
+): [ServiceUrl, ServiceUrl] {
+    const privateUrl = getPlannedPrivateUrl(serviceId, privatePortNum, protocol, path);
+    const publicUrl = new ServiceUrl(
+        protocol,
+        publicIpAddress,
+        publicPortNum !== undefined ? publicPortNum : PLANNED_AUTO_ALLOCATED_PUBLIC_PORT_NUM,
+        path,
+    )
+    return [privateUrl, publicUrl];
+}
+
 // Returns a tuple of (privateUrl, publicUrl)
 export function getPrivateAndPublicUrlsForPortId(
     serviceCtx: ServiceContext, 
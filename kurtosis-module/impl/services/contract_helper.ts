@@ -1,31 +1,56 @@
-import { EnclaveContext, PortSpec, PortProtocol, ServiceID, ContainerConfig, ContainerConfigBuilder, ServiceContext } from "kurtosis-core-api-lib";
+import { FilesArtifactUUID, EnclaveContext, PortSpec, PortProtocol, ServiceID, ContainerConfig, ContainerConfigBuilder, ServiceContext } from "kurtosis-core-api-lib";
 import log = require("loglevel");
 import { Result, ok, err } from "neverthrow";
+import * as path from "path";
 import { ContainerConfigSupplier } from "../near_module";
-import { waitForPortAvailability } from "../service_port_availability_checker";
-import { getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { NetworkIdentity } from "../network_identity";
+import { HttpOkProbe } from "../readiness/http_ok_probe";
+import { waitForReadiness } from "../readiness/readiness_probe";
+import { RetryPolicy } from "../retry_policy";
+import { getPlannedPrivateAndPublicUrls, getPostgresConnectionUrl, getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { ServicePlan } from "../service_plan";
+import { ValidatorKey } from "../validator_key";
+import { FILES_UPLOAD_PHASE, READINESS_PHASE, SERVICE_ADD_PHASE, StartupTimeline } from "../startup_timeline";
 
-const SERVICE_ID: ServiceID = "contract-helper-service"
-const PORT_ID = "rest";
+export const SERVICE_ID: ServiceID = "contract-helper-service"
+export const PORT_ID = "rest";
 const PRIVATE_PORT_NUM: number = 3000;
-const PUBLIC_PORT_NUM: number = 8330;
+export const DEFAULT_PUBLIC_PORT_NUM: number = 8330;
 const PRIVATE_PORT_SPEC = new PortSpec(PRIVATE_PORT_NUM, PortProtocol.TCP);
-const PUBLIC_PORT_SPEC = new PortSpec(PUBLIC_PORT_NUM, PortProtocol.TCP);
-const PORT_PROTOCOL = "http";
-const IMAGE: string = "kurtosistech/near-contract-helper:c0b1d4d";
+export const PORT_PROTOCOL = "http";
+export const DEFAULT_IMAGE: string = "kurtosistech/near-contract-helper:c0b1d4d";
 
 // Dynamic environment variables
 const ACCOUNT_CREATOR_KEY_ENVVAR: string = "ACCOUNT_CREATOR_KEY";
 const INDEXER_DB_CONNECTION_ENVVAR: string = "INDEXER_DB_CONNECTION";
 const NODE_RPC_URL_ENVVAR: string = "NODE_URL";
+// Used in the links of the recovery emails & SMSes, and for redirects back to the Wallet
+const WALLET_URL_ENVVAR: string = "WALLET_URL";
+const MAIL_HOST_ENVVAR: string = "MAIL_HOST";
+const MAIL_PORT_ENVVAR: string = "MAIL_PORT";
+// Where emails go if the mail catcher isn't started
+const DEFAULT_MAIL_HOST: string = "smtp.ethereal.email";
+const DEFAULT_MAIL_PORT: number = 587;
+
+// When the mail catcher is started, this script is preloaded into the Contract Helper to forward the SMSes that the
+//  mock Twilio client only logs to the mail catcher too
+const SMS_CAPTURE_DIRPATH_ON_MODULE: string = "/static-files/sms-capture";
+// An uploaded directory keeps its name inside the files artifact, so the script ends up in a subdirectory of this
+const SMS_CAPTURE_MOUNT_DIRPATH_ON_CONTAINER: string = "/sms-capture";
+const SMS_CAPTURE_SCRIPT_FILENAME: string = "sms_capture.js";
+const NODE_OPTIONS_ENVVAR: string = "NODE_OPTIONS";
+const SMS_CAPTURE_SMTP_HOST_ENVVAR: string = "SMS_CAPTURE_SMTP_HOST";
+const SMS_CAPTURE_SMTP_PORT_ENVVAR: string = "SMS_CAPTURE_SMTP_PORT";
+const SMS_CAPTURE_EMAIL_DOMAIN_ENVVAR: string = "SMS_CAPTURE_EMAIL_DOMAIN";
+// Each captured SMS is emailed to "<phone number>@<this domain>"
+export const SMS_CAPTURE_EMAIL_DOMAIN: string = "sms.localnet";
 
 // See https://github.com/near/near-contract-helper/blob/master/.env.sample for where these are drawn from
 const STATIC_ENVVARS: Map<string, string> = new Map(Object.entries({
     // ACCOUNT_CREATOR_KEY will be set dynamically 
 
-    "MAIL_HOST": "smtp.ethereal.email",
+    // MAIL_HOST & MAIL_PORT will get set dynamically
     "MAIL_PASSWORD": "",
-    "MAIL_PORT": "587",
     "MAIL_USER": "",
     "NEW_ACCOUNT_AMOUNT": "10000000000000000000000000",
 
@@ -40,10 +65,7 @@ const STATIC_ENVVARS: Map<string, string> = new Map(Object.entries({
     "TWILIO_AUTH_TOKEN": "", // auth token from Twilio (used to send security code)
     "TWILIO_FROM_PHONE": "+14086179592", // phone number from which to send SMS with security code (international format, starting with `+`)
 
-    // NOTE: We can't set this because there's a circular dependency between Wallet and Contract Helper app, where
-    //  they both need to point to each others' _publicly-facing ports_ (which are only available after starting the container)
-    // Following the lead of https://github.com/near/local/blob/master/docker-compose.yml, we're choosing to break Contract Helper app
-    "WALLET_URL": "",
+    // WALLET_URL will get set dynamically
 
     // INDEXER_DB_CONNECTION will get set dynamically
 
@@ -57,31 +79,196 @@ const STATIC_ENVVARS: Map<string, string> = new Map(Object.entries({
 }));
 const VALIDATOR_KEY_PRETTY_PRINT_NUM_SPACES: number = 2;
 
-const MILLIS_BETWEEN_PORT_AVAILABILITY_RETRIES: number = 500;
-const PORT_AVAILABILITY_TIMEOUT_MILLIS:  number = 5_0000;
+export const DEFAULT_READINESS_TIMEOUT_MILLIS: number = 60_000;
 
 export class ContractHelperServiceInfo {
     constructor(
         public readonly privateUrl: ServiceUrl,
         public readonly publicUrl: ServiceUrl,
+        // The URLs of other services that the Contract Helper was configured with, keyed by environment variable
+        public readonly linkedUrls: { [envvar: string]: string },
     ) {}
 }
 
 export async function addContractHelperService(
     enclaveCtx: EnclaveContext,
+    timeline: StartupTimeline,
+    image: string,
     dbPrivateUrl: ServiceUrl,
     dbUsername: string,
     dbUserPassword: string,
     dbName: string,
+    userRequestedBackendIpAddress: string,
+    networkIdentity: NetworkIdentity,
     nearNodePrivateRpcUrl: ServiceUrl,
-    validatorKey: Object,
+    // Undefined if the Wallet isn't started (or its public URL isn't known yet), in which case the Contract Helper's
+    //  links to the Wallet won't work
+    walletPublicUrl: ServiceUrl | undefined,
+    // Undefined if the mail catcher isn't started, in which case emails go to an external test SMTP server & SMSes
+    //  are only logged
+    mailCatcherPrivateSmtpUrl: ServiceUrl | undefined,
+    // The key that the Contract Helper creates the Wallet's accounts with, which must be the network's root account's
+    validatorKey: ValidatorKey,
+    // Undefined to have a free public port allocated automatically
+    publicPortNum: number | undefined,
+    readinessRetryPolicy: RetryPolicy,
 ): Promise<Result<ContractHelperServiceInfo, Error>> {
     log.info(`Adding contract helper service running on port '${PRIVATE_PORT_NUM}'`);
+    let smsCaptureFilesArtifactUuid: FilesArtifactUUID | undefined = undefined;
+    if (mailCatcherPrivateSmtpUrl !== undefined) {
+        const uploadSmsCaptureResult: Result<FilesArtifactUUID, Error> = await timeline.record(
+            SERVICE_ID,
+            FILES_UPLOAD_PHASE,
+            () => enclaveCtx.uploadFiles(SMS_CAPTURE_DIRPATH_ON_MODULE),
+        );
+        if (uploadSmsCaptureResult.isErr()) {
+            return err(uploadSmsCaptureResult.error);
+        }
+        smsCaptureFilesArtifactUuid = uploadSmsCaptureResult.value;
+    }
+
+    const buildContainerConfigResult: Result<[ContainerConfig, { [envvar: string]: string }], Error> = buildContainerConfig(
+        image,
+        dbPrivateUrl,
+        dbUsername,
+        dbUserPassword,
+        dbName,
+        userRequestedBackendIpAddress,
+        networkIdentity,
+        nearNodePrivateRpcUrl,
+        walletPublicUrl,
+        mailCatcherPrivateSmtpUrl,
+        smsCaptureFilesArtifactUuid,
+        validatorKey,
+        publicPortNum,
+    );
+    if (buildContainerConfigResult.isErr()) {
+        return err(buildContainerConfigResult.error);
+    }
+    const [containerConfig, linkedUrls] = buildContainerConfigResult.value;
+    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
+        return ok(containerConfig);
+    }
+    
+    const addServiceResult: Result<ServiceContext, Error> = await timeline.record(
+        SERVICE_ID,
+        SERVICE_ADD_PHASE,
+        () => enclaveCtx.addService(SERVICE_ID, containerConfigSupplier),
+    );
+    if (addServiceResult.isErr()) {
+        return err(addServiceResult.error);
+    }
+    const serviceCtx: ServiceContext = addServiceResult.value;
+
+    const getUrlsResult = getPrivateAndPublicUrlsForPortId(
+        serviceCtx,
+        PORT_ID,
+        PORT_PROTOCOL,
+        "",
+    );
+    if (getUrlsResult.isErr()) {
+        return err(getUrlsResult.error);
+    }
+    const [privateUrl, publicUrl] = getUrlsResult.value;
+
+    // The Contract Helper has no endpoint that's guaranteed to return 200, so any response means it's up
+    const waitForReadinessResult: Result<null, Error> = await timeline.record(SERVICE_ID, READINESS_PHASE, () => waitForReadiness(
+        new HttpOkProbe(SERVICE_ID, privateUrl, false),
+        readinessRetryPolicy,
+    ));
+    if (waitForReadinessResult.isErr()) {
+        return err(waitForReadinessResult.error);
+    }
+
+    const result: ContractHelperServiceInfo = new ContractHelperServiceInfo(
+        privateUrl,
+        publicUrl,
+        linkedUrls,
+    );
+
+    return ok(result);
+}
+
+// The planned info's public URL is on the backend IP address
+export function planContractHelperService(
+    image: string,
+    dbPrivateUrl: ServiceUrl,
+    dbUsername: string,
+    dbUserPassword: string,
+    dbName: string,
+    userRequestedBackendIpAddress: string,
+    networkIdentity: NetworkIdentity,
+    nearNodePrivateRpcUrl: ServiceUrl,
+    walletPublicUrl: ServiceUrl | undefined,
+    mailCatcherPrivateSmtpUrl: ServiceUrl | undefined,
+    // The files artifact of the uploaded SMS capture directory, which must be given iff the mail catcher is started
+    smsCaptureFilesArtifactUuid: FilesArtifactUUID | undefined,
+    validatorKey: ValidatorKey,
+    publicPortNum: number | undefined,
+): Result<ServicePlan<ContractHelperServiceInfo>, Error> {
+    const buildContainerConfigResult: Result<[ContainerConfig, { [envvar: string]: string }], Error> = buildContainerConfig(
+        image,
+        dbPrivateUrl,
+        dbUsername,
+        dbUserPassword,
+        dbName,
+        userRequestedBackendIpAddress,
+        networkIdentity,
+        nearNodePrivateRpcUrl,
+        walletPublicUrl,
+        mailCatcherPrivateSmtpUrl,
+        smsCaptureFilesArtifactUuid,
+        validatorKey,
+        publicPortNum,
+    );
+    if (buildContainerConfigResult.isErr()) {
+        return err(buildContainerConfigResult.error);
+    }
+    const [containerConfig, linkedUrls] = buildContainerConfigResult.value;
+    const [privateUrl, publicUrl] = getPlannedPrivateAndPublicUrls(
+        SERVICE_ID,
+        PRIVATE_PORT_NUM,
+        userRequestedBackendIpAddress,
+        publicPortNum,
+        PORT_PROTOCOL,
+        "",
+    );
+    const info: ContractHelperServiceInfo = new ContractHelperServiceInfo(privateUrl, publicUrl, linkedUrls);
+
+    const result: ServicePlan<ContractHelperServiceInfo> = new ServicePlan(SERVICE_ID, containerConfig, info, new Map());
+    return ok(result);
+}
+
+// Returns the container config & the URLs of other services that it links to, keyed by environment variable
+function buildContainerConfig(
+    image: string,
+    dbPrivateUrl: ServiceUrl,
+    dbUsername: string,
+    dbUserPassword: string,
+    dbName: string,
+    userRequestedBackendIpAddress: string,
+    networkIdentity: NetworkIdentity,
+    nearNodePrivateRpcUrl: ServiceUrl,
+    walletPublicUrl: ServiceUrl | undefined,
+    mailCatcherPrivateSmtpUrl: ServiceUrl | undefined,
+    smsCaptureFilesArtifactUuid: FilesArtifactUUID | undefined,
+    validatorKey: ValidatorKey,
+    publicPortNum: number | undefined,
+): Result<[ContainerConfig, { [envvar: string]: string }], Error> {
+    // NEAR only lets accounts create their direct subaccounts, so with any other key the Wallet's account creation fails
+    if (validatorKey.account_id !== networkIdentity.accountIdSuffix) {
+        return err(new Error(
+            `The contract helper's account creator key is for account '${validatorKey.account_id}', but the accounts it creates ` +
+                `must end in the network's account ID suffix '${networkIdentity.accountIdSuffix}'`
+        ));
+    }
     const usedPorts: Map<string, PortSpec> = new Map();
     usedPorts.set(PORT_ID, PRIVATE_PORT_SPEC);
 
     const publicPorts: Map<string, PortSpec> = new Map();
-    publicPorts.set(PORT_ID, PUBLIC_PORT_SPEC);
+    if (publicPortNum !== undefined) {
+        publicPorts.set(PORT_ID, new PortSpec(publicPortNum, PortProtocol.TCP));
+    }
 
     let validatorKeyStr: string;
     try {
@@ -103,66 +290,64 @@ export async function addContractHelperService(
     )
     envvars.set(
         INDEXER_DB_CONNECTION_ENVVAR,
-        `postgres://${dbUsername}:${dbUserPassword}@${dbPrivateUrl.ipAddress}:${dbPrivateUrl.portNumber}/${dbName}`
+        getPostgresConnectionUrl(dbPrivateUrl, dbUsername, dbUserPassword, dbName),
     )
     envvars.set(
         NODE_RPC_URL_ENVVAR,
         nearNodePrivateRpcUrl.toString(),
     )
+    envvars.set(
+        WALLET_URL_ENVVAR,
+        walletPublicUrl !== undefined ? walletPublicUrl.toStringWithIpAddressOverride(userRequestedBackendIpAddress) : "",
+    )
     for (let [key, value] of STATIC_ENVVARS.entries()) {
         envvars.set(key, value);
     }
 
-    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
-        const result: ContainerConfig = new ContainerConfigBuilder(
-            IMAGE,
-        ).withUsedPorts(
-            usedPorts
-        ).withPublicPorts(
-            publicPorts,
-        ).withCmdOverride([
-            "sh",
-            "-c",
-            // We need to override the CMD because the Dockerfile (https://github.com/near/near-contract-helper/blob/master/Dockerfile.app)
-            // loads hardcoded environment variables that we don't want
-            "sleep 10 && yarn start-no-env",
-        ]).withEnvironmentVariableOverrides(
-            envvars
-        ).build();
-        return ok(result);
-    }
-    
-    const addServiceResult: Result<ServiceContext, Error> = await enclaveCtx.addService(SERVICE_ID, containerConfigSupplier);
-    if (addServiceResult.isErr()) {
-        return err(addServiceResult.error);
-    }
-    const serviceCtx: ServiceContext = addServiceResult.value;
+    const filesArtifactMounts = new Map<FilesArtifactUUID, string>();
+    if (mailCatcherPrivateSmtpUrl !== undefined) {
+        if (smsCaptureFilesArtifactUuid === undefined) {
+            return err(new Error("The mail catcher is started, but no SMS capture files artifact was given; this is a bug in the module"));
+        }
+        filesArtifactMounts.set(smsCaptureFilesArtifactUuid, SMS_CAPTURE_MOUNT_DIRPATH_ON_CONTAINER);
+        const smsCaptureScriptFilepath: string = path.join(
+            SMS_CAPTURE_MOUNT_DIRPATH_ON_CONTAINER,
+            path.basename(SMS_CAPTURE_DIRPATH_ON_MODULE),
+            SMS_CAPTURE_SCRIPT_FILENAME,
+        );
 
-    const waitForPortAvailabilityResult = await waitForPortAvailability(
-        PRIVATE_PORT_NUM,
-        serviceCtx.getPrivateIPAddress(),
-        MILLIS_BETWEEN_PORT_AVAILABILITY_RETRIES,
-        PORT_AVAILABILITY_TIMEOUT_MILLIS,
-    )
-    if (waitForPortAvailabilityResult.isErr()) {
-        return err(waitForPortAvailabilityResult.error);
+        envvars.set(MAIL_HOST_ENVVAR, mailCatcherPrivateSmtpUrl.ipAddress);
+        envvars.set(MAIL_PORT_ENVVAR, mailCatcherPrivateSmtpUrl.portNumber.toString());
+        envvars.set(NODE_OPTIONS_ENVVAR, `--require ${smsCaptureScriptFilepath}`);
+        envvars.set(SMS_CAPTURE_SMTP_HOST_ENVVAR, mailCatcherPrivateSmtpUrl.ipAddress);
+        envvars.set(SMS_CAPTURE_SMTP_PORT_ENVVAR, mailCatcherPrivateSmtpUrl.portNumber.toString());
+        envvars.set(SMS_CAPTURE_EMAIL_DOMAIN_ENVVAR, SMS_CAPTURE_EMAIL_DOMAIN);
+    } else {
+        envvars.set(MAIL_HOST_ENVVAR, DEFAULT_MAIL_HOST);
+        envvars.set(MAIL_PORT_ENVVAR, DEFAULT_MAIL_PORT.toString());
     }
 
-    const getUrlsResult = getPrivateAndPublicUrlsForPortId(
-        serviceCtx,
-        PORT_ID,
-        PORT_PROTOCOL,
-        "",
-    );
-    if (getUrlsResult.isErr()) {
-        return err(getUrlsResult.error);
-    }
-    const [privateUrl, publicUrl] = getUrlsResult.value;
-
-    const result: ContractHelperServiceInfo = new ContractHelperServiceInfo(
-        privateUrl,
-        publicUrl,
-    );
+    const containerConfig: ContainerConfig = new ContainerConfigBuilder(
+        image,
+    ).withUsedPorts(
+        usedPorts
+    ).withPublicPorts(
+        publicPorts,
+    ).withCmdOverride([
+        "sh",
+        "-c",
+        // We need to override the CMD because the Dockerfile (https://github.com/near/near-contract-helper/blob/master/Dockerfile.app)
+        // loads hardcoded environment variables that we don't want
+        "yarn start-no-env",
+    ]).withEnvironmentVariableOverrides(
+        envvars
+    ).withFiles(
+        filesArtifactMounts,
+    ).build();
 
-    return ok(result);
+    const linkedUrls: { [envvar: string]: string } = {};
+    for (const envvar of [NODE_RPC_URL_ENVVAR, WALLET_URL_ENVVAR]) {
+        linkedUrls[envvar] = envvars.get(envvar) || "";
+    }
+    return ok([containerConfig, linkedUrls]);
 }
@@ -1,27 +1,38 @@
-import { EnclaveContext, PortSpec, PortProtocol, ServiceID, ContainerConfig, ContainerConfigBuilder, ServiceContext } from "kurtosis-core-api-lib";
+import * as crypto from "crypto";
+import * as path from "path";
+import { EnclaveContext, FilesArtifactUUID, PortSpec, PortProtocol, ServiceID, ContainerConfig, ContainerConfigBuilder, ServiceContext } from "kurtosis-core-api-lib";
 import log from "loglevel";
 import { Result, ok, err } from "neverthrow";
 import { EXEC_COMMAND_SUCCESS_EXIT_CODE } from "../consts";
+import { DbSnapshotParams } from "../module_io/params";
 import { ContainerConfigSupplier } from "../near_module";
-import { getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { getPlannedPrivateUrl, getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { ServicePlan } from "../service_plan";
+import { PgIsReadyProbe } from "../readiness/pg_isready_probe";
+import { waitForReadiness } from "../readiness/readiness_probe";
+import { RetryPolicy } from "../retry_policy";
+import { DB_CREATION_PHASE, READINESS_PHASE, SERVICE_ADD_PHASE, StartupTimeline } from "../startup_timeline";
 
-const SERVICE_ID: ServiceID = "contract-helper-db";
+export const SERVICE_ID: ServiceID = "contract-helper-db";
 const PORT_ID: string = "postgres";
-const PORT_PROTOCOL = "postgres"
-const IMAGE: string = "postgres:13.4-alpine3.14";
+export const PORT_PROTOCOL = "postgres"
+export const DEFAULT_IMAGE: string = "postgres:13.4-alpine3.14";
 const PORT_NUM: number = 5432;
 const PORT_SPEC = new PortSpec(PORT_NUM, PortProtocol.TCP);
 
+// The superuser, which only sets up the DBs; every service gets its own role below, with only the access it needs
 const POSTGRES_USER: string = "near";
 const POSTGRES_PASSWORD: string = "near";
+// The Postgres image creates a DB named after the superuser, for it to connect to when not working on a specific DB
+const ADMIN_DB: string = POSTGRES_USER;
 const STATIC_ENVVARS: Map<string, string> = new Map(Object.entries({
     "POSTGRES_USER": POSTGRES_USER,
     "POSTGRES_PASSWORD": POSTGRES_PASSWORD,
 }));
 
-const INDEXER_DB: string = "indexer";
-const ANALYTICS_DB: string = "analytics";
-const TELEMETRY_DB: string = "telemetry";
+export const INDEXER_DB: string = "indexer";
+export const ANALYTICS_DB: string = "analytics";
+export const TELEMETRY_DB: string = "telemetry";
 
 // DBs to initialize
 const DBS_TO_INITIALIZE: Set<string> = new Set([
@@ -29,71 +40,145 @@ const DBS_TO_INITIALIZE: Set<string> = new Set([
     ANALYTICS_DB,
     TELEMETRY_DB,
 ])
-const MAX_AVAILABILITY_CHECK_RETRIES: number = 10;
-const MILLIS_BETWEEN_AVAILABILITY_CHECK_RETRIES: number = 1000;
-const AVAILABILITY_CMD: string[] = [
-    "psql",
-    "-U",
-    POSTGRES_USER,
-    "-c",
-    "\\l"
-];
+export const DB_NAMES: string[] = Array.from(DBS_TO_INITIALIZE);
+
+// Owns every DB, so it can create tables (e.g. via the indexer's migrations) & write to them
+const READ_WRITE_ROLE: string = "indexer_rw";
+const EXPLORER_BACKEND_READ_ONLY_ROLE: string = "explorer_backend_ro";
+const CONTRACT_HELPER_READ_ONLY_ROLE: string = "contract_helper_ro";
+// Only inserts & updates rows in the telemetry DB's tables, so the Explorer Backend can't touch the indexer's data
+const EXPLORER_BACKEND_TELEMETRY_WRITER_ROLE: string = "explorer_backend_telemetry_w";
+// Hex-encoded, so that the passwords need no escaping in SQL or in connection URLs
+const GENERATED_PASSWORD_NUM_BYTES: number = 16;
+// Tables are created in this schema, which every role gets access to
+const DB_SCHEMA: string = "public";
+export const DEFAULT_READINESS_TIMEOUT_MILLIS: number = 30_000;
+
+// Where the export-db-snapshot action dumps the DBs to, one "<DB>.sql" file per DB; a stored directory keeps its name
+//  inside the files artifact, so the dumps end up at e.g. "db-snapshot/indexer.sql" in it
+const SNAPSHOT_EXPORT_DIRPATH_ON_CONTAINER: string = "/db-snapshot";
+const SNAPSHOT_FILE_EXTENSION: string = ".sql";
+const SNAPSHOT_RESTORE_MOUNT_DIRPATH_ON_CONTAINER: string = "/db-snapshot-restore";
+// Where diesel records the migrations that it's applied to the indexer DB, one row per migration
+const DIESEL_MIGRATIONS_TABLE: string = "__diesel_schema_migrations";
+// Where the indexer writes every block that it indexes
+const INDEXER_BLOCKS_TABLE: string = "blocks";
+
+export class DbRole {
+    constructor(
+        public readonly username: string,
+        public readonly password: string,
+        public readonly isReadOnly: boolean,
+        // The DBs that the role can connect to
+        public readonly dbs: string[],
+    ) {}
+}
 
 export class ContractHelperDbInfo {
     constructor(
         public readonly privateUrl: ServiceUrl,
-        public readonly dbUsername: string,
-        public readonly dbUserPassword: string,
+        // The superuser, which no service uses; it's only returned for debugging
+        public readonly adminRole: DbRole,
+        public readonly readWriteRole: DbRole,
+        public readonly explorerBackendReadOnlyRole: DbRole,
+        public readonly explorerBackendTelemetryWriterRole: DbRole,
+        public readonly contractHelperReadOnlyRole: DbRole,
         public readonly indexerDb: string,
         public readonly analyticsDb: string,
         public readonly telemetryDb: string,
+        // The diesel migrations that the indexer DB has applied after it was restored from a snapshot, or undefined if
+        //  it wasn't restored
+        public readonly restoredIndexerMigrationVersions: string[] | undefined,
     ) {}
 }
 
-export async function addContractHelperDb(enclaveCtx: EnclaveContext): Promise<Result<ContractHelperDbInfo, Error>> {
+// The DBs' dumps, as stored by the export-db-snapshot action
+export class DbSnapshotExportInfo {
+    constructor(
+        public readonly filesArtifactUuid: FilesArtifactUUID,
+        // Paths of the dumps within the files artifact, keyed by DB
+        public readonly filepaths: { [db: string]: string },
+        // The diesel migrations that the indexer DB had applied when it was dumped
+        public readonly indexerMigrationVersions: string[],
+    ) {}
+}
+
+export async function addContractHelperDb(
+    enclaveCtx: EnclaveContext,
+    timeline: StartupTimeline,
+    image: string,
+    // If set, the DBs are restored from it once they're created
+    dbSnapshot: DbSnapshotParams | undefined,
+    readinessRetryPolicy: RetryPolicy,
+): Promise<Result<ContractHelperDbInfo, Error>> {
+    const planResult: Result<ServicePlan<ContractHelperDbInfo>, Error> = planContractHelperDb(image, dbSnapshot);
+    if (planResult.isErr()) {
+        return err(planResult.error);
+    }
+    const plan: ServicePlan<ContractHelperDbInfo> = planResult.value;
 
     log.info("Adding contract helper DB running on port '" + PORT_NUM + "'");
-    const usedPorts: Map<string, PortSpec> = new Map();
-    usedPorts.set(PORT_ID, PORT_SPEC);
     const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
-        const result: ContainerConfig = new ContainerConfigBuilder(IMAGE).withUsedPorts(
-            usedPorts,
-        ).withEnvironmentVariableOverrides(
-            STATIC_ENVVARS
-        ).build();
-        return ok(result);
+        return ok(plan.containerConfig);
     }
     
-    const addServiceResult: Result<ServiceContext, Error> = await enclaveCtx.addService(SERVICE_ID, containerConfigSupplier);
+    const addServiceResult: Result<ServiceContext, Error> = await timeline.record(
+        SERVICE_ID,
+        SERVICE_ADD_PHASE,
+        () => enclaveCtx.addService(SERVICE_ID, containerConfigSupplier),
+    );
     if (addServiceResult.isErr()) {
         return err(addServiceResult.error);
     }
     const serviceCtx: ServiceContext = addServiceResult.value;
 
-    const waitForAvailabilityResult: Result<null, Error> = await waitForContractHelperDbToBecomeAvailable(serviceCtx);
-    if (waitForAvailabilityResult.isErr()) {
-        return err(waitForAvailabilityResult.error);
+    const waitForReadinessResult: Result<null, Error> = await timeline.record(SERVICE_ID, READINESS_PHASE, () => waitForReadiness(
+        new PgIsReadyProbe(serviceCtx, POSTGRES_USER),
+        readinessRetryPolicy,
+    ));
+    if (waitForReadinessResult.isErr()) {
+        return err(waitForReadinessResult.error);
     }
 
-    for (const databaseToCreate of DBS_TO_INITIALIZE) {
-        // Create the database inside of Postgres
-        const createDbCmd: string[] = [
-            "psql",
-            "-U",
-            POSTGRES_USER,
-            "-c",
-            "create database " + databaseToCreate + " with owner=" + POSTGRES_USER
-        ];
-        const createDatabaseResult: Result<[number, string], Error> = await serviceCtx.execCommand(createDbCmd);
-        if (createDatabaseResult.isErr()) {
-            return err(createDatabaseResult.error);
+    const readWriteRole: DbRole = plan.info.readWriteRole;
+    const readOnlyRoles: DbRole[] = [plan.info.explorerBackendReadOnlyRole, plan.info.contractHelperReadOnlyRole];
+    const writeOnlyRoles: DbRole[] = [plan.info.explorerBackendTelemetryWriterRole];
+
+    const createDbsResult: Result<null, Error> = await timeline.record(
+        SERVICE_ID,
+        DB_CREATION_PHASE,
+        () => createRolesAndDbs(serviceCtx, readWriteRole, readOnlyRoles, writeOnlyRoles),
+    );
+    if (createDbsResult.isErr()) {
+        return err(createDbsResult.error);
+    }
+
+    // The dumps are restored as the read-write role, so that it owns the restored tables & the read-only roles can read them
+    for (const [db, filepath] of plan.postStartSettings.entries()) {
+        log.info(`Restoring DB '${db}' from snapshot file '${filepath}'...`);
+        const restoreResult: Result<string, Error> = await runPsql(
+            serviceCtx,
+            readWriteRole.username,
+            db,
+            [
+                "--quiet",
+                // A dump that fails partway through leaves the DB empty, rather than half-restored
+                "--single-transaction",
+                "-f",
+                path.posix.join(SNAPSHOT_RESTORE_MOUNT_DIRPATH_ON_CONTAINER, filepath),
+            ],
+        );
+        if (restoreResult.isErr()) {
+            return err(new Error(`Couldn't restore DB '${db}' from snapshot file '${filepath}':\n${restoreResult.error.message}`));
         }
-        const [createDbExitCode, createDbLogOutput]: [number, string] = createDatabaseResult.value;
-        if (createDbExitCode !== EXEC_COMMAND_SUCCESS_EXIT_CODE) {
-            return err(new Error(
-                `Command to create database '${createDbCmd.join(" ")}' returned error exit code '${createDbExitCode}' with logs:\n${createDbLogOutput}`
-            ));
+    }
+    let restoredIndexerMigrationVersions: string[] | undefined = undefined;
+    if (plan.postStartSettings.has(INDEXER_DB)) {
+        const getMigrationVersionsResult: Result<string[], Error> = await getIndexerMigrationVersions(serviceCtx);
+        if (getMigrationVersionsResult.isErr()) {
+            return err(getMigrationVersionsResult.error);
         }
+        restoredIndexerMigrationVersions = getMigrationVersionsResult.value;
     }
 
     const getUrlsResult = getPrivateAndPublicUrlsForPortId(
@@ -109,31 +194,350 @@ export async function addContractHelperDb(enclaveCtx: EnclaveContext): Promise<R
 
     const result: ContractHelperDbInfo = new ContractHelperDbInfo(
         privateUrl,
-        POSTGRES_USER,
-        POSTGRES_PASSWORD,
+        plan.info.adminRole,
+        readWriteRole,
+        plan.info.explorerBackendReadOnlyRole,
+        plan.info.explorerBackendTelemetryWriterRole,
+        plan.info.contractHelperReadOnlyRole,
         INDEXER_DB,
         ANALYTICS_DB,
         TELEMETRY_DB,
+        restoredIndexerMigrationVersions,
     );
 
     return ok(result);
 }
 
-async function waitForContractHelperDbToBecomeAvailable(serviceCtx: ServiceContext): Promise<Result<null, Error>> {
-    for (let i: number = 0; i < MAX_AVAILABILITY_CHECK_RETRIES; i++) {
-        const execCmdResult: Result<[number, string], Error> = await serviceCtx.execCommand(AVAILABILITY_CMD);
-        if (execCmdResult.isOk()) {
-            const [exitCode, logOutput] = execCmdResult.value;
-            if (exitCode == EXEC_COMMAND_SUCCESS_EXIT_CODE) {
-                return ok(null);
-            }
-            log.debug("Contract helper DB availability command '" + AVAILABILITY_CMD + "' exited with code " + exitCode.toString() + " and logs:\n" + logOutput);
-        } else {
-            log.debug("Contract helper DB availability command '" + AVAILABILITY_CMD + "' returned error:\n" + execCmdResult.error);
+// Creates the roles, then each DB (owned by the read-write role) with only the access that each role needs
+async function createRolesAndDbs(
+    serviceCtx: ServiceContext,
+    readWriteRole: DbRole,
+    readOnlyRoles: DbRole[],
+    // Can only insert & update rows in the tables of their DBs
+    writeOnlyRoles: DbRole[],
+): Promise<Result<null, Error>> {
+    for (const role of [readWriteRole, ...readOnlyRoles, ...writeOnlyRoles]) {
+        const createRoleResult: Result<null, Error> = await runSql(
+            serviceCtx,
+            ADMIN_DB,
+            `create role ${role.username} with login password '${role.password}'`,
+        );
+        if (createRoleResult.isErr()) {
+            return err(createRoleResult.error);
         }
-        await new Promise(resolve => setTimeout(resolve, MILLIS_BETWEEN_AVAILABILITY_CHECK_RETRIES));
     }
-    return err(new Error(
-        "Contract helper DB didn't become available even after " + MAX_AVAILABILITY_CHECK_RETRIES + " retries with " + MILLIS_BETWEEN_AVAILABILITY_CHECK_RETRIES + "ms between retries"
-    ));
-}
\ No newline at end of file
+
+    for (const databaseToCreate of DBS_TO_INITIALIZE) {
+        // Create the database inside of Postgres
+        const createDatabaseResult: Result<null, Error> = await runSql(
+            serviceCtx,
+            ADMIN_DB,
+            `create database ${databaseToCreate} with owner=${readWriteRole.username}`,
+        );
+        if (createDatabaseResult.isErr()) {
+            return err(createDatabaseResult.error);
+        }
+
+        // By default every role can connect to every DB & create tables in its schema, so that's taken away from
+        //  everyone but the read-write role before the other roles are given only what they need
+        const readerUsernames: string[] = readOnlyRoles.filter(
+            role => role.dbs.includes(databaseToCreate)
+        ).map(role => role.username);
+        const grantStatements: string[] = [
+            `revoke all on database ${databaseToCreate} from public`,
+            `alter schema ${DB_SCHEMA} owner to ${readWriteRole.username}`,
+            `revoke create on schema ${DB_SCHEMA} from public`,
+        ];
+        if (readerUsernames.length > 0) {
+            const readers: string = readerUsernames.join(", ");
+            grantStatements.push(
+                `grant connect on database ${databaseToCreate} to ${readers}`,
+                `grant usage on schema ${DB_SCHEMA} to ${readers}`,
+                // The tables don't exist yet, so the read-only roles get access to the ones the read-write role creates
+                `alter default privileges for role ${readWriteRole.username} in schema ${DB_SCHEMA} grant select on tables to ${readers}`,
+            );
+        }
+        const writerUsernames: string[] = writeOnlyRoles.filter(
+            role => role.dbs.includes(databaseToCreate)
+        ).map(role => role.username);
+        if (writerUsernames.length > 0) {
+            const writers: string = writerUsernames.join(", ");
+            grantStatements.push(
+                `grant connect on database ${databaseToCreate} to ${writers}`,
+                `grant usage on schema ${DB_SCHEMA} to ${writers}`,
+                `alter default privileges for role ${readWriteRole.username} in schema ${DB_SCHEMA} grant insert, update on tables to ${writers}`,
+                // Inserting into a table with a serial column takes a value from its sequence
+                `alter default privileges for role ${readWriteRole.username} in schema ${DB_SCHEMA} grant usage on sequences to ${writers}`,
+            );
+        }
+        const grantResult: Result<null, Error> = await runSql(
+            serviceCtx,
+            databaseToCreate,
+            grantStatements.join("; "),
+        );
+        if (grantResult.isErr()) {
+            return err(grantResult.error);
+        }
+    }
+    return ok(null);
+}
+
+// The plan's post-start settings are the snapshot files that the DBs get restored from once they're created, keyed by
+//  DB, and its info has the roles that the service gets set up with (though not any restored migration versions)
+export function planContractHelperDb(
+    image: string,
+    dbSnapshot: DbSnapshotParams | undefined,
+): Result<ServicePlan<ContractHelperDbInfo>, Error> {
+    const snapshotFilepaths: Map<string, string> = new Map();
+    const filesArtifactMounts = new Map<FilesArtifactUUID, string>();
+    if (dbSnapshot !== undefined) {
+        const resolveSnapshotFilepathsResult: Result<Map<string, string>, Error> = resolveSnapshotFilepaths(dbSnapshot);
+        if (resolveSnapshotFilepathsResult.isErr()) {
+            return err(resolveSnapshotFilepathsResult.error);
+        }
+        for (const [db, filepath] of resolveSnapshotFilepathsResult.value.entries()) {
+            snapshotFilepaths.set(db, filepath);
+        }
+        filesArtifactMounts.set(dbSnapshot.filesArtifactUuid, SNAPSHOT_RESTORE_MOUNT_DIRPATH_ON_CONTAINER);
+    }
+
+    const usedPorts: Map<string, PortSpec> = new Map();
+    usedPorts.set(PORT_ID, PORT_SPEC);
+    const containerConfig: ContainerConfig = new ContainerConfigBuilder(image).withUsedPorts(
+        usedPorts,
+    ).withEnvironmentVariableOverrides(
+        STATIC_ENVVARS
+    ).withFiles(
+        filesArtifactMounts,
+    ).build();
+
+    const allDbs: string[] = DB_NAMES;
+    const adminRole: DbRole = new DbRole(POSTGRES_USER, POSTGRES_PASSWORD, false, allDbs);
+    const readWriteRole: DbRole = new DbRole(READ_WRITE_ROLE, generatePassword(), false, allDbs);
+    const explorerBackendReadOnlyRole: DbRole = new DbRole(EXPLORER_BACKEND_READ_ONLY_ROLE, generatePassword(), true, allDbs);
+    const explorerBackendTelemetryWriterRole: DbRole = new DbRole(EXPLORER_BACKEND_TELEMETRY_WRITER_ROLE, generatePassword(), false, [TELEMETRY_DB]);
+    // The Contract Helper only ever looks at the indexer's data
+    const contractHelperReadOnlyRole: DbRole = new DbRole(CONTRACT_HELPER_READ_ONLY_ROLE, generatePassword(), true, [INDEXER_DB]);
+    const info: ContractHelperDbInfo = new ContractHelperDbInfo(
+        getPlannedPrivateUrl(SERVICE_ID, PORT_NUM, PORT_PROTOCOL, ""),
+        adminRole,
+        readWriteRole,
+        explorerBackendReadOnlyRole,
+        explorerBackendTelemetryWriterRole,
+        contractHelperReadOnlyRole,
+        INDEXER_DB,
+        ANALYTICS_DB,
+        TELEMETRY_DB,
+        undefined,
+    );
+
+    const result: ServicePlan<ContractHelperDbInfo> = new ServicePlan(SERVICE_ID, containerConfig, info, snapshotFilepaths);
+    return ok(result);
+}
+
+// Dumps every DB of the contract-helper-db service that the module started earlier in the enclave into a files artifact
+export async function exportDbSnapshot(enclaveCtx: EnclaveContext): Promise<Result<DbSnapshotExportInfo, Error>> {
+    const getServiceCtxResult: Result<ServiceContext, Error> = await enclaveCtx.getServiceContext(SERVICE_ID);
+    if (getServiceCtxResult.isErr()) {
+        return err(new Error(
+            `Couldn't find the '${SERVICE_ID}' service to export the DBs from; the module must have been started in ` +
+                `this enclave with the service enabled (and without an external Postgres):\n${getServiceCtxResult.error.message}`
+        ));
+    }
+    const serviceCtx: ServiceContext = getServiceCtxResult.value;
+
+    // Any dumps from an earlier export are cleared out, so that only this export's end up in the files artifact
+    const prepareDirCmd: string[] = [
+        "sh",
+        "-c",
+        `rm -rf "${SNAPSHOT_EXPORT_DIRPATH_ON_CONTAINER}" && mkdir -p "${SNAPSHOT_EXPORT_DIRPATH_ON_CONTAINER}"`,
+    ];
+    const prepareDirResult: Result<string, Error> = await execCommand(serviceCtx, prepareDirCmd);
+    if (prepareDirResult.isErr()) {
+        return err(prepareDirResult.error);
+    }
+
+    const filepaths: { [db: string]: string } = {};
+    for (const db of DBS_TO_INITIALIZE) {
+        log.info(`Dumping DB '${db}'...`);
+        const filename: string = `${db}${SNAPSHOT_FILE_EXTENSION}`;
+        // The roles are generated anew every time the service starts, so the dump mustn't refer to them
+        const dumpCmd: string[] = [
+            "pg_dump",
+            "--no-owner",
+            "--no-privileges",
+            "-U",
+            POSTGRES_USER,
+            "-d",
+            db,
+            "-f",
+            path.posix.join(SNAPSHOT_EXPORT_DIRPATH_ON_CONTAINER, filename),
+        ];
+        const dumpResult: Result<string, Error> = await execCommand(serviceCtx, dumpCmd);
+        if (dumpResult.isErr()) {
+            return err(dumpResult.error);
+        }
+        filepaths[db] = getDefaultSnapshotFilepath(db);
+    }
+
+    const getMigrationVersionsResult: Result<string[], Error> = await getIndexerMigrationVersions(serviceCtx);
+    if (getMigrationVersionsResult.isErr()) {
+        return err(getMigrationVersionsResult.error);
+    }
+
+    const storeFilesResult: Result<FilesArtifactUUID, Error> = await enclaveCtx.storeServiceFiles(
+        SERVICE_ID,
+        SNAPSHOT_EXPORT_DIRPATH_ON_CONTAINER,
+    );
+    if (storeFilesResult.isErr()) {
+        return err(storeFilesResult.error);
+    }
+
+    const result: DbSnapshotExportInfo = new DbSnapshotExportInfo(
+        storeFilesResult.value,
+        filepaths,
+        getMigrationVersionsResult.value,
+    );
+    return ok(result);
+}
+
+// Returns the height of the latest block that the indexer has written to its DB, or undefined if it hasn't written any
+//  yet (including when it hasn't created its tables yet)
+export async function getIndexerDbLatestBlockHeight(serviceCtx: ServiceContext): Promise<Result<number | undefined, Error>> {
+    const queryTableExistsResult: Result<string, Error> = await runPsql(
+        serviceCtx,
+        POSTGRES_USER,
+        INDEXER_DB,
+        ["--no-align", "--tuples-only", "-c", `select to_regclass('${INDEXER_BLOCKS_TABLE}') is not null`],
+    );
+    if (queryTableExistsResult.isErr()) {
+        return err(queryTableExistsResult.error);
+    }
+    if (queryTableExistsResult.value.trim() !== "t") {
+        return ok(undefined);
+    }
+
+    // The max of no rows is null, which psql prints as an empty line
+    const queryMaxHeightResult: Result<string, Error> = await runPsql(
+        serviceCtx,
+        POSTGRES_USER,
+        INDEXER_DB,
+        ["--no-align", "--tuples-only", "-c", `select max(block_height) from ${INDEXER_BLOCKS_TABLE}`],
+    );
+    if (queryMaxHeightResult.isErr()) {
+        return err(queryMaxHeightResult.error);
+    }
+    const maxHeightStr: string = queryMaxHeightResult.value.trim();
+    if (maxHeightStr === "") {
+        return ok(undefined);
+    }
+    const result: number = Number(maxHeightStr);
+    if (!Number.isInteger(result)) {
+        return err(new Error(`Expected the latest block height in the indexer DB to be an integer, but was '${maxHeightStr}'`));
+    }
+    return ok(result);
+}
+
+function resolveSnapshotFilepaths(dbSnapshot: DbSnapshotParams): Result<Map<string, string>, Error> {
+    const result: Map<string, string> = new Map();
+    if (dbSnapshot.filepaths === undefined) {
+        for (const db of DBS_TO_INITIALIZE) {
+            result.set(db, getDefaultSnapshotFilepath(db));
+        }
+        return ok(result);
+    }
+    // Restored in the same order as the DBs are created, regardless of the order they were given in
+    for (const db of DBS_TO_INITIALIZE) {
+        const filepath: string | undefined = dbSnapshot.filepaths[db];
+        if (filepath === undefined) {
+            continue;
+        }
+        const normalizedFilepath: string = path.posix.normalize(filepath);
+        if (path.posix.isAbsolute(normalizedFilepath) || normalizedFilepath.startsWith("..")) {
+            return err(new Error(
+                `Snapshot filepath '${filepath}' of DB '${db}' must be relative to the root of files artifact '${dbSnapshot.filesArtifactUuid}'`
+            ));
+        }
+        result.set(db, normalizedFilepath);
+    }
+    return ok(result);
+}
+
+function getDefaultSnapshotFilepath(db: string): string {
+    return path.posix.join(path.posix.basename(SNAPSHOT_EXPORT_DIRPATH_ON_CONTAINER), `${db}${SNAPSHOT_FILE_EXTENSION}`);
+}
+
+// Returns the versions in ascending order, or none if diesel has never migrated the DB
+async function getIndexerMigrationVersions(serviceCtx: ServiceContext): Promise<Result<string[], Error>> {
+    const queryTableExistsResult: Result<string, Error> = await runPsql(
+        serviceCtx,
+        POSTGRES_USER,
+        INDEXER_DB,
+        ["--no-align", "--tuples-only", "-c", `select to_regclass('${DIESEL_MIGRATIONS_TABLE}') is not null`],
+    );
+    if (queryTableExistsResult.isErr()) {
+        return err(queryTableExistsResult.error);
+    }
+    if (queryTableExistsResult.value.trim() !== "t") {
+        return ok([]);
+    }
+
+    const queryVersionsResult: Result<string, Error> = await runPsql(
+        serviceCtx,
+        POSTGRES_USER,
+        INDEXER_DB,
+        ["--no-align", "--tuples-only", "-c", `select version from ${DIESEL_MIGRATIONS_TABLE} order by version`],
+    );
+    if (queryVersionsResult.isErr()) {
+        return err(queryVersionsResult.error);
+    }
+    const result: string[] = queryVersionsResult.value.split("\n").map(line => line.trim()).filter(line => line !== "");
+    return ok(result);
+}
+
+// Runs the SQL as the superuser, against the given DB
+async function runSql(serviceCtx: ServiceContext, dbName: string, sql: string): Promise<Result<null, Error>> {
+    const runPsqlResult: Result<string, Error> = await runPsql(serviceCtx, POSTGRES_USER, dbName, ["-c", sql]);
+    if (runPsqlResult.isErr()) {
+        return err(runPsqlResult.error);
+    }
+    return ok(null);
+}
+
+// Connects over the local socket, which needs no password, and stops at the first SQL error
+async function runPsql(
+    serviceCtx: ServiceContext,
+    username: string,
+    dbName: string,
+    psqlArgs: string[],
+): Promise<Result<string, Error>> {
+    const psqlCmd: string[] = [
+        "psql",
+        "-v",
+        "ON_ERROR_STOP=1",
+        "-U",
+        username,
+        "-d",
+        dbName,
+        ...psqlArgs,
+    ];
+    return execCommand(serviceCtx, psqlCmd);
+}
+
+async function execCommand(serviceCtx: ServiceContext, command: string[]): Promise<Result<string, Error>> {
+    const execCmdResult: Result<[number, string], Error> = await serviceCtx.execCommand(command);
+    if (execCmdResult.isErr()) {
+        return err(execCmdResult.error);
+    }
+    const [exitCode, logOutput]: [number, string] = execCmdResult.value;
+    if (exitCode !== EXEC_COMMAND_SUCCESS_EXIT_CODE) {
+        return err(new Error(
+            `Command '${command.join(" ")}' returned error exit code '${exitCode}' with logs:\n${logOutput}`
+        ));
+    }
+    return ok(logOutput);
+}
+
+function generatePassword(): string {
+    return crypto.randomBytes(GENERATED_PASSWORD_NUM_BYTES).toString("hex");
+}
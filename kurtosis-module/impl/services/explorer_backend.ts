@@ -2,11 +2,13 @@ import { EnclaveContext, ServiceID, ContainerConfig, ContainerConfigBuilder, Ser
 import log = require("loglevel");
 import { Result, ok, err } from "neverthrow";
 import { ContainerConfigSupplier } from "../near_module";
-import { getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { getPlannedPrivateAndPublicUrls, getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { ServicePlan } from "../service_plan";
+import { SERVICE_ADD_PHASE, StartupTimeline } from "../startup_timeline";
 
 // Explorer Backend
-const SERVICE_ID: ServiceID = "explorer-backend";
-const IMAGE: string = "kurtosistech/near-explorer_backend:924c832";
+export const SERVICE_ID: ServiceID = "explorer-backend";
+export const DEFAULT_IMAGE: string = "kurtosistech/near-explorer_backend:924c832";
 const PORT_ID = "http";
 const PORT_APP_PROTOCOL = "http"
 const PRIVATE_PORT_NUM: number = 8080;
@@ -56,10 +58,15 @@ export class ExplorerBackendInfo {
 
 export async function addExplorerBackendService(
     enclaveCtx: EnclaveContext,
+    timeline: StartupTimeline,
+    image: string,
     nearNodePrivateRpcUrl: ServiceUrl,
     indexerDbPrivateUrl: ServiceUrl,
-    indexerDbUsername: string,
-    indexerDbUserPassword: string,
+    // Used for everything but writing telemetry, so it only needs read access
+    readOnlyDbUsername: string,
+    readOnlyDbUserPassword: string,
+    telemetryWriterDbUsername: string,
+    telemetryWriterDbUserPassword: string,
     indexerDbName: string,
     analyticsDbName: string,
     telemetryDbName: string,
@@ -71,6 +78,99 @@ export async function addExplorerBackendService(
 ): Promise<Result<ExplorerBackendInfo, Error>> {
     log.info(`Adding explorer backend service`);
 
+    const containerConfig: ContainerConfig = buildContainerConfig(
+        image,
+        nearNodePrivateRpcUrl,
+        indexerDbPrivateUrl,
+        readOnlyDbUsername,
+        readOnlyDbUserPassword,
+        telemetryWriterDbUsername,
+        telemetryWriterDbUserPassword,
+        indexerDbName,
+        analyticsDbName,
+        telemetryDbName,
+    );
+    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
+        return ok(containerConfig);
+    }
+    
+    const addServiceResult: Result<ServiceContext, Error> = await timeline.record(
+        SERVICE_ID,
+        SERVICE_ADD_PHASE,
+        () => enclaveCtx.addService(SERVICE_ID, containerConfigSupplier),
+    );
+    if (addServiceResult.isErr()) {
+        return err(addServiceResult.error);
+    }
+    const serviceCtx = addServiceResult.value;
+
+    const getUrlsResult = getPrivateAndPublicUrlsForPortId(
+        serviceCtx,
+        PORT_ID,
+        PORT_APP_PROTOCOL,
+        URL_PATH,
+    );
+    if (getUrlsResult.isErr()) {
+        return err(getUrlsResult.error);
+    }
+    const [privateUrl, publicUrl] = getUrlsResult.value;
+
+    const result: ExplorerBackendInfo = new ExplorerBackendInfo(
+        privateUrl,
+        publicUrl,
+    );
+
+    return ok(result);
+}
+
+export function planExplorerBackendService(
+    image: string,
+    nearNodePrivateRpcUrl: ServiceUrl,
+    indexerDbPrivateUrl: ServiceUrl,
+    readOnlyDbUsername: string,
+    readOnlyDbUserPassword: string,
+    telemetryWriterDbUsername: string,
+    telemetryWriterDbUserPassword: string,
+    indexerDbName: string,
+    analyticsDbName: string,
+    telemetryDbName: string,
+    publicIpAddress: string,
+): ServicePlan<ExplorerBackendInfo> {
+    const containerConfig: ContainerConfig = buildContainerConfig(
+        image,
+        nearNodePrivateRpcUrl,
+        indexerDbPrivateUrl,
+        readOnlyDbUsername,
+        readOnlyDbUserPassword,
+        telemetryWriterDbUsername,
+        telemetryWriterDbUserPassword,
+        indexerDbName,
+        analyticsDbName,
+        telemetryDbName,
+    );
+    const [privateUrl, publicUrl] = getPlannedPrivateAndPublicUrls(
+        SERVICE_ID,
+        PRIVATE_PORT_NUM,
+        publicIpAddress,
+        undefined,
+        PORT_APP_PROTOCOL,
+        URL_PATH,
+    );
+    return new ServicePlan(SERVICE_ID, containerConfig, new ExplorerBackendInfo(privateUrl, publicUrl), new Map());
+}
+
+function buildContainerConfig(
+    image: string,
+    nearNodePrivateRpcUrl: ServiceUrl,
+    indexerDbPrivateUrl: ServiceUrl,
+    readOnlyDbUsername: string,
+    readOnlyDbUserPassword: string,
+    telemetryWriterDbUsername: string,
+    telemetryWriterDbUserPassword: string,
+    indexerDbName: string,
+    analyticsDbName: string,
+    telemetryDbName: string,
+): ContainerConfig {
     const usedPorts: Map<string, PortSpec> = new Map();
     usedPorts.set(PORT_ID, PRIVATE_PORT_SPEC);
 
@@ -81,24 +181,24 @@ export async function addExplorerBackendService(
         [PORT_ENVVAR, PRIVATE_PORT_NUM.toString()],
 
         // Indexer DB envvars
-        [NEAR_READ_ONLY_INDEXER_DATABASE_USERNAME_ENVVAR, indexerDbUsername],
-        [NEAR_READ_ONLY_INDEXER_DATABASE_PASSWORD_ENVVAR, indexerDbUserPassword],
+        [NEAR_READ_ONLY_INDEXER_DATABASE_USERNAME_ENVVAR, readOnlyDbUsername],
+        [NEAR_READ_ONLY_INDEXER_DATABASE_PASSWORD_ENVVAR, readOnlyDbUserPassword],
         [NEAR_READ_ONLY_INDEXER_DATABASE_HOST_ENVVAR, indexerDbPrivateUrl.ipAddress],
         [NEAR_READ_ONLY_INDEXER_DATABASE_NAME_ENVVAR, indexerDbName],
 
         // Analytics DB envvars
-        [NEAR_READ_ONLY_ANALYTICS_DATABASE_USERNAME_ENVVAR, indexerDbUsername],
-        [NEAR_READ_ONLY_ANALYTICS_DATABASE_PASSWORD_ENVVAR, indexerDbUserPassword],
+        [NEAR_READ_ONLY_ANALYTICS_DATABASE_USERNAME_ENVVAR, readOnlyDbUsername],
+        [NEAR_READ_ONLY_ANALYTICS_DATABASE_PASSWORD_ENVVAR, readOnlyDbUserPassword],
         [NEAR_READ_ONLY_ANALYTICS_DATABASE_HOST_ENVVAR, indexerDbPrivateUrl.ipAddress],
         [NEAR_READ_ONLY_ANALYTICS_DATABASE_NAME_ENVVAR, analyticsDbName],
 
         // Telemetry DB envvars
-        [NEAR_READ_ONLY_TELEMETRY_DATABASE_USERNAME_ENVVAR, indexerDbUsername],
-        [NEAR_READ_ONLY_TELEMETRY_DATABASE_PASSWORD_ENVVAR, indexerDbUserPassword],
+        [NEAR_READ_ONLY_TELEMETRY_DATABASE_USERNAME_ENVVAR, readOnlyDbUsername],
+        [NEAR_READ_ONLY_TELEMETRY_DATABASE_PASSWORD_ENVVAR, readOnlyDbUserPassword],
         [NEAR_READ_ONLY_TELEMETRY_DATABASE_HOST_ENVVAR, indexerDbPrivateUrl.ipAddress],
         [NEAR_READ_ONLY_TELEMETRY_DATABASE_NAME_ENVVAR, telemetryDbName],
-        [NEAR_WRITE_ONLY_TELEMETRY_DATABASE_USERNAME_ENVVAR, indexerDbUsername],
-        [NEAR_WRITE_ONLY_TELEMETRY_DATABASE_PASSWORD_ENVVAR, indexerDbUserPassword],
+        [NEAR_WRITE_ONLY_TELEMETRY_DATABASE_USERNAME_ENVVAR, telemetryWriterDbUsername],
+        [NEAR_WRITE_ONLY_TELEMETRY_DATABASE_PASSWORD_ENVVAR, telemetryWriterDbUserPassword],
         [NEAR_WRITE_ONLY_TELEMETRY_DATABASE_HOST_ENVVAR, indexerDbPrivateUrl.ipAddress],
         [NEAR_WRITE_ONLY_TELEMETRY_DATABASE_NAME_ENVVAR, telemetryDbName],
 
@@ -113,38 +213,12 @@ export async function addExplorerBackendService(
         envVars.set(key, value);
     }
 
-    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
-        const result: ContainerConfig = new ContainerConfigBuilder(
-            IMAGE,
-        ).withEnvironmentVariableOverrides(
-            envVars
-        ).withUsedPorts(
-            usedPorts,
-        ).build();
-        return ok(result);
-    }
-    
-    const addServiceResult: Result<ServiceContext, Error> = await enclaveCtx.addService(SERVICE_ID, containerConfigSupplier);
-    if (addServiceResult.isErr()) {
-        return err(addServiceResult.error);
-    }
-    const serviceCtx = addServiceResult.value;
-
-    const getUrlsResult = getPrivateAndPublicUrlsForPortId(
-        serviceCtx,
-        PORT_ID,
-        PORT_APP_PROTOCOL,
-        URL_PATH,
-    );
-    if (getUrlsResult.isErr()) {
-        return err(getUrlsResult.error);
-    }
-    const [privateUrl, publicUrl] = getUrlsResult.value;
-
-    const result: ExplorerBackendInfo = new ExplorerBackendInfo(
-        privateUrl,
-        publicUrl,
-    );
-
-    return ok(result);
+    const result: ContainerConfig = new ContainerConfigBuilder(
+        image,
+    ).withEnvironmentVariableOverrides(
+        envVars
+    ).withUsedPorts(
+        usedPorts,
+    ).build();
+    return result;
 }
@@ -2,77 +2,185 @@ import { EnclaveContext, ServiceID, ContainerConfig, ContainerConfigBuilder, Ser
 import log = require("loglevel");
 import { Result, ok, err } from "neverthrow";
 import { ContainerConfigSupplier } from "../near_module";
-import { waitForPortAvailability } from "../service_port_availability_checker";
-import { getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
-import { PUBLIC_PORT_NUM as WALLET_PUBLIC_PORT_NUM } from "./wallet";
-
-const SERVICE_ID: ServiceID = "explorer-frontend";
-const PORT_ID = "http";
-const PORT_PROTOCOL = "http";
-const IMAGE: string = "kurtosistech/near-explorer_frontend:924c832";
+import { NetworkIdentity } from "../network_identity";
+import { HttpOkProbe } from "../readiness/http_ok_probe";
+import { waitForReadiness } from "../readiness/readiness_probe";
+import { RetryPolicy } from "../retry_policy";
+import { getPlannedPrivateAndPublicUrls, getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { ServicePlan } from "../service_plan";
+import { READINESS_PHASE, SERVICE_ADD_PHASE, StartupTimeline } from "../startup_timeline";
+
+export const SERVICE_ID: ServiceID = "explorer-frontend";
+export const PORT_ID = "http";
+export const PORT_PROTOCOL = "http";
+export const DEFAULT_IMAGE: string = "kurtosistech/near-explorer_frontend:924c832";
 const PRIVATE_PORT_NUM: number = 3000;
-const PUBLIC_PORT_NUM: number = 8331;
+export const DEFAULT_PUBLIC_PORT_NUM: number = 8331;
 const PRIVATE_PORT_SPEC = new PortSpec(PRIVATE_PORT_NUM, PortProtocol.TCP);
-const PUBLIC_PORT_SPEC = new PortSpec(PUBLIC_PORT_NUM, PortProtocol.TCP);
+const WALLET_PROFILE_PATH: string = "/profile";
+// The fields of the localnet network config, the first two of which link to other services
+const EXPLORER_LINK_CONFIG_FIELD: string = "explorerLink";
+const WALLET_PROFILE_PREFIX_CONFIG_FIELD: string = "nearWalletProfilePrefix";
+const ALIASES_CONFIG_FIELD: string = "aliases";
+
+// The public networks that the Explorer knows about out of the box; the localnet's config is added to these under its
+//  network ID (replacing any of these with the same name)
+const PUBLIC_NETWORKS_CONFIG: { [networkName: string]: { [configField: string]: any } } = {
+    "mainnet": {
+        "explorerLink": "https://explorer.near.org/",
+        "aliases": ["explorer.near.org", "explorer.mainnet.near.org", "explorer.nearprotocol.com", "explorer.mainnet.nearprotocol.com"],
+        "nearWalletProfilePrefix": "https://wallet.near.org/profile"
+    },
+    "testnet": {
+        "explorerLink": "https://explorer.testnet.near.org/",
+        "aliases": ["explorer.testnet.near.org", "explorer.testnet.nearprotocol.com"],
+        "nearWalletProfilePrefix": "https://wallet.testnet.near.org/profile"
+    },
+    "guildnet": {
+        "explorerLink": "https://explorer.guildnet.near.org/",
+        "aliases": ["explorer.guildnet.near.org"],
+        "nearWalletProfilePrefix": "https://wallet.openshards.io/profile"
+    },
+};
 
-const MILLIS_BETWEEN_PORT_AVAILABILITY_RETRIES: number = 500;
-const PORT_AVAILABILITY_TIMEOUT_MILLIS:  number = 5_000;
+export const DEFAULT_READINESS_TIMEOUT_MILLIS: number = 60_000;
 
 export class ExplorerFrontendInfo {
     constructor (
         public readonly publicUrl: ServiceUrl,
+        // The URLs of other services that the Explorer Frontend was configured with, keyed by localnet network config field
+        public readonly linkedUrls: { [configField: string]: string },
     ) {}
 }
 
 export async function addExplorerFrontendService(
     enclaveCtx: EnclaveContext, 
+    timeline: StartupTimeline,
+    image: string,
     userRequestedBackendIpAddress: string,
+    networkIdentity: NetworkIdentity,
     // The IP address to use for connecting to the backend services
     explorerBackendPrivateUrl: ServiceUrl,
     explorerBackendPublicUrl: ServiceUrl,
+    // Undefined if the Wallet isn't started (or its public URL isn't known yet), in which case the Explorer won't link to it
+    walletPublicUrl: ServiceUrl | undefined,
+    // Undefined to have a free public port allocated automatically
+    publicPortNum: number | undefined,
+    readinessRetryPolicy: RetryPolicy,
 ): Promise<Result<ExplorerFrontendInfo, Error>> {
     log.info(`Adding explorer frontend service running on port '${PRIVATE_PORT_NUM}'`);
+    const [containerConfig, linkedUrls] = buildContainerConfig(
+        image,
+        userRequestedBackendIpAddress,
+        networkIdentity,
+        explorerBackendPrivateUrl,
+        explorerBackendPublicUrl,
+        walletPublicUrl,
+        publicPortNum,
+    );
+    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
+        return ok(containerConfig);
+    }
+    
+    const addServiceResult: Result<ServiceContext, Error> = await timeline.record(
+        SERVICE_ID,
+        SERVICE_ADD_PHASE,
+        () => enclaveCtx.addService(SERVICE_ID, containerConfigSupplier),
+    );
+    if (addServiceResult.isErr()) {
+        return err(addServiceResult.error);
+    }
+    const serviceCtx = addServiceResult.value;
+
+    const getUrlsResult = getPrivateAndPublicUrlsForPortId(
+        serviceCtx,
+        PORT_ID,
+        PORT_PROTOCOL,
+        "",
+    );
+    if (getUrlsResult.isErr()) {
+        return err(getUrlsResult.error);
+    }
+    const [privateUrl, publicUrl] = getUrlsResult.value;
+
+    const waitForReadinessResult: Result<null, Error> = await timeline.record(SERVICE_ID, READINESS_PHASE, () => waitForReadiness(
+        new HttpOkProbe(SERVICE_ID, privateUrl, true),
+        readinessRetryPolicy,
+    ));
+    if (waitForReadinessResult.isErr()) {
+        return err(waitForReadinessResult.error);
+    }
+
+    const result: ExplorerFrontendInfo = new ExplorerFrontendInfo(publicUrl, linkedUrls);
+    return ok(result);
+}
+
+// The planned info's public URL is on the backend IP address
+export function planExplorerFrontendService(
+    image: string,
+    userRequestedBackendIpAddress: string,
+    networkIdentity: NetworkIdentity,
+    explorerBackendPrivateUrl: ServiceUrl,
+    explorerBackendPublicUrl: ServiceUrl,
+    walletPublicUrl: ServiceUrl | undefined,
+    publicPortNum: number | undefined,
+): ServicePlan<ExplorerFrontendInfo> {
+    const [containerConfig, linkedUrls] = buildContainerConfig(
+        image,
+        userRequestedBackendIpAddress,
+        networkIdentity,
+        explorerBackendPrivateUrl,
+        explorerBackendPublicUrl,
+        walletPublicUrl,
+        publicPortNum,
+    );
+    const [, publicUrl] = getPlannedPrivateAndPublicUrls(
+        SERVICE_ID,
+        PRIVATE_PORT_NUM,
+        userRequestedBackendIpAddress,
+        publicPortNum,
+        PORT_PROTOCOL,
+        "",
+    );
+    return new ServicePlan(SERVICE_ID, containerConfig, new ExplorerFrontendInfo(publicUrl, linkedUrls), new Map());
+}
+
+// Returns the container config & the URLs of other services that it links to, keyed by localnet network config field
+function buildContainerConfig(
+    image: string,
+    userRequestedBackendIpAddress: string,
+    networkIdentity: NetworkIdentity,
+    explorerBackendPrivateUrl: ServiceUrl,
+    explorerBackendPublicUrl: ServiceUrl,
+    walletPublicUrl: ServiceUrl | undefined,
+    publicPortNum: number | undefined,
+): [ContainerConfig, { [configField: string]: string }] {
     const usedPorts: Map<string, PortSpec> = new Map();
     usedPorts.set(PORT_ID, PRIVATE_PORT_SPEC);
 
     const publicPorts: Map<string, PortSpec> = new Map();
-    publicPorts.set(PORT_ID, PUBLIC_PORT_SPEC);
+    if (publicPortNum !== undefined) {
+        publicPorts.set(PORT_ID, new PortSpec(publicPortNum, PortProtocol.TCP));
+    }
 
     const backendPrivateIp = explorerBackendPrivateUrl.ipAddress
 
-    // There's a circular dependency between the Explorer Frontend and the Wallet, where
-    // the Wallet wants to display a link to the Explorer and the Wallet wants to display a link to the Explorer
-    // Frontend. To break this cycle, we have the Wallet start on a static public port and the Explorer show
-    // a link to the Wallet using that static public port before the Wallet has started (and the Wallet will be
-    // started afterwards). This code here is for creating the link to the Wallet before the Wallet has started.
-    const walletPublicUrl = `http://${userRequestedBackendIpAddress}:${WALLET_PUBLIC_PORT_NUM}`
-    const networksConfigJson: string = `
-    {
-        "mainnet": {
-            "explorerLink": "https://explorer.near.org/",
-            "aliases": ["explorer.near.org", "explorer.mainnet.near.org", "explorer.nearprotocol.com", "explorer.mainnet.nearprotocol.com"],
-            "nearWalletProfilePrefix": "https://wallet.near.org/profile"
-        },
-        "testnet": {
-            "explorerLink": "https://explorer.testnet.near.org/",
-            "aliases": ["explorer.testnet.near.org", "explorer.testnet.nearprotocol.com"],
-            "nearWalletProfilePrefix": "https://wallet.testnet.near.org/profile"
-        },
-        "guildnet": {
-            "explorerLink": "https://explorer.guildnet.near.org/",
-            "aliases": ["explorer.guildnet.near.org"],
-            "nearWalletProfilePrefix": "https://wallet.openshards.io/profile"
-        },
-        "localnet": {
-            "explorerLink": "${explorerBackendPublicUrl.toStringWithIpAddressOverride(userRequestedBackendIpAddress)}",
-            "aliases": [],
-            "nearWalletProfilePrefix": "${walletPublicUrl}/profile"
-        }
+    const walletProfilePrefix = walletPublicUrl !== undefined ?
+        `${walletPublicUrl.toStringWithIpAddressOverride(userRequestedBackendIpAddress)}${WALLET_PROFILE_PATH}` :
+        "";
+    const explorerLink: string = explorerBackendPublicUrl.toStringWithIpAddressOverride(userRequestedBackendIpAddress);
+    const networksConfig: { [networkName: string]: { [configField: string]: any } } = {};
+    for (const [networkName, networkConfig] of Object.entries(PUBLIC_NETWORKS_CONFIG)) {
+        networksConfig[networkName] = networkConfig;
     }
-    `
+    networksConfig[networkIdentity.networkId] = {
+        [EXPLORER_LINK_CONFIG_FIELD]: explorerLink,
+        [ALIASES_CONFIG_FIELD]: [],
+        [WALLET_PROFILE_PREFIX_CONFIG_FIELD]: walletProfilePrefix,
+    };
+    const networksConfigJson: string = JSON.stringify(networksConfig);
     const envVars: Map<string, string> = new Map([
-        // TODO MAKE THIS MATCH BACKEND???
-        ["NEAR_EXPLORER_CONFIG__NETWORK_NAME", "localnet"],
+        ["NEAR_EXPLORER_CONFIG__NETWORK_NAME", networkIdentity.networkId],
         ["NEAR_EXPLORER_CONFIG__NETWORKS", networksConfigJson],
 
         ["PORT", PRIVATE_PORT_NUM.toString()],
@@ -90,46 +198,19 @@ export async function addExplorerFrontendService(
         ["NEAR_EXPLORER_CONFIG__BACKEND__SECURE", "false"],
     ]);
 
-    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
-        const result: ContainerConfig = new ContainerConfigBuilder(
-            IMAGE,
-        ).withUsedPorts(
-            usedPorts,
-        ).withPublicPorts(
-            publicPorts,
-        ).withEnvironmentVariableOverrides(
-                envVars
-        ).build();
-        return ok(result);
-    }
-    
-    const addServiceResult: Result<ServiceContext, Error> = await enclaveCtx.addService(SERVICE_ID, containerConfigSupplier);
-    if (addServiceResult.isErr()) {
-        return err(addServiceResult.error);
-    }
-    const serviceCtx = addServiceResult.value;
-
-    const waitForPortAvailabilityResult = await waitForPortAvailability(
-        PRIVATE_PORT_NUM,
-        serviceCtx.getPrivateIPAddress(),
-        MILLIS_BETWEEN_PORT_AVAILABILITY_RETRIES,
-        PORT_AVAILABILITY_TIMEOUT_MILLIS,
-    )
-    if (waitForPortAvailabilityResult.isErr()) {
-        return err(waitForPortAvailabilityResult.error);
-    }
-
-    const getUrlsResult = getPrivateAndPublicUrlsForPortId(
-        serviceCtx,
-        PORT_ID,
-        PORT_PROTOCOL,
-        "",
-    );
-    if (getUrlsResult.isErr()) {
-        return err(getUrlsResult.error);
-    }
-    const [privateUrl, publicUrl] = getUrlsResult.value;
+    const containerConfig: ContainerConfig = new ContainerConfigBuilder(
+        image,
+    ).withUsedPorts(
+        usedPorts,
+    ).withPublicPorts(
+        publicPorts,
+    ).withEnvironmentVariableOverrides(
+            envVars
+    ).build();
 
-    const result: ExplorerFrontendInfo = new ExplorerFrontendInfo(publicUrl);
-    return ok(result);
-}
\ No newline at end of file
+    const linkedUrls: { [configField: string]: string } = {
+        [EXPLORER_LINK_CONFIG_FIELD]: explorerLink,
+        [WALLET_PROFILE_PREFIX_CONFIG_FIELD]: walletProfilePrefix,
+    };
+    return [containerConfig, linkedUrls];
+}
@@ -0,0 +1,111 @@
+import { FilesArtifactUUID, EnclaveContext, ServiceID, ContainerConfig, ContainerConfigBuilder, ServiceContext } from "kurtosis-core-api-lib";
+import * as log from "loglevel";
+import { Result, ok, err } from "neverthrow";
+import * as path from "path";
+import { EXEC_COMMAND_SUCCESS_EXIT_CODE } from "../consts";
+import { ContainerConfigSupplier } from "../near_module";
+import { ServicePlan } from "../service_plan";
+import { SERVICE_ADD_PHASE, StartupTimeline } from "../startup_timeline";
+
+// The module can't download files artifacts through the API, so this throwaway service mounts them & hands their
+//  files back over exec
+export const SERVICE_ID: ServiceID = "files-artifact-reader";
+export const DEFAULT_IMAGE: string = "alpine:3.15";
+
+const FILES_ARTIFACTS_MOUNT_DIRPATH: string = "/files-artifacts";
+// Keeps the container alive until it's removed
+const IDLE_CMD: string[] = [
+    "tail",
+    "-f",
+    "/dev/null",
+];
+const CONTAINER_STOP_TIMEOUT_SECONDS: number = 5;
+
+// Identifies a file inside a files artifact
+export class FilesArtifactFile {
+    constructor(
+        public readonly filesArtifactUuid: FilesArtifactUUID,
+        // Relative to the root of the files artifact, e.g. "out/main.wasm"
+        public readonly filepath: string,
+    ) {}
+}
+
+// Returns the contents of each file, in the same order as the files were given
+export async function readFilesArtifactFiles(
+    enclaveCtx: EnclaveContext,
+    timeline: StartupTimeline,
+    image: string,
+    files: FilesArtifactFile[],
+): Promise<Result<Buffer[], Error>> {
+    log.info(`Adding files artifact reader to read ${files.length} files...`);
+    const plan: ServicePlan<null> = planFilesArtifactReader(image, files);
+    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
+        return ok(plan.containerConfig);
+    }
+
+    const addServiceResult: Result<ServiceContext, Error> = await timeline.record(
+        SERVICE_ID,
+        SERVICE_ADD_PHASE,
+        () => enclaveCtx.addService(SERVICE_ID, containerConfigSupplier),
+    );
+    if (addServiceResult.isErr()) {
+        return err(addServiceResult.error);
+    }
+    const serviceCtx: ServiceContext = addServiceResult.value;
+
+    const readFilesResult: Result<Buffer[], Error> = await readFiles(serviceCtx, files);
+
+    // The reader is only needed for as long as it takes to read the files, so it's removed even if reading failed
+    const removeServiceResult: Result<null, Error> = await enclaveCtx.removeService(SERVICE_ID, CONTAINER_STOP_TIMEOUT_SECONDS);
+    if (readFilesResult.isErr()) {
+        return err(readFilesResult.error);
+    }
+    if (removeServiceResult.isErr()) {
+        return err(removeServiceResult.error);
+    }
+    return ok(readFilesResult.value);
+}
+
+export function planFilesArtifactReader(image: string, files: FilesArtifactFile[]): ServicePlan<null> {
+    const filesArtifactMounts = new Map<FilesArtifactUUID, string>();
+    for (const file of files) {
+        filesArtifactMounts.set(file.filesArtifactUuid, path.join(FILES_ARTIFACTS_MOUNT_DIRPATH, file.filesArtifactUuid));
+    }
+
+    const containerConfig: ContainerConfig = new ContainerConfigBuilder(
+        image,
+    ).withCmdOverride(
+        IDLE_CMD,
+    ).withFiles(
+        filesArtifactMounts,
+    ).build();
+    return new ServicePlan(SERVICE_ID, containerConfig, null, new Map());
+}
+
+async function readFiles(serviceCtx: ServiceContext, files: FilesArtifactFile[]): Promise<Result<Buffer[], Error>> {
+    const result: Buffer[] = [];
+    for (const file of files) {
+        const normalizedFilepath: string = path.posix.normalize(file.filepath);
+        if (path.posix.isAbsolute(normalizedFilepath) || normalizedFilepath.startsWith("..")) {
+            return err(new Error(`Filepath '${file.filepath}' must be relative to the root of files artifact '${file.filesArtifactUuid}'`));
+        }
+        const filepathOnContainer: string = path.posix.join(FILES_ARTIFACTS_MOUNT_DIRPATH, file.filesArtifactUuid, normalizedFilepath);
+        // The exec output is text, so the (binary) file gets base64-encoded on the way out
+        const readFileCmd: string[] = [
+            "base64",
+            filepathOnContainer,
+        ];
+        const execCmdResult: Result<[number, string], Error> = await serviceCtx.execCommand(readFileCmd);
+        if (execCmdResult.isErr()) {
+            return err(execCmdResult.error);
+        }
+        const [exitCode, logOutput] = execCmdResult.value;
+        if (exitCode !== EXEC_COMMAND_SUCCESS_EXIT_CODE) {
+            return err(new Error(
+                `Reading file '${file.filepath}' from files artifact '${file.filesArtifactUuid}' failed with exit code ${exitCode} and logs:\n${logOutput}`
+            ));
+        }
+        result.push(Buffer.from(logOutput.replace(/\s/g, ""), "base64"));
+    }
+    return ok(result);
+}
@@ -3,25 +3,29 @@ import * as log from "loglevel";
 import { Result, ok, err } from "neverthrow";
 import { EXEC_COMMAND_SUCCESS_EXIT_CODE } from "../consts";
 import { ContainerConfigSupplier } from "../near_module";
-import { getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { getPlannedPrivateAndPublicUrls, getPostgresConnectionUrl, getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { getPlannedPrivateIpAddress, ServicePlan } from "../service_plan";
 import * as path from "path";
-import { waitForPortAvailability } from "../service_port_availability_checker"
+import { NearNodeStatusProbe } from "../readiness/near_node_status_probe";
+import { waitForReadiness } from "../readiness/readiness_probe";
+import { RetryPolicy, retryWithBackoff } from "../retry_policy";
+import { LOCALNET_CONFIG_DIRNAME } from "../localnet_configs";
+import { parseValidatorKey, ValidatorKey } from "../validator_key";
+import { getIndexerRunArgs, IndexerSyncConfig } from "../indexer_sync";
+import { FILES_UPLOAD_PHASE, READINESS_PHASE, SERVICE_ADD_PHASE, VALIDATOR_KEY_FETCH_PHASE, StartupTimeline } from "../startup_timeline";
 
-const SERVICE_ID: ServiceID = "indexer-node"
-const IMAGE: string = "kurtosistech/near-indexer-for-explorer:c07fb7b";
+export const SERVICE_ID: ServiceID = "indexer-node"
+export const DEFAULT_IMAGE: string = "kurtosistech/near-indexer-for-explorer:c07fb7b";
 const RPC_PRIVATE_PORT_NUM: number = 3030;
-const RPC_PUBLIC_PORT_NUM: number = 8332;
-const RPC_PORT_ID = "rpc";
+export const DEFAULT_RPC_PUBLIC_PORT_NUM: number = 8332;
+export const RPC_PORT_ID = "rpc";
 const RPC_PRIVATE_PORT_SPEC = new PortSpec(RPC_PRIVATE_PORT_NUM, PortProtocol.TCP);
-const RPC_PUBLIC_PORT_SPEC = new PortSpec(RPC_PUBLIC_PORT_NUM, PortProtocol.TCP);
-const RPC_PORT_PROTOCOL = "http";
+export const RPC_PORT_PROTOCOL = "http";
 const GOSSIP_PRIVATE_PORT_NUM: number = 24567;
-const GOSSIP_PUBLIC_PORT_NUM: number = 8333;
-const GOSSIP_PORT_ID = "gossip";
+export const DEFAULT_GOSSIP_PUBLIC_PORT_NUM: number = 8333;
+export const GOSSIP_PORT_ID = "gossip";
 const GOSSIP_PRIVATE_PORT_SPEC = new PortSpec(GOSSIP_PRIVATE_PORT_NUM, PortProtocol.TCP);
-const GOSSIP_PUBLIC_PORT_SPEC = new PortSpec(GOSSIP_PUBLIC_PORT_NUM, PortProtocol.TCP);
 
-const LOCALNET_CONFIG_DIRPATH_ON_MODULE = "/static-files/near-configs/localnet"
 const NEAR_CONFIGS_DIRPATH_ON_INDEXER_CONTAINER = "/root/.near"
 
 const DATABASE_URL_ENVVAR = "DATABASE_URL";
@@ -32,105 +36,99 @@ const GET_VALIDATOR_KEY_CMD: string[] = [
     VALIDATOR_KEY_FILEPATH
 ]
 
-const MAX_NUM_GET_VALIDATOR_KEY_RETRIES: number = 20;
-const MILLIS_BETWEEN_GET_VALIDATOR_KEY_RETRIES: number = 500;
+// The key file is generated when the node initializes, which is quick
+export const DEFAULT_GET_VALIDATOR_KEY_TIMEOUT_MILLIS: number = 10_000;
 
-const MILLIS_BETWEEN_PORT_AVAILABILITY_RETRIES: number = 500;
-const PORT_AVAILABILITY_TIMEOUT_MILLIS:  number = 10_000;
+// The indexer's diesel migrations, one directory per migration named "<timestamp>_<name>" (e.g.
+//  "2020-12-07-153402_initial_schema"), relative to the image's working directory
+const MIGRATIONS_DIRPATH: string = "migrations";
+// Reads the migrations out of the indexer image, so that a restored indexer DB can be checked against them
+const MIGRATIONS_READER_SERVICE_ID: ServiceID = "indexer-migrations-reader";
+// Keeps the container alive until it's removed
+const IDLE_CMD: string = "tail -f /dev/null";
+const CONTAINER_STOP_TIMEOUT_SECONDS: number = 5;
+
+// Covers running the DB migrations, starting the node, and producing the first block
+export const DEFAULT_READINESS_TIMEOUT_MILLIS: number = 120_000;
 
 export class IndexerInfo {
     constructor(
         public readonly privateRpcUrl: ServiceUrl,
         public readonly publicRpcUrl: ServiceUrl,
-        public readonly validatorKey: Object,
+        public readonly validatorKey: ValidatorKey,
+        // The "IP:port" address that other NEAR nodes can use to reach this node's gossip port
+        public readonly privateGossipAddress: string,
     ) {}
 }
 
 export async function addIndexer(
     enclaveCtx: EnclaveContext,
+    timeline: StartupTimeline,
+    image: string,
+    // Dirpath on the module container of the config directory that the node will use
+    localnetConfigDirpath: string,
     dbPrivateUrl: ServiceUrl,
     dbUsername: string,
     dbUserPassword: string,
     dbName: string,
+    syncConfig: IndexerSyncConfig,
+    // The block height the node must reach before it's considered ready (see NearNodeStatusProbe)
+    minReadyBlockHeight: number,
+    // Either of these being undefined has a free public port allocated automatically for it
+    rpcPublicPortNum: number | undefined,
+    gossipPublicPortNum: number | undefined,
+    getValidatorKeyRetryPolicy: RetryPolicy,
+    readinessRetryPolicy: RetryPolicy,
 ): Promise<Result<IndexerInfo, Error>> {
     log.info(`Adding indexer service...`);
 
     // Send the genesis file to Kurtosis
-    const uploadLocalnetConfigResult = await enclaveCtx.uploadFiles(LOCALNET_CONFIG_DIRPATH_ON_MODULE)
+    const uploadLocalnetConfigResult = await timeline.record(SERVICE_ID, FILES_UPLOAD_PHASE, () => enclaveCtx.uploadFiles(localnetConfigDirpath))
     if (uploadLocalnetConfigResult.isErr()) {
         return err(uploadLocalnetConfigResult.error)
     }
     const localnetConfigFilesArtifactUuid = uploadLocalnetConfigResult.value;
 
-    const usedPorts: Map<string, PortSpec> = new Map();
-    usedPorts.set(RPC_PORT_ID, RPC_PRIVATE_PORT_SPEC);
-    usedPorts.set(GOSSIP_PORT_ID, GOSSIP_PRIVATE_PORT_SPEC);
-
-    const publicPorts: Map<string, PortSpec> = new Map();
-    publicPorts.set(RPC_PORT_ID, RPC_PUBLIC_PORT_SPEC);
-    publicPorts.set(GOSSIP_PORT_ID, GOSSIP_PUBLIC_PORT_SPEC);
-
-    const envvars: Map<string, string> = new Map();
-    envvars.set(
-        DATABASE_URL_ENVVAR,
-        `postgres://${dbUsername}:${dbUserPassword}@${dbPrivateUrl.ipAddress}:${dbPrivateUrl.portNumber}/${dbName}`
-    )
-
-    const localnetConfigDirpath = path.join(
-        NEAR_CONFIGS_DIRPATH_ON_INDEXER_CONTAINER,
-        path.basename(LOCALNET_CONFIG_DIRPATH_ON_MODULE),
-    )
-    const commandToRun = `./diesel migration run && ./indexer-explorer --home-dir "${localnetConfigDirpath}" run --store-genesis sync-from-latest`
-
-    const filesArtifactMounts = new Map<FilesArtifactUUID, string>();
-    filesArtifactMounts.set(localnetConfigFilesArtifactUuid, NEAR_CONFIGS_DIRPATH_ON_INDEXER_CONTAINER)
-
+    const containerConfig: ContainerConfig = buildContainerConfig(
+        image,
+        localnetConfigFilesArtifactUuid,
+        dbPrivateUrl,
+        dbUsername,
+        dbUserPassword,
+        dbName,
+        syncConfig,
+        rpcPublicPortNum,
+        gossipPublicPortNum,
+    );
     const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
-        const result: ContainerConfig = new ContainerConfigBuilder(
-            IMAGE,
-        ).withEnvironmentVariableOverrides(
-            envvars
-        ).withEntrypointOverride([
-            "sh",
-            "-c",
-        ]).withCmdOverride([
-            commandToRun,
-        ]).withUsedPorts(
-            usedPorts
-        ).withPublicPorts(
-            publicPorts,
-        ).withFiles(
-            filesArtifactMounts,
-        ).build();
-        return ok(result);
+        return ok(containerConfig);
     }
     
-    const addServiceResult: Result<ServiceContext, Error> = await enclaveCtx.addService(SERVICE_ID, containerConfigSupplier);
+    const addServiceResult: Result<ServiceContext, Error> = await timeline.record(
+        SERVICE_ID,
+        SERVICE_ADD_PHASE,
+        () => enclaveCtx.addService(SERVICE_ID, containerConfigSupplier),
+    );
     if (addServiceResult.isErr()) {
         return err(addServiceResult.error);
     }
     const serviceCtx = addServiceResult.value;
 
-    const getValidatorKeyResult: Result<string, Error> = await getValidatorKeyWithRetry(serviceCtx);
+    const getValidatorKeyResult: Result<string, Error> = await timeline.record(
+        SERVICE_ID,
+        VALIDATOR_KEY_FETCH_PHASE,
+        () => getValidatorKeyWithRetry(serviceCtx, getValidatorKeyRetryPolicy),
+    );
     if (getValidatorKeyResult.isErr()) {
         return err(getValidatorKeyResult.error);
     }
     const validatorKeyStr: string = getValidatorKeyResult.value;
 
-    let validatorKey: Object;
-    try {
-        validatorKey = JSON.parse(validatorKeyStr);
-    } catch (e: any) {
-        // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
-        // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
-        if (e && e.stack && e.message) {
-            return err(e as Error);
-        }
-        return err(new Error(
-            `JSON-parsing validator key string ${validatorKeyStr} threw an exception, but ` +
-                `it's not an Error so we can't report any more information than this`
-        ));
+    const parseValidatorKeyResult: Result<ValidatorKey, Error> = parseValidatorKey(validatorKeyStr);
+    if (parseValidatorKeyResult.isErr()) {
+        return err(parseValidatorKeyResult.error);
     }
+    const validatorKey: ValidatorKey = parseValidatorKeyResult.value;
 
     const getRpcUrlsResult = getPrivateAndPublicUrlsForPortId(
         serviceCtx,
@@ -147,31 +145,228 @@ export async function addIndexer(
         privateRpcUrl,
         publicRpcUrl,
         validatorKey,
+        `${serviceCtx.getPrivateIPAddress()}:${GOSSIP_PRIVATE_PORT_NUM}`,
     );
 
-    const waitForPortAvailabilityResult = await waitForPortAvailability(
-        RPC_PRIVATE_PORT_NUM,
-        serviceCtx.getPrivateIPAddress(),
-        MILLIS_BETWEEN_PORT_AVAILABILITY_RETRIES,
-        PORT_AVAILABILITY_TIMEOUT_MILLIS,
-    )
-    if (waitForPortAvailabilityResult.isErr()) {
-        return err(waitForPortAvailabilityResult.error);
+    const waitForReadinessResult: Result<null, Error> = await timeline.record(SERVICE_ID, READINESS_PHASE, () => waitForReadiness(
+        new NearNodeStatusProbe(SERVICE_ID, privateRpcUrl, minReadyBlockHeight),
+        readinessRetryPolicy,
+    ));
+    if (waitForReadinessResult.isErr()) {
+        return err(waitForReadinessResult.error);
     }
 
     return ok(result);
 }
 
-async function getValidatorKeyWithRetry(serviceCtx: ServiceContext): Promise<Result<string, Error>> {
-    for (let i = 0; i < MAX_NUM_GET_VALIDATOR_KEY_RETRIES; i++) {
+export function planIndexer(
+    image: string,
+    // The files artifact of the node's uploaded localnet config directory
+    localnetConfigFilesArtifactUuid: FilesArtifactUUID,
+    // The one in the localnet config directory, which the started indexer reads back
+    validatorKey: ValidatorKey,
+    dbPrivateUrl: ServiceUrl,
+    dbUsername: string,
+    dbUserPassword: string,
+    dbName: string,
+    syncConfig: IndexerSyncConfig,
+    rpcPublicPortNum: number | undefined,
+    gossipPublicPortNum: number | undefined,
+    publicIpAddress: string,
+): ServicePlan<IndexerInfo> {
+    const containerConfig: ContainerConfig = buildContainerConfig(
+        image,
+        localnetConfigFilesArtifactUuid,
+        dbPrivateUrl,
+        dbUsername,
+        dbUserPassword,
+        dbName,
+        syncConfig,
+        rpcPublicPortNum,
+        gossipPublicPortNum,
+    );
+    const [privateRpcUrl, publicRpcUrl] = getPlannedPrivateAndPublicUrls(
+        SERVICE_ID,
+        RPC_PRIVATE_PORT_NUM,
+        publicIpAddress,
+        rpcPublicPortNum,
+        RPC_PORT_PROTOCOL,
+        "",
+    );
+    const info: IndexerInfo = new IndexerInfo(
+        privateRpcUrl,
+        publicRpcUrl,
+        validatorKey,
+        `${getPlannedPrivateIpAddress(SERVICE_ID)}:${GOSSIP_PRIVATE_PORT_NUM}`,
+    );
+    return new ServicePlan(SERVICE_ID, containerConfig, info, new Map());
+}
+
+export function planIndexerMigrationsReader(image: string): ServicePlan<null> {
+    const containerConfig: ContainerConfig = new ContainerConfigBuilder(
+        image,
+    ).withEntrypointOverride([
+        "sh",
+        "-c",
+    ]).withCmdOverride([
+        IDLE_CMD,
+    ]).build();
+    return new ServicePlan(MIGRATIONS_READER_SERVICE_ID, containerConfig, null, new Map());
+}
+
+function buildContainerConfig(
+    image: string,
+    localnetConfigFilesArtifactUuid: FilesArtifactUUID,
+    dbPrivateUrl: ServiceUrl,
+    dbUsername: string,
+    dbUserPassword: string,
+    dbName: string,
+    syncConfig: IndexerSyncConfig,
+    rpcPublicPortNum: number | undefined,
+    gossipPublicPortNum: number | undefined,
+): ContainerConfig {
+    const usedPorts: Map<string, PortSpec> = new Map();
+    usedPorts.set(RPC_PORT_ID, RPC_PRIVATE_PORT_SPEC);
+    usedPorts.set(GOSSIP_PORT_ID, GOSSIP_PRIVATE_PORT_SPEC);
+
+    const publicPorts: Map<string, PortSpec> = new Map();
+    if (rpcPublicPortNum !== undefined) {
+        publicPorts.set(RPC_PORT_ID, new PortSpec(rpcPublicPortNum, PortProtocol.TCP));
+    }
+    if (gossipPublicPortNum !== undefined) {
+        publicPorts.set(GOSSIP_PORT_ID, new PortSpec(gossipPublicPortNum, PortProtocol.TCP));
+    }
+
+    const envvars: Map<string, string> = new Map();
+    envvars.set(
+        DATABASE_URL_ENVVAR,
+        getPostgresConnectionUrl(dbPrivateUrl, dbUsername, dbUserPassword, dbName),
+    )
+
+    const localnetConfigDirpathOnContainer = path.join(
+        NEAR_CONFIGS_DIRPATH_ON_INDEXER_CONTAINER,
+        LOCALNET_CONFIG_DIRNAME,
+    )
+    const runIndexerCommand = `./indexer-explorer --home-dir "${localnetConfigDirpathOnContainer}" ${getIndexerRunArgs(syncConfig).join(" ")}`
+    const commandToRun = syncConfig.runMigrations ? `./diesel migration run && ${runIndexerCommand}` : runIndexerCommand
+
+    const filesArtifactMounts = new Map<FilesArtifactUUID, string>();
+    filesArtifactMounts.set(localnetConfigFilesArtifactUuid, NEAR_CONFIGS_DIRPATH_ON_INDEXER_CONTAINER)
+
+    const result: ContainerConfig = new ContainerConfigBuilder(
+        image,
+    ).withEnvironmentVariableOverrides(
+        envvars
+    ).withEntrypointOverride([
+        "sh",
+        "-c",
+    ]).withCmdOverride([
+        commandToRun,
+    ]).withUsedPorts(
+        usedPorts
+    ).withPublicPorts(
+        publicPorts,
+    ).withFiles(
+        filesArtifactMounts,
+    ).build();
+    return result;
+}
+
+async function getValidatorKeyWithRetry(serviceCtx: ServiceContext, retryPolicy: RetryPolicy): Promise<Result<string, Error>> {
+    return retryWithBackoff("Getting the node's validator key", retryPolicy, async () => {
         const getValidatorKeyResult: Result<[number, string], Error> = await serviceCtx.execCommand(GET_VALIDATOR_KEY_CMD);
-        if (getValidatorKeyResult.isOk()) {
-            const [getValidatorKeyExitCode, getValidatorKeyLogOutput] = getValidatorKeyResult.value;
-            if (getValidatorKeyExitCode === EXEC_COMMAND_SUCCESS_EXIT_CODE) {
-                return ok(getValidatorKeyLogOutput);
-            }
+        if (getValidatorKeyResult.isErr()) {
+            return err(getValidatorKeyResult.error);
+        }
+        const [getValidatorKeyExitCode, getValidatorKeyLogOutput] = getValidatorKeyResult.value;
+        if (getValidatorKeyExitCode !== EXEC_COMMAND_SUCCESS_EXIT_CODE) {
+            return err(new Error(`Reading the validator key file exited with code ${getValidatorKeyExitCode}:\n${getValidatorKeyLogOutput}`));
         }
-        await new Promise(resolve => setTimeout(resolve, MILLIS_BETWEEN_GET_VALIDATOR_KEY_RETRIES));
+        return ok(getValidatorKeyLogOutput);
+    });
+}
+
+// Returns the diesel migration versions that the image's indexer applies to its DB, in ascending order
+export async function getIndexerImageMigrationVersions(
+    enclaveCtx: EnclaveContext,
+    timeline: StartupTimeline,
+    image: string,
+): Promise<Result<string[], Error>> {
+    log.info(`Adding indexer migrations reader to read the migrations of image '${image}'...`);
+    const plan: ServicePlan<null> = planIndexerMigrationsReader(image);
+    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
+        return ok(plan.containerConfig);
     }
-    return err(new Error(`Couldn't get the node's validator key, even after ${MAX_NUM_GET_VALIDATOR_KEY_RETRIES} retries with ${MILLIS_BETWEEN_GET_VALIDATOR_KEY_RETRIES}ms between retries`))
-}
\ No newline at end of file
+
+    const addServiceResult: Result<ServiceContext, Error> = await timeline.record(
+        MIGRATIONS_READER_SERVICE_ID,
+        SERVICE_ADD_PHASE,
+        () => enclaveCtx.addService(MIGRATIONS_READER_SERVICE_ID, containerConfigSupplier),
+    );
+    if (addServiceResult.isErr()) {
+        return err(addServiceResult.error);
+    }
+    const serviceCtx: ServiceContext = addServiceResult.value;
+
+    const listMigrationsCmd: string[] = [
+        "ls",
+        "-1",
+        MIGRATIONS_DIRPATH,
+    ];
+    const listMigrationsResult: Result<[number, string], Error> = await serviceCtx.execCommand(listMigrationsCmd);
+
+    // The reader is only needed for listing the migrations, so it's removed even if that failed
+    const removeServiceResult: Result<null, Error> = await enclaveCtx.removeService(MIGRATIONS_READER_SERVICE_ID, CONTAINER_STOP_TIMEOUT_SECONDS);
+    if (listMigrationsResult.isErr()) {
+        return err(listMigrationsResult.error);
+    }
+    if (removeServiceResult.isErr()) {
+        return err(removeServiceResult.error);
+    }
+    const [listMigrationsExitCode, listMigrationsLogOutput] = listMigrationsResult.value;
+    if (listMigrationsExitCode !== EXEC_COMMAND_SUCCESS_EXIT_CODE) {
+        return err(new Error(
+            `Command '${listMigrationsCmd.join(" ")}' returned error exit code '${listMigrationsExitCode}' with logs:\n${listMigrationsLogOutput}`
+        ));
+    }
+
+    // Diesel records each migration by its directory's timestamp, without the dashes (e.g. "20201207153402")
+    const result: string[] = listMigrationsLogOutput.split("\n").map(
+        line => line.trim()
+    ).filter(
+        migrationDirname => migrationDirname !== ""
+    ).map(
+        migrationDirname => migrationDirname.split("_")[0].replace(/-/g, "")
+    ).sort();
+    return ok(result);
+}
+
+// Checks that the indexer can carry on from a DB that already has the given migrations applied, by running whichever of
+//  its migrations are newer; returns those (possibly zero) migrations
+export function checkRestoredMigrationVersions(
+    dbMigrationVersions: string[],
+    indexerMigrationVersions: string[],
+): Result<string[], Error> {
+    const unknownVersions: string[] = dbMigrationVersions.filter(version => !indexerMigrationVersions.includes(version));
+    if (unknownVersions.length > 0) {
+        return err(new Error(
+            `The restored indexer DB has diesel migrations that the indexer image doesn't (${unknownVersions.join(", ")}), ` +
+                `so the snapshot was likely made with a newer indexer; use an indexer image with these migrations, or a ` +
+                `snapshot made with this one`
+        ));
+    }
+    const pendingVersions: string[] = indexerMigrationVersions.filter(version => !dbMigrationVersions.includes(version));
+    if (dbMigrationVersions.length === 0) {
+        return ok(pendingVersions);
+    }
+    // The versions are same-length timestamps, so they sort lexicographically
+    const latestDbVersion: string = dbMigrationVersions.reduce((latest, version) => version > latest ? version : latest);
+    const skippedVersions: string[] = pendingVersions.filter(version => version < latestDbVersion);
+    if (skippedVersions.length > 0) {
+        return err(new Error(
+            `The restored indexer DB is missing diesel migrations older than its latest one ('${latestDbVersion}'): ` +
+                `${skippedVersions.join(", ")}; the snapshot doesn't match the indexer image's migration history`
+        ));
+    }
+    return ok(pendingVersions);
+}
@@ -0,0 +1,123 @@
+import { EnclaveContext, ServiceID, ContainerConfig, ContainerConfigBuilder, ServiceContext, PortSpec, PortProtocol } from "kurtosis-core-api-lib";
+import log = require("loglevel");
+import { Result, ok, err } from "neverthrow";
+import { ContainerConfigSupplier } from "../near_module";
+import { HttpOkProbe } from "../readiness/http_ok_probe";
+import { waitForReadiness } from "../readiness/readiness_probe";
+import { RetryPolicy } from "../retry_policy";
+import { getPlannedPrivateAndPublicUrls, getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { ServicePlan } from "../service_plan";
+import { READINESS_PHASE, SERVICE_ADD_PHASE, StartupTimeline } from "../startup_timeline";
+
+// An SMTP server that accepts every email & keeps it, so that the emails (and, via the contract helper's SMS capture,
+//  the SMSes) that the other services send can be read back through an HTTP API
+// See: https://github.com/mailhog/MailHog/blob/master/docs/APIv2.md
+export const SERVICE_ID: ServiceID = "mail-catcher";
+export const DEFAULT_IMAGE: string = "mailhog/mailhog:v1.0.1";
+const SMTP_PORT_ID = "smtp";
+const SMTP_PORT_NUM: number = 1025;
+const SMTP_PORT_SPEC = new PortSpec(SMTP_PORT_NUM, PortProtocol.TCP);
+const SMTP_PORT_PROTOCOL = "smtp";
+export const HTTP_PORT_ID = "http";
+const HTTP_PORT_NUM: number = 8025;
+const HTTP_PORT_SPEC = new PortSpec(HTTP_PORT_NUM, PortProtocol.TCP);
+export const HTTP_PORT_PROTOCOL = "http";
+// Lists the caught messages, newest first
+export const MESSAGES_API_PATH: string = "/api/v2/messages";
+
+export const DEFAULT_READINESS_TIMEOUT_MILLIS: number = 30_000;
+
+export class MailCatcherInfo {
+    constructor(
+        public readonly privateSmtpUrl: ServiceUrl,
+        // Serves both the web UI (at the root) & the HTTP API
+        public readonly publicHttpUrl: ServiceUrl,
+    ) {}
+}
+
+export async function addMailCatcher(
+    enclaveCtx: EnclaveContext,
+    timeline: StartupTimeline,
+    image: string,
+    readinessRetryPolicy: RetryPolicy,
+): Promise<Result<MailCatcherInfo, Error>> {
+    log.info(`Adding mail catcher service with SMTP on port '${SMTP_PORT_NUM}' and HTTP on port '${HTTP_PORT_NUM}'`);
+    const containerConfig: ContainerConfig = buildContainerConfig(image);
+    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
+        return ok(containerConfig);
+    }
+
+    const addServiceResult: Result<ServiceContext, Error> = await timeline.record(
+        SERVICE_ID,
+        SERVICE_ADD_PHASE,
+        () => enclaveCtx.addService(SERVICE_ID, containerConfigSupplier),
+    );
+    if (addServiceResult.isErr()) {
+        return err(addServiceResult.error);
+    }
+    const serviceCtx: ServiceContext = addServiceResult.value;
+
+    const getSmtpUrlsResult = getPrivateAndPublicUrlsForPortId(
+        serviceCtx,
+        SMTP_PORT_ID,
+        SMTP_PORT_PROTOCOL,
+        "",
+    );
+    if (getSmtpUrlsResult.isErr()) {
+        return err(getSmtpUrlsResult.error);
+    }
+    // Only the other services send email, so the SMTP port's public URL isn't needed
+    const privateSmtpUrl: ServiceUrl = getSmtpUrlsResult.value[0];
+
+    const getHttpUrlsResult = getPrivateAndPublicUrlsForPortId(
+        serviceCtx,
+        HTTP_PORT_ID,
+        HTTP_PORT_PROTOCOL,
+        "",
+    );
+    if (getHttpUrlsResult.isErr()) {
+        return err(getHttpUrlsResult.error);
+    }
+    const [privateHttpUrl, publicHttpUrl] = getHttpUrlsResult.value;
+
+    const messagesApiPrivateUrl: ServiceUrl = new ServiceUrl(
+        privateHttpUrl.protocol,
+        privateHttpUrl.ipAddress,
+        privateHttpUrl.portNumber,
+        MESSAGES_API_PATH,
+    );
+    const waitForReadinessResult: Result<null, Error> = await timeline.record(SERVICE_ID, READINESS_PHASE, () => waitForReadiness(
+        new HttpOkProbe(SERVICE_ID, messagesApiPrivateUrl, true),
+        readinessRetryPolicy,
+    ));
+    if (waitForReadinessResult.isErr()) {
+        return err(waitForReadinessResult.error);
+    }
+
+    const result: MailCatcherInfo = new MailCatcherInfo(privateSmtpUrl, publicHttpUrl);
+    return ok(result);
+}
+
+export function planMailCatcher(image: string, publicIpAddress: string): ServicePlan<MailCatcherInfo> {
+    const [privateSmtpUrl] = getPlannedPrivateAndPublicUrls(SERVICE_ID, SMTP_PORT_NUM, publicIpAddress, undefined, SMTP_PORT_PROTOCOL, "");
+    const [, publicHttpUrl] = getPlannedPrivateAndPublicUrls(SERVICE_ID, HTTP_PORT_NUM, publicIpAddress, undefined, HTTP_PORT_PROTOCOL, "");
+    return new ServicePlan(
+        SERVICE_ID,
+        buildContainerConfig(image),
+        new MailCatcherInfo(privateSmtpUrl, publicHttpUrl),
+        new Map(),
+    );
+}
+
+function buildContainerConfig(image: string): ContainerConfig {
+    const usedPorts: Map<string, PortSpec> = new Map();
+    usedPorts.set(SMTP_PORT_ID, SMTP_PORT_SPEC);
+    usedPorts.set(HTTP_PORT_ID, HTTP_PORT_SPEC);
+
+    const result: ContainerConfig = new ContainerConfigBuilder(
+        image,
+    ).withUsedPorts(
+        usedPorts,
+    ).build();
+    return result;
+}
@@ -0,0 +1,220 @@
+import { EnclaveContext, ServiceID, ContainerConfig, ContainerConfigBuilder, ServiceContext } from "kurtosis-core-api-lib";
+import * as log from "loglevel";
+import { Result, ok, err } from "neverthrow";
+import { EXEC_COMMAND_SUCCESS_EXIT_CODE } from "../consts";
+import { ExternalPostgresParams } from "../module_io/params";
+import { ContainerConfigSupplier } from "../near_module";
+import { ServiceUrl } from "../service_url";
+import { ServicePlan } from "../service_plan";
+import {
+    ANALYTICS_DB,
+    ContractHelperDbInfo,
+    DbRole,
+    DEFAULT_IMAGE as CONTRACT_HELPER_DB_DEFAULT_IMAGE,
+    INDEXER_DB,
+    PORT_PROTOCOL as POSTGRES_PORT_PROTOCOL,
+    TELEMETRY_DB,
+} from "./contract_helper_db";
+import { DB_CREATION_PHASE, SERVICE_ADD_PHASE, StartupTimeline } from "../startup_timeline";
+
+// When an external Postgres is used, this throwaway service checks that it can be reached from inside the enclave &
+//  creates the DBs that the services need, the same as the contract-helper-db service does for itself
+export const SERVICE_ID: ServiceID = "postgres-client";
+// Any image with psql will do, so this uses the one that's already pulled for the contract-helper-db service
+export const DEFAULT_IMAGE: string = CONTRACT_HELPER_DB_DEFAULT_IMAGE;
+
+const DEFAULT_PORT_NUM: number = 5432;
+const MAX_PORT_NUM: number = 65535;
+// Every Postgres server has this DB, so it's what gets connected to for checking & creating the other DBs
+const MAINTENANCE_DB: string = "postgres";
+// The DB names get put into SQL as-is, so they're restricted to the names that don't need quoting
+const DB_NAME_REGEX: RegExp = /^[a-z_][a-z0-9_]*$/;
+
+// Read by psql, so that the password never shows up in the commands that get run (or in their errors)
+const PASSWORD_ENVVAR: string = "PGPASSWORD";
+const CONNECT_TIMEOUT_ENVVAR: string = "PGCONNECT_TIMEOUT";
+const CONNECT_TIMEOUT_SECONDS: number = 10;
+
+// Keeps the container alive until it's removed
+const IDLE_CMD: string[] = [
+    "tail",
+    "-f",
+    "/dev/null",
+];
+const CONTAINER_STOP_TIMEOUT_SECONDS: number = 5;
+
+// Returns the same info as the contract-helper-db service does, except that every service connects as the given user
+export async function connectToExternalPostgres(
+    enclaveCtx: EnclaveContext,
+    timeline: StartupTimeline,
+    image: string,
+    params: ExternalPostgresParams,
+): Promise<Result<ContractHelperDbInfo, Error>> {
+    const planResult: Result<ServicePlan<ContractHelperDbInfo>, Error> = planPostgresClient(image, params);
+    if (planResult.isErr()) {
+        return err(planResult.error);
+    }
+    const plan: ServicePlan<ContractHelperDbInfo> = planResult.value;
+    const postgresUrl: ServiceUrl = plan.info.privateUrl;
+
+    log.info(`Adding Postgres client to connect to the external Postgres at '${postgresUrl.ipAddress}:${postgresUrl.portNumber}'...`);
+    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
+        return ok(plan.containerConfig);
+    }
+
+    const addServiceResult: Result<ServiceContext, Error> = await timeline.record(
+        SERVICE_ID,
+        SERVICE_ADD_PHASE,
+        () => enclaveCtx.addService(SERVICE_ID, containerConfigSupplier),
+    );
+    if (addServiceResult.isErr()) {
+        return err(addServiceResult.error);
+    }
+    const serviceCtx: ServiceContext = addServiceResult.value;
+
+    const createMissingDbsResult: Result<null, Error> = await timeline.record(SERVICE_ID, DB_CREATION_PHASE, () => createMissingDbs(
+        serviceCtx,
+        postgresUrl.ipAddress,
+        postgresUrl.portNumber,
+        params.username,
+        [plan.info.indexerDb, plan.info.analyticsDb, plan.info.telemetryDb],
+    ));
+
+    // The client is only needed for setting up the DBs, so it's removed even if that failed
+    const removeServiceResult: Result<null, Error> = await enclaveCtx.removeService(SERVICE_ID, CONTAINER_STOP_TIMEOUT_SECONDS);
+    if (createMissingDbsResult.isErr()) {
+        return err(createMissingDbsResult.error);
+    }
+    if (removeServiceResult.isErr()) {
+        return err(removeServiceResult.error);
+    }
+
+    return ok(plan.info);
+}
+
+export function planPostgresClient(
+    image: string,
+    params: ExternalPostgresParams,
+): Result<ServicePlan<ContractHelperDbInfo>, Error> {
+    const portNum: number = params.port !== undefined ? params.port : DEFAULT_PORT_NUM;
+    if (portNum > MAX_PORT_NUM) {
+        return err(new Error(`The external Postgres port must be between 1 and ${MAX_PORT_NUM}, but was '${portNum}'`));
+    }
+    const indexerDb: string = params.indexerDb !== undefined ? params.indexerDb : INDEXER_DB;
+    const analyticsDb: string = params.analyticsDb !== undefined ? params.analyticsDb : ANALYTICS_DB;
+    const telemetryDb: string = params.telemetryDb !== undefined ? params.telemetryDb : TELEMETRY_DB;
+    const dbs: string[] = [indexerDb, analyticsDb, telemetryDb];
+    for (const db of dbs) {
+        if (!DB_NAME_REGEX.test(db)) {
+            return err(new Error(
+                `External Postgres DB name '${db}' is invalid; it must consist of lowercase letters, digits, and underscores, and not start with a digit`
+            ));
+        }
+    }
+
+    const envvars: Map<string, string> = new Map([
+        [PASSWORD_ENVVAR, params.password],
+        [CONNECT_TIMEOUT_ENVVAR, CONNECT_TIMEOUT_SECONDS.toString()],
+    ]);
+    const containerConfig: ContainerConfig = new ContainerConfigBuilder(
+        image,
+    ).withCmdOverride(
+        IDLE_CMD,
+    ).withEnvironmentVariableOverrides(
+        envvars,
+    ).build();
+
+    const role: DbRole = new DbRole(params.username, params.password, false, dbs);
+    const info: ContractHelperDbInfo = new ContractHelperDbInfo(
+        new ServiceUrl(POSTGRES_PORT_PROTOCOL, params.host, portNum, ""),
+        role,
+        role,
+        role,
+        role,
+        role,
+        indexerDb,
+        analyticsDb,
+        telemetryDb,
+        // Snapshots can't be restored into an external Postgres
+        undefined,
+    );
+
+    const result: ServicePlan<ContractHelperDbInfo> = new ServicePlan(SERVICE_ID, containerConfig, info, new Map());
+    return ok(result);
+}
+
+async function createMissingDbs(
+    serviceCtx: ServiceContext,
+    host: string,
+    portNum: number,
+    username: string,
+    dbs: string[],
+): Promise<Result<null, Error>> {
+    const runSql = (sql: string) => runSqlOnExternalPostgres(serviceCtx, host, portNum, username, sql);
+
+    // Listing the DBs doubles as the connectivity check
+    const listDbsResult: Result<string, Error> = await runSql("select datname from pg_database");
+    if (listDbsResult.isErr()) {
+        return err(new Error(
+            `Couldn't connect to the external Postgres at '${host}:${portNum}' as user '${username}'; check that the ` +
+                `host is reachable from inside the enclave (so isn't e.g. 'localhost') and that the credentials are right:\n` +
+                listDbsResult.error.message
+        ));
+    }
+    const existingDbs: Set<string> = new Set(listDbsResult.value.split("\n").map(line => line.trim()));
+
+    for (const db of dbs) {
+        if (existingDbs.has(db)) {
+            log.info(`External Postgres DB '${db}' already exists`);
+            continue;
+        }
+        log.info(`Creating external Postgres DB '${db}'...`);
+        const createDbResult: Result<string, Error> = await runSql(`create database ${db}`);
+        if (createDbResult.isErr()) {
+            return err(new Error(
+                `Couldn't create DB '${db}' on the external Postgres at '${host}:${portNum}'; either create it ` +
+                    `beforehand or give user '${username}' the CREATEDB privilege:\n${createDbResult.error.message}`
+            ));
+        }
+        existingDbs.add(db);
+    }
+    return ok(null);
+}
+
+// Returns the unaligned, tuples-only output (i.e. one row per line, without headers)
+async function runSqlOnExternalPostgres(
+    serviceCtx: ServiceContext,
+    host: string,
+    portNum: number,
+    username: string,
+    sql: string,
+): Promise<Result<string, Error>> {
+    const psqlCmd: string[] = [
+        "psql",
+        "-v",
+        "ON_ERROR_STOP=1",
+        "--no-align",
+        "--tuples-only",
+        // Fails rather than prompting if the server wants a password but none was given
+        "--no-password",
+        "-h",
+        host,
+        "-p",
+        portNum.toString(),
+        "-U",
+        username,
+        "-d",
+        MAINTENANCE_DB,
+        "-c",
+        sql,
+    ];
+    const execCmdResult: Result<[number, string], Error> = await serviceCtx.execCommand(psqlCmd);
+    if (execCmdResult.isErr()) {
+        return err(execCmdResult.error);
+    }
+    const [exitCode, logOutput]: [number, string] = execCmdResult.value;
+    if (exitCode !== EXEC_COMMAND_SUCCESS_EXIT_CODE) {
+        return err(new Error(`Command '${psqlCmd.join(" ")}' returned error exit code '${exitCode}' with logs:\n${logOutput}`));
+    }
+    return ok(logOutput);
+}
@@ -0,0 +1,175 @@
+import { FilesArtifactUUID, EnclaveContext, ServiceID, ContainerConfig, ContainerConfigBuilder, ServiceContext, PortSpec, PortProtocol } from "kurtosis-core-api-lib";
+import * as log from "loglevel";
+import { Result, ok, err } from "neverthrow";
+import * as path from "path";
+import { ContainerConfigSupplier } from "../near_module";
+import { getPlannedPrivateAndPublicUrls, getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { getPlannedPrivateIpAddress, ServicePlan } from "../service_plan";
+import { NearNodeStatusProbe } from "../readiness/near_node_status_probe";
+import { waitForReadiness } from "../readiness/readiness_probe";
+import { RetryPolicy } from "../retry_policy";
+import { LOCALNET_CONFIG_DIRNAME } from "../localnet_configs";
+import { FILES_UPLOAD_PHASE, READINESS_PHASE, SERVICE_ADD_PHASE, StartupTimeline } from "../startup_timeline";
+
+// Plain nearcore validators, which run alongside the indexer node (validator 0) or, when the indexer is disabled,
+//  make up the entire network
+// Every validator node shares this image & service ID prefix, with the service ID suffixed by the node's index
+export const SERVICE_TYPE: string = "validator-node";
+const SERVICE_ID_PREFIX: string = `${SERVICE_TYPE}-`;
+export const DEFAULT_IMAGE: string = "nearprotocol/nearcore:1.26.1";
+const RPC_PRIVATE_PORT_NUM: number = 3030;
+export const RPC_PORT_ID = "rpc";
+const RPC_PRIVATE_PORT_SPEC = new PortSpec(RPC_PRIVATE_PORT_NUM, PortProtocol.TCP);
+export const RPC_PORT_PROTOCOL = "http";
+const GOSSIP_PRIVATE_PORT_NUM: number = 24567;
+const GOSSIP_PORT_ID = "gossip";
+const GOSSIP_PRIVATE_PORT_SPEC = new PortSpec(GOSSIP_PRIVATE_PORT_NUM, PortProtocol.TCP);
+
+const NEAR_CONFIGS_DIRPATH_ON_NODE_CONTAINER = "/root/.near"
+
+// Covers starting the node and producing (or syncing from the network) the first block
+export const DEFAULT_READINESS_TIMEOUT_MILLIS: number = 120_000;
+
+export class ValidatorNodeInfo {
+    constructor(
+        public readonly serviceId: ServiceID,
+        public readonly privateRpcUrl: ServiceUrl,
+        public readonly publicRpcUrl: ServiceUrl,
+        // The "IP:port" address that other NEAR nodes can use to reach this node's gossip port
+        public readonly privateGossipAddress: string,
+    ) {}
+}
+
+export async function addValidatorNode(
+    enclaveCtx: EnclaveContext,
+    timeline: StartupTimeline,
+    image: string,
+    nodeIndex: number,
+    // Dirpath on the module container of the config directory that the node will use
+    localnetConfigDirpath: string,
+    // Comma-separated "PUBLIC_KEY@IP:PORT" addresses of the nodes this node should connect to on startup (may be emptystring)
+    bootNodes: string,
+    // The block height the node must reach before it's considered ready (see NearNodeStatusProbe)
+    minReadyBlockHeight: number,
+    readinessRetryPolicy: RetryPolicy,
+): Promise<Result<ValidatorNodeInfo, Error>> {
+    const serviceId: ServiceID = getServiceId(nodeIndex);
+    log.info(`Adding validator node '${serviceId}'...`);
+
+    const uploadLocalnetConfigResult = await timeline.record(serviceId, FILES_UPLOAD_PHASE, () => enclaveCtx.uploadFiles(localnetConfigDirpath))
+    if (uploadLocalnetConfigResult.isErr()) {
+        return err(uploadLocalnetConfigResult.error)
+    }
+    const localnetConfigFilesArtifactUuid = uploadLocalnetConfigResult.value;
+
+    const containerConfig: ContainerConfig = buildContainerConfig(image, localnetConfigFilesArtifactUuid, bootNodes);
+    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string): Result<ContainerConfig, Error> => {
+        return ok(containerConfig);
+    }
+
+    const addServiceResult: Result<ServiceContext, Error> = await timeline.record(
+        serviceId,
+        SERVICE_ADD_PHASE,
+        () => enclaveCtx.addService(serviceId, containerConfigSupplier),
+    );
+    if (addServiceResult.isErr()) {
+        return err(addServiceResult.error);
+    }
+    const serviceCtx = addServiceResult.value;
+
+    const getRpcUrlsResult = getPrivateAndPublicUrlsForPortId(
+        serviceCtx,
+        RPC_PORT_ID,
+        RPC_PORT_PROTOCOL,
+        "",
+    );
+    if (getRpcUrlsResult.isErr()) {
+        return err(getRpcUrlsResult.error);
+    }
+    const [privateRpcUrl, publicRpcUrl] = getRpcUrlsResult.value;
+
+    const waitForReadinessResult: Result<null, Error> = await timeline.record(serviceId, READINESS_PHASE, () => waitForReadiness(
+        new NearNodeStatusProbe(serviceId, privateRpcUrl, minReadyBlockHeight),
+        readinessRetryPolicy,
+    ));
+    if (waitForReadinessResult.isErr()) {
+        return err(waitForReadinessResult.error);
+    }
+
+    const result: ValidatorNodeInfo = new ValidatorNodeInfo(
+        serviceId,
+        privateRpcUrl,
+        publicRpcUrl,
+        `${serviceCtx.getPrivateIPAddress()}:${GOSSIP_PRIVATE_PORT_NUM}`,
+    );
+    return ok(result);
+}
+
+export function planValidatorNode(
+    image: string,
+    nodeIndex: number,
+    // The files artifact of the node's uploaded localnet config directory
+    localnetConfigFilesArtifactUuid: FilesArtifactUUID,
+    // Comma-separated "PUBLIC_KEY@IP:PORT" addresses of the nodes this node should connect to on startup (may be emptystring)
+    bootNodes: string,
+    publicIpAddress: string,
+): ServicePlan<ValidatorNodeInfo> {
+    const serviceId: ServiceID = getServiceId(nodeIndex);
+    const [privateRpcUrl, publicRpcUrl] = getPlannedPrivateAndPublicUrls(
+        serviceId,
+        RPC_PRIVATE_PORT_NUM,
+        publicIpAddress,
+        undefined,
+        RPC_PORT_PROTOCOL,
+        "",
+    );
+    const info: ValidatorNodeInfo = new ValidatorNodeInfo(
+        serviceId,
+        privateRpcUrl,
+        publicRpcUrl,
+        `${getPlannedPrivateIpAddress(serviceId)}:${GOSSIP_PRIVATE_PORT_NUM}`,
+    );
+    return new ServicePlan(
+        serviceId,
+        buildContainerConfig(image, localnetConfigFilesArtifactUuid, bootNodes),
+        info,
+        new Map(),
+    );
+}
+
+function buildContainerConfig(
+    image: string,
+    localnetConfigFilesArtifactUuid: FilesArtifactUUID,
+    bootNodes: string,
+): ContainerConfig {
+    const usedPorts: Map<string, PortSpec> = new Map();
+    usedPorts.set(RPC_PORT_ID, RPC_PRIVATE_PORT_SPEC);
+    usedPorts.set(GOSSIP_PORT_ID, GOSSIP_PRIVATE_PORT_SPEC);
+
+    const localnetConfigDirpathOnContainer = path.join(
+        NEAR_CONFIGS_DIRPATH_ON_NODE_CONTAINER,
+        LOCALNET_CONFIG_DIRNAME,
+    )
+    const commandToRun = `neard --home "${localnetConfigDirpathOnContainer}" run --boot-nodes "${bootNodes}"`
+
+    const filesArtifactMounts = new Map<FilesArtifactUUID, string>();
+    filesArtifactMounts.set(localnetConfigFilesArtifactUuid, NEAR_CONFIGS_DIRPATH_ON_NODE_CONTAINER)
+
+    const result: ContainerConfig = new ContainerConfigBuilder(
+        image,
+    ).withEntrypointOverride([
+        "sh",
+        "-c",
+    ]).withCmdOverride([
+        commandToRun,
+    ]).withUsedPorts(
+        usedPorts
+    ).withFiles(
+        filesArtifactMounts,
+    ).build();
+    return result;
+}
+
+export function getServiceId(nodeIndex: number): ServiceID {
+    return `${SERVICE_ID_PREFIX}${nodeIndex}`;
+}
@@ -1,33 +1,34 @@
-import { EnclaveContext, ServiceID, ContainerConfigBuilder, ServiceContext, PortSpec, PortProtocol } from "kurtosis-core-api-lib";
+import { EnclaveContext, FilesArtifactUUID, ServiceID, ContainerConfig, ContainerConfigBuilder, ServiceContext, PortSpec, PortProtocol } from "kurtosis-core-api-lib";
 import log = require("loglevel");
 import { Result, ok, err } from "neverthrow";
+import * as path from "path";
+import { EXEC_COMMAND_SUCCESS_EXIT_CODE } from "../consts";
 import { ContainerConfigSupplier } from "../near_module";
-import { waitForPortAvailability } from "../service_port_availability_checker";
-import { getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { NetworkIdentity } from "../network_identity";
+import { HttpOkProbe } from "../readiness/http_ok_probe";
+import { waitForReadiness } from "../readiness/readiness_probe";
+import { RetryPolicy } from "../retry_policy";
+import { getPlannedPrivateAndPublicUrls, getPrivateAndPublicUrlsForPortId, ServiceUrl } from "../service_url";
+import { ServicePlan } from "../service_plan";
+import { FILES_UPLOAD_PHASE, READINESS_PHASE, SERVICE_ADD_PHASE, StartupTimeline } from "../startup_timeline";
 
-const SERVICE_ID: ServiceID = "wallet";
-const IMAGE: string = "kurtosistech/near-wallet:1ae0bfe4";
-const PORT_ID = "http";
-const PORT_PROTOCOL = "http";
+export const SERVICE_ID: ServiceID = "wallet";
+export const DEFAULT_IMAGE: string = "kurtosistech/near-wallet:1ae0bfe4";
+export const PORT_ID = "http";
+export const PORT_PROTOCOL = "http";
 const PRIVATE_PORT_NUM: number = 3004;
-// TODO This is a hack! There's a circular dependency between the Explorer Frontend and the Wallet, where
-// the Wallet wants to display a link to the Explorer and the Wallet wants to display a link to the Explorer
-// Frontend. To break this cycle, we have the Wallet start on a static public port and the Explorer show
-// a link to the Wallet using that static public port before the Wallet has started (and the Wallet will be
-// started afterwards). This is why we expose this constant.
-export const PUBLIC_PORT_NUM: number = 8334;
+export const DEFAULT_PUBLIC_PORT_NUM: number = 8334;
 const PRIVATE_PORT_SPEC = new PortSpec(PRIVATE_PORT_NUM, PortProtocol.TCP);
-const PUBLIC_PORT_SPEC = new PortSpec(PUBLIC_PORT_NUM, PortProtocol.TCP);
 
 // These variable names come from https://github.com/near/near-wallet/blob/master/packages/frontend/src/config.js
 const CONTRACT_HELPER_JS_VAR: string = "ACCOUNT_HELPER_URL";
 const EXPLORER_URL_JS_VAR: string = "EXPLORER_URL";
 const NODE_URL_JS_VAR: string = "NODE_URL";
+const NETWORK_ID_JS_VAR: string = "NETWORK_ID";
+const ACCOUNT_ID_SUFFIX_JS_VAR: string = "ACCOUNT_ID_SUFFIX";
 const STATIC_JS_VARS: Map<string, string> = new Map(Object.entries({
     "IS_MAINNET": "false",
-    "NETWORK_ID": "localnet",
-    // TODO make this dynamic, from the validator key that comes back from indexer node startup
-    "ACCOUNT_ID_SUFFIX": "test.near",
+    // NETWORK_ID & ACCOUNT_ID_SUFFIX will be set dynamically
     "ACCESS_KEY_FUNDING_AMOUNT": "3000000000000000000000000", // TODO is this right???
 }))
 
@@ -35,46 +36,191 @@ const STATIC_JS_VARS: Map<string, string> = new Map(Object.entries({
 //  modify to insert the environment variables we want
 const WALLET_JS_FILE_GLOB = "/var/www/html/wallet/src*js";
 
-// From the Wallet Dockerfile
-// We override this so that we can insert our desired envvars into the Wallet's source Javascript file
-const ORIGINAL_WALLET_ENTRYPOINT_COMMAND = "/sbin/my_init --";
+// The script that injects the JS variables into the bundle & verifies them, which gets uploaded & run by the Wallet
+//  container's Python (which its base image needs anyway) before the original entrypoint starts NginX
+const INJECT_JS_VARS_DIRPATH_ON_MODULE: string = "/static-files/wallet";
+// An uploaded directory keeps its name inside the files artifact, so the script ends up in a subdirectory of this
+const INJECT_JS_VARS_MOUNT_DIRPATH_ON_CONTAINER: string = "/inject-js-vars";
+const INJECT_JS_VARS_SCRIPT_FILENAME: string = "inject_js_vars.py";
+const PYTHON_BINARY: string = "python3";
+// The variables are passed to the script as JSON through an environment variable, which the shell expands into a
+//  single arg, so that the values need no escaping
+const JS_VARS_ENVVAR: string = "WALLET_JS_VARS";
+// Where the script's JSON report & exit code are written, to be read once the Wallet is up
+const INJECTION_REPORT_FILEPATH_ON_CONTAINER: string = "/tmp/inject-js-vars-report.json";
+const INJECTION_EXIT_CODE_FILEPATH_ON_CONTAINER: string = "/tmp/inject-js-vars-exit-code";
 
-// sed delimiter that we'll use when sed-ing the Wallet JS file, and which the JS variables cannot contain
-const JS_REPLACEMENT_SED_DELIMITER = "$"
+// From the Wallet Dockerfile
+const ORIGINAL_WALLET_ENTRYPOINT_COMMAND: string = "/sbin/my_init --";
 
-// Checks if the Wallet container is available by determining if the NginX server is running, which only
-// happens after we build the Wallet to pick up the envvars (see the Wallet Dockerfile for more info) 
-const AVAILABILITY_CHECK_CMD: string[] = [
-    "bash",
-    "-c",
-    "ps aux | grep my_init | grep -v 'grep' | grep -v 'npm'",
-]
+// Covers both the injection & the NginX server starting
+export const DEFAULT_READINESS_TIMEOUT_MILLIS: number = 120_000;
 
-const MILLIS_BETWEEN_PORT_AVAILABILITY_RETRIES: number = 500;
-const PORT_AVAILABILITY_TIMEOUT_MILLIS:  number = 5_000;
+// The per-variable result of the injection, as reported by the injection script
+interface JsVarInjectionReport {
+    expected: string;
+    // The values of the variable in the bundle before & after injection (one per occurrence)
+    before: string[];
+    after: string[];
+    // Whether the variable occurs in the bundle & every occurrence has the expected value
+    ok: boolean;
+}
 
 export class WalletInfo {
     constructor(
         public readonly publicUrl: ServiceUrl,
+        // The URLs of other services that the Wallet was configured with, keyed by JS variable
+        public readonly linkedUrls: { [jsVar: string]: string },
     ) {}
 }
 
+// When the Wallet's public port is fixed, its public URL is known before it starts, which lets services that link to
+//  the Wallet (and that the Wallet links back to) be started first
+export function getPublicUrlForFixedPort(userRequestedBackendIpAddress: string, publicPortNum: number): ServiceUrl {
+    return new ServiceUrl(PORT_PROTOCOL, userRequestedBackendIpAddress, publicPortNum, "");
+}
+
 export async function addWallet(
     enclaveCtx: EnclaveContext,
+    timeline: StartupTimeline,
+    image: string,
     userRequestedBackendIpAddress: string,
+    networkIdentity: NetworkIdentity,
     nearNodePublicRpcUrl: ServiceUrl,
     contractHelperPublicUrl: ServiceUrl,
-    explorerPublicUrl: ServiceUrl,
+    // Undefined if the Explorer isn't started, in which case the Wallet won't link to it
+    explorerPublicUrl: ServiceUrl | undefined,
+    // Undefined to have a free public port allocated automatically
+    publicPortNum: number | undefined,
+    readinessRetryPolicy: RetryPolicy,
 ): Promise<Result<WalletInfo, Error>> {
     log.info(`Adding wallet service running on port '${PRIVATE_PORT_NUM}'`);
+    const uploadInjectJsVarsResult: Result<FilesArtifactUUID, Error> = await timeline.record(
+        SERVICE_ID,
+        FILES_UPLOAD_PHASE,
+        () => enclaveCtx.uploadFiles(INJECT_JS_VARS_DIRPATH_ON_MODULE),
+    );
+    if (uploadInjectJsVarsResult.isErr()) {
+        return err(uploadInjectJsVarsResult.error);
+    }
+
+    const [containerConfig, jsVars] = buildContainerConfig(
+        image,
+        userRequestedBackendIpAddress,
+        networkIdentity,
+        nearNodePublicRpcUrl,
+        contractHelperPublicUrl,
+        explorerPublicUrl,
+        publicPortNum,
+        uploadInjectJsVarsResult.value,
+    );
+
+    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string) => {
+        return ok(containerConfig);
+    }
+    
+    const addServiceResult: Result<ServiceContext, Error> = await timeline.record(
+        SERVICE_ID,
+        SERVICE_ADD_PHASE,
+        () => enclaveCtx.addService(SERVICE_ID, containerConfigSupplier),
+    );
+    if (addServiceResult.isErr()) {
+        return err(addServiceResult.error);
+    }
+    const serviceCtx = addServiceResult.value;
+
+    const getUrlsResult = getPrivateAndPublicUrlsForPortId(
+        serviceCtx,
+        PORT_ID,
+        PORT_PROTOCOL,
+        "",
+    );
+    if (getUrlsResult.isErr()) {
+        return err(getUrlsResult.error);
+    }
+    const [privateUrl, publicUrl] = getUrlsResult.value;
+
+    const waitForReadinessResult: Result<null, Error> = await timeline.record(SERVICE_ID, READINESS_PHASE, () => waitForReadiness(
+        new HttpOkProbe(SERVICE_ID, privateUrl, true),
+        readinessRetryPolicy,
+    ));
+    if (waitForReadinessResult.isErr()) {
+        return err(waitForReadinessResult.error);
+    }
+
+    // NginX only starts once the injection is done, so by now its report has been written
+    const checkInjectionReportResult: Result<null, Error> = await checkJsVarsInjectionReport(serviceCtx, jsVars);
+    if (checkInjectionReportResult.isErr()) {
+        return err(checkInjectionReportResult.error);
+    }
+
+    const result: WalletInfo = new WalletInfo(publicUrl, getLinkedUrls(jsVars))
+
+    return ok(result);
+}
+
+// The planned info's public URL is on the backend IP address
+export function planWallet(
+    image: string,
+    userRequestedBackendIpAddress: string,
+    networkIdentity: NetworkIdentity,
+    nearNodePublicRpcUrl: ServiceUrl,
+    contractHelperPublicUrl: ServiceUrl,
+    explorerPublicUrl: ServiceUrl | undefined,
+    publicPortNum: number | undefined,
+    injectJsVarsFilesArtifactUuid: FilesArtifactUUID,
+): ServicePlan<WalletInfo> {
+    const [containerConfig, jsVars] = buildContainerConfig(
+        image,
+        userRequestedBackendIpAddress,
+        networkIdentity,
+        nearNodePublicRpcUrl,
+        contractHelperPublicUrl,
+        explorerPublicUrl,
+        publicPortNum,
+        injectJsVarsFilesArtifactUuid,
+    );
+    const [, publicUrl] = getPlannedPrivateAndPublicUrls(
+        SERVICE_ID,
+        PRIVATE_PORT_NUM,
+        userRequestedBackendIpAddress,
+        publicPortNum,
+        PORT_PROTOCOL,
+        "",
+    );
+    return new ServicePlan(SERVICE_ID, containerConfig, new WalletInfo(publicUrl, getLinkedUrls(jsVars)), new Map());
+}
+
+// Returns the container config & the JS variables that it injects into the Wallet's bundle
+function buildContainerConfig(
+    image: string,
+    userRequestedBackendIpAddress: string,
+    networkIdentity: NetworkIdentity,
+    nearNodePublicRpcUrl: ServiceUrl,
+    contractHelperPublicUrl: ServiceUrl,
+    explorerPublicUrl: ServiceUrl | undefined,
+    publicPortNum: number | undefined,
+    // The files artifact of the uploaded injection script directory
+    injectJsVarsFilesArtifactUuid: FilesArtifactUUID,
+): [ContainerConfig, Map<string, string>] {
     const usedPorts: Map<string, PortSpec> = new Map();
     usedPorts.set(PORT_ID, PRIVATE_PORT_SPEC);
 
     const publicPorts: Map<string, PortSpec> = new Map();
-    publicPorts.set(PORT_ID, PUBLIC_PORT_SPEC)
+    if (publicPortNum !== undefined) {
+        publicPorts.set(PORT_ID, new PortSpec(publicPortNum, PortProtocol.TCP));
+    }
 
     // Javascript variables that will be slotted into the Wallet's source JS code
     const jsVars: Map<string, string> = new Map();
+    jsVars.set(
+        NETWORK_ID_JS_VAR,
+        networkIdentity.networkId,
+    )
+    jsVars.set(
+        ACCOUNT_ID_SUFFIX_JS_VAR,
+        networkIdentity.accountIdSuffix,
+    )
     jsVars.set(
         NODE_URL_JS_VAR, 
         nearNodePublicRpcUrl.toStringWithIpAddressOverride(userRequestedBackendIpAddress),
@@ -85,98 +231,128 @@ export async function addWallet(
     )
     jsVars.set(
         EXPLORER_URL_JS_VAR, 
-        explorerPublicUrl.toStringWithIpAddressOverride(userRequestedBackendIpAddress),
+        explorerPublicUrl !== undefined ? explorerPublicUrl.toStringWithIpAddressOverride(userRequestedBackendIpAddress) : "",
     )
     for (let [key, value] of STATIC_JS_VARS.entries()) {
         jsVars.set(key, value);
     }
 
-    const generateJsUpdatingCommandResult = generateJsSrcUpdatingCommands(jsVars);
-    if (generateJsUpdatingCommandResult.isErr()) {
-        return err(generateJsUpdatingCommandResult.error);
-    }
-    const commandsToRun = generateJsUpdatingCommandResult.value;
-    commandsToRun.push(ORIGINAL_WALLET_ENTRYPOINT_COMMAND)
-    const singleCmdStringToRun = commandsToRun.join(" && ");
-
-    log.debug(`Wallet Parcel JS-updating command to run: ${singleCmdStringToRun}`)
-
-    const containerConfigSupplier: ContainerConfigSupplier = (ipAddr: string) => {
-        const result = new ContainerConfigBuilder(
-            IMAGE,
-        ).withUsedPorts(
-            usedPorts
-        ).withPublicPorts(
-            publicPorts
-        ).withEntrypointOverride([
-            // If we don't override the entrypoint, it gets set to starting the NginX server that serves the Wallet assets
-            "sh", 
-            "-c",
-        ]).withCmdOverride([
-            singleCmdStringToRun,
-        ]).build();
-        return ok(result);
-    }
-    
-    const addServiceResult: Result<ServiceContext, Error> = await enclaveCtx.addService(SERVICE_ID, containerConfigSupplier);
-    if (addServiceResult.isErr()) {
-        return err(addServiceResult.error);
-    }
-    const serviceCtx = addServiceResult.value;
-
-    const waitForPortAvailabilityResult = await waitForPortAvailability(
-        PRIVATE_PORT_NUM,
-        serviceCtx.getPrivateIPAddress(),
-        MILLIS_BETWEEN_PORT_AVAILABILITY_RETRIES,
-        PORT_AVAILABILITY_TIMEOUT_MILLIS,
-    )
-    if (waitForPortAvailabilityResult.isErr()) {
-        return err(waitForPortAvailabilityResult.error);
+    const jsVarsObj: { [jsVar: string]: string } = {};
+    for (const [jsVar, value] of jsVars.entries()) {
+        jsVarsObj[jsVar] = value;
     }
+    const envvars: Map<string, string> = new Map();
+    envvars.set(JS_VARS_ENVVAR, JSON.stringify(jsVarsObj));
 
-    const getUrlsResult = getPrivateAndPublicUrlsForPortId(
-        serviceCtx,
-        PORT_ID,
-        PORT_PROTOCOL,
-        "",
+    const filesArtifactMounts: Map<FilesArtifactUUID, string> = new Map();
+    filesArtifactMounts.set(injectJsVarsFilesArtifactUuid, INJECT_JS_VARS_MOUNT_DIRPATH_ON_CONTAINER);
+    const injectJsVarsScriptFilepath: string = path.join(
+        INJECT_JS_VARS_MOUNT_DIRPATH_ON_CONTAINER,
+        path.basename(INJECT_JS_VARS_DIRPATH_ON_MODULE),
+        INJECT_JS_VARS_SCRIPT_FILENAME,
     );
-    if (getUrlsResult.isErr()) {
-        return err(getUrlsResult.error);
-    }
-    const [privateUrl, publicUrl] = getUrlsResult.value;
+    // NginX is started regardless of whether the injection succeeded, so that the container stays up for its report
+    //  to be read; a failed injection fails the module execution once the Wallet is up
+    const injectAndStartCmd: string = `${PYTHON_BINARY} ${injectJsVarsScriptFilepath} '${WALLET_JS_FILE_GLOB}' "$${JS_VARS_ENVVAR}" ` +
+        `> ${INJECTION_REPORT_FILEPATH_ON_CONTAINER} 2>&1; ` +
+        `echo "$?" > ${INJECTION_EXIT_CODE_FILEPATH_ON_CONTAINER}; ` +
+        `exec ${ORIGINAL_WALLET_ENTRYPOINT_COMMAND}`;
 
-    const result: WalletInfo = new WalletInfo(publicUrl)
+    const containerConfig: ContainerConfig = new ContainerConfigBuilder(
+        image,
+    ).withUsedPorts(
+        usedPorts
+    ).withPublicPorts(
+        publicPorts
+    ).withEntrypointOverride([
+        // If we don't override the entrypoint, it goes straight to starting the NginX server that serves the Wallet assets
+        "sh",
+        "-c",
+    ]).withCmdOverride([
+        injectAndStartCmd,
+    ]).withEnvironmentVariableOverrides(
+        envvars
+    ).withFiles(
+        filesArtifactMounts
+    ).build();
+    return [containerConfig, jsVars];
+}
 
-    return ok(result);
+function getLinkedUrls(jsVars: Map<string, string>): { [jsVar: string]: string } {
+    const result: { [jsVar: string]: string } = {};
+    for (const jsVar of [NODE_URL_JS_VAR, CONTRACT_HELPER_JS_VAR, EXPLORER_URL_JS_VAR]) {
+        result[jsVar] = jsVars.get(jsVar) || "";
+    }
+    return result;
 }
 
 // The NEAR Wallet is bundled using Parcel down into assets that get served statically via NginX
 // Parcel-bundled apps only read environment variables at *build* time, so the only way to
 //  modify the Wallet's behaviour would be to set environemnt variables and rebuild the Wallet inside Docker
 // Unfortunately, building the Wallet in the Docker image is both slow (2+ minutes) and resource-intensive
-// To get around this, we generate a giant command to 'sed' the Parcel-bundled JS to set the variables we need
+// To get around this, the container's command rewrites the variables in the Parcel-bundled JS before it starts NginX, so
+//  the Wallet is never served without them; this checks the report of that rewrite
 // See also: https://github.com/near/near-wallet/issues/80
-function generateJsSrcUpdatingCommands(jsVars: Map<string, string>): Result<string[], Error> {
-    const verifyEnvvarExitenceFuncName = "verify_envvar_existence"
-    const declareEnvvarExistenceFuncStr = `${verifyEnvvarExitenceFuncName} () { if ! grep "\${1}" ${WALLET_JS_FILE_GLOB}; then echo "Wallet source JS file is missing expected environment variable '\${1}'"; return 1; fi; }`
-
-    const commandFragments: string[] = [ declareEnvvarExistenceFuncStr ]
-    for (let [key, value] of jsVars.entries()) {
-        if (key.includes(JS_REPLACEMENT_SED_DELIMITER)) {
-            return err(new Error(`Cannot insert new value for variable '${key}' in the Wallet JS file; its name includes our sed delimiter character '${JS_REPLACEMENT_SED_DELIMITER}`))
+async function checkJsVarsInjectionReport(serviceCtx: ServiceContext, jsVars: Map<string, string>): Promise<Result<null, Error>> {
+    const readExitCodeResult: Result<string, Error> = await readFileOnContainer(serviceCtx, INJECTION_EXIT_CODE_FILEPATH_ON_CONTAINER);
+    if (readExitCodeResult.isErr()) {
+        return err(readExitCodeResult.error);
+    }
+    const exitCode: number = parseInt(readExitCodeResult.value.trim(), 10);
+    const readReportResult: Result<string, Error> = await readFileOnContainer(serviceCtx, INJECTION_REPORT_FILEPATH_ON_CONTAINER);
+    if (readReportResult.isErr()) {
+        return err(readReportResult.error);
+    }
+    const logOutput: string = readReportResult.value;
+
+    let report: any;
+    try {
+        report = JSON.parse(logOutput);
+    } catch (e: any) {
+        return err(new Error(`Injecting the Wallet JS variables failed with exit code ${exitCode} and output that isn't a JSON report:\n${logOutput}`));
+    }
+    if (typeof report.error === "string") {
+        return err(new Error(`Injecting the Wallet JS variables failed with exit code ${exitCode}: ${report.error}`));
+    }
+
+    const variableReports: { [jsVar: string]: JsVarInjectionReport } = report.variables || {};
+    const problems: string[] = [];
+    for (const jsVar of jsVars.keys()) {
+        const variableReport: JsVarInjectionReport | undefined = variableReports[jsVar];
+        if (variableReport === undefined) {
+            problems.push(`${jsVar}: missing from the injection report`);
+            continue;
         }
-        if (value.includes(JS_REPLACEMENT_SED_DELIMITER)) {
-            return err(new Error(`Cannot insert value '${value}' for variable '${key}' in the Wallet JS file because the value includes our sed delimiter character '${JS_REPLACEMENT_SED_DELIMITER}`))
+        const diff: string = `${JSON.stringify(variableReport.before)} -> ${JSON.stringify(variableReport.after)}`;
+        log.info(`Wallet JS variable ${jsVar}: ${diff}`);
+        if (!variableReport.ok) {
+            const problem: string = variableReport.after.length === 0 ?
+                "not found in the Wallet JS" :
+                `expected every occurrence to be ${JSON.stringify(variableReport.expected)}, but got ${diff}`;
+            problems.push(`${jsVar}: ${problem}`);
         }
-        const verifyEnvvarExistenceCommand = `${verifyEnvvarExitenceFuncName} "${key}"`;
-        commandFragments.push(verifyEnvvarExistenceCommand);
-
-        // Parcel envvars get set as a bunch of properties, like:
-        // ....MOONPAY_API_URL:"SOMETHING",ACCOUNT_ID_SUFFIX:"SOMETHING ELSE"....
-        // We therefore look for the property assignments and overwrite the value with our constant string instead
-        const updateJsFileCommand = `sed -i -E 's${JS_REPLACEMENT_SED_DELIMITER}([,{])${key}:"[^"]*"([,}])${JS_REPLACEMENT_SED_DELIMITER}\\1${key}:"${value}"\\2${JS_REPLACEMENT_SED_DELIMITER}g' ${WALLET_JS_FILE_GLOB}`
-        commandFragments.push(updateJsFileCommand);
     }
+    if (problems.length === 0 && exitCode !== EXEC_COMMAND_SUCCESS_EXIT_CODE) {
+        problems.push(`the injection script reported every variable as correct, but exited with a non-success code`);
+    }
+    if (problems.length > 0) {
+        return err(new Error(
+            `Injecting the Wallet JS variables into ${JSON.stringify(report.files)} failed with exit code ${exitCode}:\n * ${problems.join("\n * ")}`
+        ));
+    }
+    log.info(`Injected ${jsVars.size} variables into the Wallet JS files ${JSON.stringify(report.files)}`);
+    return ok(null);
+}
 
-    return ok(commandFragments);
-}
\ No newline at end of file
+async function readFileOnContainer(serviceCtx: ServiceContext, filepath: string): Promise<Result<string, Error>> {
+    const command: string[] = ["cat", filepath];
+    const execCmdResult: Result<[number, string], Error> = await serviceCtx.execCommand(command);
+    if (execCmdResult.isErr()) {
+        return err(execCmdResult.error);
+    }
+    const [exitCode, logOutput] = execCmdResult.value;
+    if (exitCode !== EXEC_COMMAND_SUCCESS_EXIT_CODE) {
+        return err(new Error(`Command '${command.join(" ")}' on the Wallet returned error exit code '${exitCode}' with logs:\n${logOutput}`));
+    }
+    return ok(logOutput);
+}
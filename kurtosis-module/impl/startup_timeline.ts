@@ -0,0 +1,56 @@
+import * as log from "loglevel";
+import { Result } from "neverthrow";
+import { StartupPhaseResult } from "./module_io/result";
+
+// The phases that the start is made up of, recorded for each service they happen for
+export const FILES_UPLOAD_PHASE: string = "files-upload";
+export const SERVICE_ADD_PHASE: string = "service-add";
+export const VALIDATOR_KEY_FETCH_PHASE: string = "validator-key-fetch";
+export const DB_CREATION_PHASE: string = "db-creation";
+export const READINESS_PHASE: string = "readiness";
+
+const SUCCEEDED_OUTCOME: string = "succeeded";
+const FAILED_OUTCOME: string = "failed";
+
+// Records when each phase of the start began & ended, and whether it succeeded, so that slow services can be spotted
+//  (and compared between image versions)
+export class StartupTimeline {
+    // In the order that they ended
+    private readonly phases: StartupPhaseResult[] = [];
+
+    constructor(
+        // Whether each phase also gets logged as a line of JSON as soon as it ends, so that the timeline of a start
+        //  that fails isn't lost
+        private readonly isJsonLinesLoggingEnabled: boolean,
+    ) {}
+
+    // Runs the step, recording it as the given phase
+    public async record<T>(
+        subject: string,
+        phase: string,
+        step: () => Promise<Result<T, Error>>,
+    ): Promise<Result<T, Error>> {
+        const startTime: Date = new Date();
+        const stepResult: Result<T, Error> = await step();
+        const endTime: Date = new Date();
+
+        const phaseResult: StartupPhaseResult = new StartupPhaseResult(
+            subject,
+            phase,
+            startTime.toISOString(),
+            endTime.toISOString(),
+            endTime.getTime() - startTime.getTime(),
+            stepResult.isOk() ? SUCCEEDED_OUTCOME : FAILED_OUTCOME,
+            stepResult.isErr() ? stepResult.error.message : undefined,
+        );
+        this.phases.push(phaseResult);
+        if (this.isJsonLinesLoggingEnabled) {
+            log.info(JSON.stringify(phaseResult));
+        }
+        return stepResult;
+    }
+
+    public getPhases(): StartupPhaseResult[] {
+        return [...this.phases];
+    }
+}
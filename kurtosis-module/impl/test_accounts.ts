@@ -0,0 +1,122 @@
+import * as log from "loglevel";
+import { Result, ok, err } from "neverthrow";
+import { isDecimalString } from "./amounts";
+import { isDirectSubaccount, isValidAccountId } from "./genesis";
+import { AccountParams } from "./module_io/params";
+import { generateEd25519KeyPair, NearKeyPair, validatePublicKey } from "./near_keys";
+import { AccountView, NearRpcClient } from "./near_rpc";
+import { AddFullAccessKeyAction, CreateAccountAction, createSignedTransaction, TransferAction } from "./transactions";
+import { ValidatorKey } from "./validator_key";
+
+export class TestAccountInfo {
+    constructor(
+        public readonly accountId: string,
+        public readonly publicKey: string,
+        // Only known (and so only defined) if the module generated the account's keypair
+        public readonly secretKey: string | undefined,
+        // The account's balance once its creation became final, in yoctoNEAR, as a base-10 string
+        public readonly balance: string,
+    ) {}
+}
+
+// Checks the account params against each other & the account that will create them, so that mistakes get reported
+//  before any services are started
+// The accounts are created by the root account, and NEAR only lets accounts create their direct subaccounts
+export function validateTestAccountParams(accounts: AccountParams[], creatorAccountId: string): Result<null, Error> {
+    const problems: string[] = [];
+    const accountIds: Set<string> = new Set();
+    for (const account of accounts) {
+        if (!isValidAccountId(account.accountId)) {
+            problems.push(`Account ID '${account.accountId}' isn't a valid NEAR account ID`);
+        } else if (!isDirectSubaccount(account.accountId, creatorAccountId)) {
+            problems.push(`Account '${account.accountId}' isn't a direct subaccount of the '${creatorAccountId}' account that creates it (e.g. 'alice.${creatorAccountId}')`);
+        }
+        if (accountIds.has(account.accountId)) {
+            problems.push(`Account '${account.accountId}' is listed more than once`);
+        }
+        accountIds.add(account.accountId);
+        if (!isDecimalString(account.balance)) {
+            problems.push(`Account '${account.accountId}' has balance '${account.balance}', which isn't a non-negative base-10 integer string`);
+        }
+        if (account.publicKey !== undefined) {
+            const validatePublicKeyResult: Result<null, Error> = validatePublicKey(account.publicKey);
+            if (validatePublicKeyResult.isErr()) {
+                problems.push(`Account '${account.accountId}' has an invalid key: ${validatePublicKeyResult.error.message}`);
+            }
+        }
+    }
+    if (problems.length > 0) {
+        return err(new Error(`The test accounts are invalid:\n * ${problems.join("\n * ")}`));
+    }
+    return ok(null);
+}
+
+// Creates each account with a transaction signed by the creator, waiting for each creation to become final
+export async function createTestAccounts(
+    rpcClient: NearRpcClient,
+    creatorKey: ValidatorKey,
+    accounts: AccountParams[],
+): Promise<Result<TestAccountInfo[], Error>> {
+    if (accounts.length === 0) {
+        return ok([]);
+    }
+
+    const getNonceResult: Result<number, Error> = await rpcClient.getAccessKeyNonce(creatorKey.account_id, creatorKey.public_key);
+    if (getNonceResult.isErr()) {
+        return err(getNonceResult.error);
+    }
+    let nonce: number = getNonceResult.value;
+
+    const result: TestAccountInfo[] = [];
+    for (const account of accounts) {
+        log.info(`Creating test account '${account.accountId}'...`);
+        let publicKey: string;
+        let secretKey: string | undefined;
+        if (account.publicKey !== undefined) {
+            publicKey = account.publicKey;
+            secretKey = undefined;
+        } else {
+            const generateKeyPairResult: Result<NearKeyPair, Error> = generateEd25519KeyPair();
+            if (generateKeyPairResult.isErr()) {
+                return err(generateKeyPairResult.error);
+            }
+            publicKey = generateKeyPairResult.value.publicKey;
+            secretKey = generateKeyPairResult.value.secretKey;
+        }
+
+        // Fetched per transaction, as transactions expire a fixed number of blocks after their block hash
+        const getBlockHashResult: Result<string, Error> = await rpcClient.getFinalBlockHash();
+        if (getBlockHashResult.isErr()) {
+            return err(getBlockHashResult.error);
+        }
+        nonce++;
+        const createTransactionResult: Result<string, Error> = createSignedTransaction(
+            creatorKey.account_id,
+            creatorKey.public_key,
+            creatorKey.secret_key,
+            nonce,
+            account.accountId,
+            getBlockHashResult.value,
+            [
+                new CreateAccountAction(),
+                new TransferAction(account.balance),
+                new AddFullAccessKeyAction(publicKey),
+            ],
+        );
+        if (createTransactionResult.isErr()) {
+            return err(createTransactionResult.error);
+        }
+        const broadcastResult: Result<string, Error> = await rpcClient.broadcastTxCommit(createTransactionResult.value);
+        if (broadcastResult.isErr()) {
+            return err(new Error(`Creating test account '${account.accountId}' failed: ${broadcastResult.error.message}`));
+        }
+
+        const waitForFinalityResult: Result<AccountView, Error> = await rpcClient.waitForFinalAccount(account.accountId);
+        if (waitForFinalityResult.isErr()) {
+            return err(waitForFinalityResult.error);
+        }
+        result.push(new TestAccountInfo(account.accountId, publicKey, secretKey, waitForFinalityResult.value.amount));
+        log.info(`Created test account '${account.accountId}'`);
+    }
+    return ok(result);
+}
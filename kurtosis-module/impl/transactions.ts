@@ -0,0 +1,178 @@
+import * as crypto from "crypto";
+import { Result, ok, err } from "neverthrow";
+import { decodeBase58 } from "./base58";
+import { BorshWriter } from "./borsh";
+import { decodePublicKey, sign } from "./near_keys";
+
+// The Borsh enum variant indices of the NEAR types that transactions are built from
+// See: https://nomicon.io/DataStructures/Transaction & https://nomicon.io/RuntimeSpec/Actions
+const ED25519_KEY_TYPE_TAG: number = 0;
+const CREATE_ACCOUNT_ACTION_TAG: number = 0;
+const DEPLOY_CONTRACT_ACTION_TAG: number = 1;
+const FUNCTION_CALL_ACTION_TAG: number = 2;
+const TRANSFER_ACTION_TAG: number = 3;
+const ADD_KEY_ACTION_TAG: number = 5;
+const DELETE_KEY_ACTION_TAG: number = 6;
+const FULL_ACCESS_PERMISSION_TAG: number = 1;
+
+const NEW_ACCESS_KEY_NONCE: number = 0;
+const TRANSACTION_HASH_ALGORITHM: string = "sha256";
+const BLOCK_HASH_NUM_BYTES: number = 32;
+
+// One of the operations that a transaction performs on its receiver account
+export interface Action {
+    serialize(writer: BorshWriter): Result<null, Error>;
+}
+
+export class CreateAccountAction implements Action {
+    public serialize(writer: BorshWriter): Result<null, Error> {
+        writer.writeU8(CREATE_ACCOUNT_ACTION_TAG);
+        return ok(null);
+    }
+}
+
+export class DeployContractAction implements Action {
+    constructor(
+        // The contract's WASM bytecode
+        public readonly code: Buffer,
+    ) {}
+
+    public serialize(writer: BorshWriter): Result<null, Error> {
+        writer.writeU8(DEPLOY_CONTRACT_ACTION_TAG);
+        writer.writeBytes(this.code);
+        return ok(null);
+    }
+}
+
+export class FunctionCallAction implements Action {
+    constructor(
+        public readonly methodName: string,
+        // Usually JSON, but contracts are free to interpret their args however they like
+        public readonly args: Buffer,
+        public readonly gas: number,
+        // In yoctoNEAR, as a base-10 string
+        public readonly deposit: string,
+    ) {}
+
+    public serialize(writer: BorshWriter): Result<null, Error> {
+        writer.writeU8(FUNCTION_CALL_ACTION_TAG);
+        writer.writeString(this.methodName);
+        writer.writeBytes(this.args);
+        const writeGasResult: Result<null, Error> = writer.writeU64(this.gas);
+        if (writeGasResult.isErr()) {
+            return err(writeGasResult.error);
+        }
+        return writer.writeU128(this.deposit);
+    }
+}
+
+export class TransferAction implements Action {
+    constructor(
+        // In yoctoNEAR, as a base-10 string
+        public readonly deposit: string,
+    ) {}
+
+    public serialize(writer: BorshWriter): Result<null, Error> {
+        writer.writeU8(TRANSFER_ACTION_TAG);
+        return writer.writeU128(this.deposit);
+    }
+}
+
+export class AddFullAccessKeyAction implements Action {
+    constructor(
+        // E.g. "ed25519:3Kuyi2DUXdoHgoaNEvCxa1m6G8xqc6Xs7WGajaqLhNmW"
+        public readonly publicKey: string,
+    ) {}
+
+    public serialize(writer: BorshWriter): Result<null, Error> {
+        writer.writeU8(ADD_KEY_ACTION_TAG);
+        const writePublicKeyResult: Result<null, Error> = writePublicKey(writer, this.publicKey);
+        if (writePublicKeyResult.isErr()) {
+            return err(writePublicKeyResult.error);
+        }
+        const writeNonceResult: Result<null, Error> = writer.writeU64(NEW_ACCESS_KEY_NONCE);
+        if (writeNonceResult.isErr()) {
+            return err(writeNonceResult.error);
+        }
+        writer.writeU8(FULL_ACCESS_PERMISSION_TAG);
+        return ok(null);
+    }
+}
+
+export class DeleteKeyAction implements Action {
+    constructor(
+        // E.g. "ed25519:3Kuyi2DUXdoHgoaNEvCxa1m6G8xqc6Xs7WGajaqLhNmW"
+        public readonly publicKey: string,
+    ) {}
+
+    public serialize(writer: BorshWriter): Result<null, Error> {
+        writer.writeU8(DELETE_KEY_ACTION_TAG);
+        return writePublicKey(writer, this.publicKey);
+    }
+}
+
+// Builds & signs a transaction, returning it base64-encoded as the RPC's broadcast methods expect
+export function createSignedTransaction(
+    signerAccountId: string,
+    signerPublicKey: string,
+    signerSecretKey: string,
+    // Must be greater than the nonce of the signer's access key
+    nonce: number,
+    receiverAccountId: string,
+    // Base58-encoded hash of a recent block, which the transaction expires relative to
+    blockHash: string,
+    actions: Action[],
+): Result<string, Error> {
+    const decodeBlockHashResult: Result<Buffer, Error> = decodeBase58(blockHash);
+    if (decodeBlockHashResult.isErr()) {
+        return err(new Error(`Block hash '${blockHash}' isn't valid base58: ${decodeBlockHashResult.error.message}`));
+    }
+    const blockHashBytes: Buffer = decodeBlockHashResult.value;
+    if (blockHashBytes.length !== BLOCK_HASH_NUM_BYTES) {
+        return err(new Error(`Block hash '${blockHash}' decodes to ${blockHashBytes.length} bytes, but block hashes must be ${BLOCK_HASH_NUM_BYTES} bytes`));
+    }
+
+    const writer: BorshWriter = new BorshWriter();
+    writer.writeString(signerAccountId);
+    const writeSignerPublicKeyResult: Result<null, Error> = writePublicKey(writer, signerPublicKey);
+    if (writeSignerPublicKeyResult.isErr()) {
+        return err(writeSignerPublicKeyResult.error);
+    }
+    const writeNonceResult: Result<null, Error> = writer.writeU64(nonce);
+    if (writeNonceResult.isErr()) {
+        return err(writeNonceResult.error);
+    }
+    writer.writeString(receiverAccountId);
+    writer.writeFixedBytes(blockHashBytes);
+    writer.writeU32(actions.length);
+    for (const action of actions) {
+        const serializeActionResult: Result<null, Error> = action.serialize(writer);
+        if (serializeActionResult.isErr()) {
+            return err(serializeActionResult.error);
+        }
+    }
+    const transactionBytes: Buffer = writer.toBuffer();
+
+    // What gets signed is the hash of the transaction, not the transaction itself
+    const transactionHash: Buffer = crypto.createHash(TRANSACTION_HASH_ALGORITHM).update(transactionBytes).digest();
+    const signResult: Result<Buffer, Error> = sign(signerSecretKey, transactionHash);
+    if (signResult.isErr()) {
+        return err(signResult.error);
+    }
+
+    const signedTransactionWriter: BorshWriter = new BorshWriter();
+    signedTransactionWriter.writeFixedBytes(transactionBytes);
+    signedTransactionWriter.writeU8(ED25519_KEY_TYPE_TAG);
+    signedTransactionWriter.writeFixedBytes(signResult.value);
+    return ok(signedTransactionWriter.toBuffer().toString("base64"));
+}
+
+function writePublicKey(writer: BorshWriter, publicKey: string): Result<null, Error> {
+    const decodeResult: Result<Buffer, Error> = decodePublicKey(publicKey);
+    if (decodeResult.isErr()) {
+        return err(decodeResult.error);
+    }
+    writer.writeU8(ED25519_KEY_TYPE_TAG);
+    writer.writeFixedBytes(decodeResult.value);
+    return ok(null);
+}
@@ -0,0 +1,68 @@
+import { Result, ok, err } from "neverthrow";
+import { isValidAccountId } from "./genesis";
+import { derivePublicKey, validatePublicKey } from "./near_keys";
+
+// Matches the format of the validator_key.json file that NEAR nodes read, which is also the key file format that
+//  the NEAR CLI & contract helper accept
+// NOTE: the launch script scrapes this out of the module result, so its fields must stay flat strings
+export interface ValidatorKey {
+    account_id: string;
+    public_key: string;
+    secret_key: string;
+}
+
+export function parseValidatorKey(validatorKeyStr: string): Result<ValidatorKey, Error> {
+    let deserializedObj: any;
+    try {
+        deserializedObj = JSON.parse(validatorKeyStr);
+    } catch (e: any) {
+        // Sadly, we have to do this because there's no great way to enforce the caught thing being an error
+        // See: https://stackoverflow.com/questions/30469261/checking-for-typeof-error-in-js
+        if (e && e.stack && e.message) {
+            return err(e as Error);
+        }
+        return err(new Error(
+            `JSON-parsing validator key string ${validatorKeyStr} threw an exception, but ` +
+                `it's not an Error so we can't report any more information than this`
+        ));
+    }
+    return validateValidatorKey(deserializedObj);
+}
+
+// Checks that the object is a well-formed validator key whose public key belongs to its secret key, returning a
+//  copy containing only the validator key fields
+export function validateValidatorKey(obj: any): Result<ValidatorKey, Error> {
+    if (obj === null || typeof obj !== "object" || Array.isArray(obj)) {
+        return err(new Error(`Validator key must be an object, but was '${JSON.stringify(obj)}'`));
+    }
+    for (const field of ["account_id", "public_key", "secret_key"]) {
+        if (typeof obj[field] !== "string") {
+            return err(new Error(`Validator key field '${field}' must be a string, but was '${JSON.stringify(obj[field])}'`));
+        }
+    }
+    const accountId: string = obj.account_id;
+    if (!isValidAccountId(accountId)) {
+        return err(new Error(`Validator key account ID '${accountId}' isn't a valid NEAR account ID`));
+    }
+    const validatePublicKeyResult: Result<null, Error> = validatePublicKey(obj.public_key);
+    if (validatePublicKeyResult.isErr()) {
+        return err(new Error(`Validator key for account '${accountId}' is invalid: ${validatePublicKeyResult.error.message}`));
+    }
+    const derivePublicKeyResult: Result<string, Error> = derivePublicKey(obj.secret_key);
+    if (derivePublicKeyResult.isErr()) {
+        return err(new Error(`Validator key for account '${accountId}' is invalid: ${derivePublicKeyResult.error.message}`));
+    }
+    if (derivePublicKeyResult.value !== obj.public_key) {
+        return err(new Error(
+            `Validator key for account '${accountId}' is invalid: its public key '${obj.public_key}' doesn't match ` +
+                `the public key '${derivePublicKeyResult.value}' of its secret key`
+        ));
+    }
+
+    const result: ValidatorKey = {
+        account_id: accountId,
+        public_key: obj.public_key,
+        secret_key: obj.secret_key,
+    };
+    return ok(result);
+}
@@ -0,0 +1,6 @@
+import { getExecuteParamsJsonSchema } from "./impl/module_io/params_schema";
+
+const SCHEMA_JSON_PRETTY_PRINT_SPACE_NUM: number = 4;
+
+// Prints the execute params schema as JSON Schema, so that params can be validated before they're passed to the module
+console.log(JSON.stringify(getExecuteParamsJsonSchema(), null, SCHEMA_JSON_PRETTY_PRINT_SPACE_NUM));
@@ -0,0 +1,67 @@
+// Preloaded into the contract helper's Node processes (via NODE_OPTIONS) when the mail catcher is enabled
+// With USE_MOCK_TWILIO=true the contract helper only logs the SMSes it would have sent (as an object with "to" and
+//  "text"/"body" fields), so this forwards each one to the mail catcher as an email addressed to
+//  "<phone number>@<SMS_CAPTURE_EMAIL_DOMAIN>", where it can be read back through the mail catcher's HTTP API
+const SMTP_HOST = process.env.SMS_CAPTURE_SMTP_HOST;
+const SMTP_PORT = parseInt(process.env.SMS_CAPTURE_SMTP_PORT || "", 10);
+const EMAIL_DOMAIN = process.env.SMS_CAPTURE_EMAIL_DOMAIN;
+const FROM_ADDRESS = `sms-capture@${EMAIL_DOMAIN}`;
+const SUBJECT = "SMS";
+
+// Nodemailer is one of the contract helper's own dependencies, so it's resolved from the app's directory rather than
+//  from this file's; it's only loaded once there's something to send, so that other Node processes (e.g. Yarn) that
+//  also preload this file don't need it
+let transport = undefined;
+function getTransport() {
+    if (transport === undefined) {
+        const nodemailer = require(require.resolve("nodemailer", { paths: [process.cwd()] }));
+        transport = nodemailer.createTransport({
+            host: SMTP_HOST,
+            port: SMTP_PORT,
+            secure: false,
+            ignoreTLS: true,
+        });
+    }
+    return transport;
+}
+
+function getCapturedSms(args) {
+    for (const arg of args) {
+        if (arg === null || typeof arg !== "object") {
+            continue;
+        }
+        const text = typeof arg.text === "string" ? arg.text : arg.body;
+        if (typeof arg.to === "string" && typeof text === "string") {
+            return { to: arg.to, text: text };
+        }
+    }
+    return undefined;
+}
+
+function forwardSms(sms) {
+    try {
+        getTransport().sendMail({
+            from: FROM_ADDRESS,
+            to: `${sms.to.replace(/[^0-9+]/g, "")}@${EMAIL_DOMAIN}`,
+            subject: SUBJECT,
+            text: sms.text,
+        }).catch((e) => {
+            process.stderr.write(`Forwarding SMS to '${sms.to}' to the mail catcher failed: ${e}\n`);
+        });
+    } catch (e) {
+        process.stderr.write(`Forwarding SMS to '${sms.to}' to the mail catcher failed: ${e}\n`);
+    }
+}
+
+if (SMTP_HOST && !isNaN(SMTP_PORT) && EMAIL_DOMAIN) {
+    for (const method of ["log", "info"]) {
+        const original = console[method];
+        console[method] = function (...args) {
+            const sms = getCapturedSms(args);
+            if (sms !== undefined) {
+                forwardSms(sms);
+            }
+            return original.apply(this, args);
+        };
+    }
+}
@@ -0,0 +1,88 @@
+# Sets variables in the Wallet's Parcel-bundled JS, then checks that each one holds exactly the intended value
+# Usage: python3 inject_js_vars.py <bundle file glob> <JSON object of variable name -> string value>
+# Prints a JSON report with each variable's values before & after injection, and exits non-zero if any variable is
+#  missing from the bundle or doesn't end up with the intended value
+import glob
+import json
+import re
+import sys
+
+SUCCESS_EXIT_CODE = 0
+VERIFICATION_FAILED_EXIT_CODE = 1
+USAGE_EXIT_CODE = 2
+
+# A double-quoted JS string literal, including any escaped characters (e.g. \" or \\)
+STRING_LITERAL_REGEX = r'"(?:[^"\\\n]|\\.)*"'
+
+
+# Parcel sets variables as object properties, like: ...,MOONPAY_API_URL:"SOMETHING",ACCOUNT_ID_SUFFIX:"SOMETHING ELSE",...
+def get_property_regex(name):
+    return re.compile(r'([,{])' + re.escape(name) + r':(' + STRING_LITERAL_REGEX + r')(?=[,}])')
+
+
+# JSON string literals are a subset of JS ones, so this only falls back to the raw literal for JS-only escapes
+def decode_string_literal(literal):
+    try:
+        return json.loads(literal)
+    except ValueError:
+        return literal
+
+
+def get_values(contents, name):
+    return [decode_string_literal(match.group(2)) for match in get_property_regex(name).finditer(contents)]
+
+
+def main():
+    if len(sys.argv) != 3:
+        print(json.dumps({"error": "Expected exactly two args, the bundle file glob & the JSON variables"}))
+        return USAGE_EXIT_CODE
+    filepaths = sorted(glob.glob(sys.argv[1]))
+    js_vars = json.loads(sys.argv[2])
+    if len(filepaths) == 0:
+        print(json.dumps({"error": "No Wallet JS files match glob '{}'".format(sys.argv[1])}))
+        return USAGE_EXIT_CODE
+
+    contents_by_filepath = {}
+    for filepath in filepaths:
+        with open(filepath, "r", encoding="utf-8") as fp:
+            contents_by_filepath[filepath] = fp.read()
+
+    report = {}
+    for name, value in js_vars.items():
+        report[name] = {
+            "expected": value,
+            "before": [],
+            "after": [],
+        }
+        # ensure_ascii also escapes U+2028 & U+2029, which aren't allowed unescaped in JS string literals in older engines
+        replacement_literal = json.dumps(value, ensure_ascii=True)
+        for filepath, contents in contents_by_filepath.items():
+            report[name]["before"].extend(get_values(contents, name))
+            contents_by_filepath[filepath] = get_property_regex(name).sub(
+                # A function, so that backslashes in the value aren't treated as backreferences
+                lambda match: match.group(1) + name + ":" + replacement_literal,
+                contents,
+            )
+
+    for filepath, contents in contents_by_filepath.items():
+        with open(filepath, "w", encoding="utf-8") as fp:
+            fp.write(contents)
+
+    # The files are re-read so that what's verified is what's actually on disk
+    is_every_var_correct = True
+    for filepath in filepaths:
+        with open(filepath, "r", encoding="utf-8") as fp:
+            contents = fp.read()
+        for name in js_vars:
+            report[name]["after"].extend(get_values(contents, name))
+    for name, value in js_vars.items():
+        after = report[name]["after"]
+        report[name]["ok"] = len(after) > 0 and all(actual == value for actual in after)
+        is_every_var_correct = is_every_var_correct and report[name]["ok"]
+
+    print(json.dumps({"files": filepaths, "variables": report}))
+    return SUCCESS_EXIT_CODE if is_every_var_correct else VERIFICATION_FAILED_EXIT_CODE
+
+
+if __name__ == "__main__":
+    sys.exit(main())
@@ -75,7 +75,8 @@ function get_json_property() {
         echo "Error: A JSON property name must be provided" >&2
         return 1
     fi
-    cat "${module_output_filepath}" | grep "${property_name}" | awk '{print $NF}' | sed 's/^"//' | sed 's/",*$//'
+    # The first match is the top-level property (e.g. the root validator's "account_id" comes before any in "validatorNodes")
+    cat "${module_output_filepath}" | grep "${property_name}" | head -n 1 | awk '{print $NF}' | sed 's/^"//' | sed 's/",*$//'
 }
 
 validator_key_filepath="${module_exec_dirpath}/validator-key.json"